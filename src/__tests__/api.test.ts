@@ -8,9 +8,11 @@
  * directory before any module loads, so production data is never touched.
  */
 
+import fs from 'fs';
 import { describe, it, expect, beforeAll } from 'vitest';
 import request from 'supertest';
 import app from '../app';
+import { getDbPaths } from '../utils/db-paths';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Shared state — populated as tests run
@@ -519,6 +521,1692 @@ describe('Row endpoints', () => {
     });
 });
 
+describe('Required columns', () => {
+    let bookId = 0;
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${dbId}/table`).send({ tableName: 'books' });
+        await request(app)
+            .post(`/api/database/${dbId}/table/books/column`)
+            .send({ name: 'isbn', type: 'string' });
+        await request(app)
+            .post(`/api/database/${dbId}/table/books/column`)
+            .send({ name: 'pages', type: 'integer' });
+        await request(app)
+            .patch(`/api/database/${dbId}/table/books/column/isbn/required`)
+            .send({ required: 'yes' });
+        await request(app)
+            .patch(`/api/database/${dbId}/table/books/column/pages/required`)
+            .send({ required: 'soft yes' });
+    });
+
+    it('POST .../row — rejects a row missing a "yes" column', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/books/row`)
+            .send({ title: 'No ISBN', isbn: '   ' });
+
+        expect(res.status).toBe(500);
+        expect(res.body.detail).toContain('isbn');
+    });
+
+    it('POST .../row — accepts a missing "soft yes" column with warnings', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/books/row`)
+            .send({ title: 'Dune', isbn: '978-0441013593' });
+
+        expect(res.status).toBe(201);
+        expect(res.body.warnings).toEqual([
+            expect.objectContaining({ column: 'pages', required: 'soft yes' }),
+        ]);
+        bookId = res.body.id;
+    });
+
+    it('PATCH .../row/:rowId — rejects clearing a "yes" column', async () => {
+        const res = await request(app)
+            .patch(`/api/database/${dbId}/table/books/row/${bookId}`)
+            .send({ isbn: '' });
+
+        expect(res.status).toBe(500);
+    });
+
+    it('PATCH .../row/:rowId — no warnings once every field is filled', async () => {
+        const res = await request(app)
+            .patch(`/api/database/${dbId}/table/books/row/${bookId}`)
+            .send({ pages: 412 });
+
+        expect(res.status).toBe(200);
+        expect(res.body.pages).toBe(412);
+        expect(res.body).not.toHaveProperty('warnings');
+    });
+
+    it('GET .../required — reports existing violations per column', async () => {
+        await request(app)
+            .post(`/api/database/${dbId}/table/books/row`)
+            .send({ title: 'Emma', isbn: '978-0141439587' });
+
+        const res = await request(app).get(`/api/database/${dbId}/table/books/required`);
+
+        expect(res.status).toBe(200);
+        const pages = res.body.columns.find((c: any) => c.column === 'pages');
+        expect(pages.count).toBe(1);
+        expect(pages.rows[0].title).toBe('Emma');
+        expect(res.body.violatingRows).toBe(1);
+    });
+
+    it('GET .../required — 404 for a missing table', async () => {
+        const res = await request(app).get(`/api/database/${dbId}/table/no_such_table/required`);
+
+        expect(res.status).toBe(404);
+    });
+});
+
+describe('Column type conversion', () => {
+    let bookIds: number[] = [];
+
+    beforeAll(async () => {
+        for (const name of ['format', 'year']) {
+            await request(app)
+                .post(`/api/database/${dbId}/table/books/column`)
+                .send({ name, type: 'string' });
+        }
+        const books = await request(app).get(`/api/database/${dbId}/table/books?s=id:asc`);
+        bookIds = books.body.rows.map((r: any) => r.id);
+        await request(app)
+            .patch(`/api/database/${dbId}/table/books/row/${bookIds[0]}`)
+            .send({ format: 'Hardcover', year: '1965' });
+        await request(app)
+            .patch(`/api/database/${dbId}/table/books/row/${bookIds[1]}`)
+            .send({ format: 'Paperback', year: 'unknown' });
+    });
+
+    it('PATCH .../column/:col — dryRun previews without writing', async () => {
+        const res = await request(app)
+            .patch(`/api/database/${dbId}/table/books/column/year`)
+            .send({ newType: 'integer', dryRun: true });
+
+        expect(res.status).toBe(200);
+        expect(res.body.conversion.converted).toBe(1);
+        expect(res.body.conversion.failed).toEqual([
+            expect.objectContaining({ rowId: bookIds[1], value: 'unknown' }),
+        ]);
+        expect(res.body.conversion.preview).toHaveLength(2);
+
+        const col = await request(app).get(`/api/database/${dbId}/table/books/column/year`);
+        expect(col.body.type).toBe('string');
+    });
+
+    it('PATCH .../column/:col — retypes in place and keeps data', async () => {
+        const res = await request(app)
+            .patch(`/api/database/${dbId}/table/books/column/year`)
+            .send({ newType: 'integer' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.type).toBe('integer');
+
+        const row = await request(app).get(`/api/database/${dbId}/table/books/row/${bookIds[0]}`);
+        expect(row.body.year).toBe(1965);
+        const failed = await request(app).get(`/api/database/${dbId}/table/books/row/${bookIds[1]}`);
+        expect(failed.body.year).toBeNull();
+    });
+
+    it('PATCH .../column/:col — string → single_tag registers values as tags', async () => {
+        const res = await request(app)
+            .patch(`/api/database/${dbId}/table/books/column/format`)
+            .send({ newType: 'single_tag', newName: 'binding' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.conversion.registeredTags.sort()).toEqual(['hardcover', 'paperback']);
+
+        const col = await request(app).get(`/api/database/${dbId}/table/books/column/binding`);
+        expect(col.body.tags.map((t: any) => t.name).sort()).toEqual(['hardcover', 'paperback']);
+
+        const row = await request(app).get(`/api/database/${dbId}/table/books/row/${bookIds[0]}`);
+        expect(row.body.binding).toBe('hardcover');
+        expect(row.body).not.toHaveProperty('format');
+    });
+
+    it('PATCH .../column/:col — reports values that would be clamped or truncated', async () => {
+        const res = await request(app)
+            .patch(`/api/database/${dbId}/table/books/column/year`)
+            .send({ newType: 'rating', dryRun: true });
+
+        expect(res.status).toBe(200);
+        expect(res.body.conversion.converted).toBe(0);
+        expect(res.body.conversion.failed).toEqual([
+            expect.objectContaining({ rowId: bookIds[0], value: 1965, reason: expect.stringMatching(/would become 5/) }),
+        ]);
+    });
+
+    it('PATCH .../column/:col — integer → rich_text fails, outside the mapping matrix', async () => {
+        const res = await request(app)
+            .patch(`/api/database/${dbId}/table/books/column/year`)
+            .send({ newType: 'rich_text', dryRun: true });
+
+        expect(res.status).toBe(200);
+        expect(res.body.conversion.converted).toBe(0);
+        expect(res.body.conversion.failed).toEqual([
+            expect.objectContaining({ rowId: bookIds[0], reason: 'integer values cannot be converted to rich_text' }),
+        ]);
+    });
+
+    it('PATCH .../column/:col — integer → string keeps every value as text', async () => {
+        const res = await request(app)
+            .patch(`/api/database/${dbId}/table/books/column/year`)
+            .send({ newType: 'string' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.conversion.failed).toEqual([]);
+
+        const row = await request(app).get(`/api/database/${dbId}/table/books/row/${bookIds[0]}`);
+        expect(row.body.year).toBe('1965');
+    });
+});
+
+describe('Batch row operations', () => {
+    it('POST .../row/batch — atomic mode rolls back on the first failure', async () => {
+        const before = await request(app).get(`/api/database/${dbId}/table/books`);
+
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/books/row/batch`)
+            .send({
+                operations: [
+                    { op: 'create', data: { title: 'Ulysses', isbn: '978-0199535675' } },
+                    { op: 'create', data: { title: 'No ISBN' } },
+                    { op: 'create', data: { title: 'Emma', isbn: '978-0141439587' } },
+                ],
+            });
+
+        expect(res.status).toBe(409);
+        expect(res.body).toMatchObject({ committed: false, succeeded: 0, failed: 3 });
+        expect(res.body.results[0]).toMatchObject({ success: false, error: 'Rolled back' });
+        expect(res.body.results[1].error).toContain('isbn');
+        expect(res.body.results[2]).toMatchObject({ index: 2, op: 'create', success: false, error: 'Not run' });
+
+        const after = await request(app).get(`/api/database/${dbId}/table/books`);
+        expect(after.body.totalRows).toBe(before.body.totalRows);
+    });
+
+    it('POST .../row/batch — best-effort mode commits what succeeds', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/books/row/batch`)
+            .send({
+                mode: 'best-effort',
+                operations: [
+                    { op: 'create', data: { title: 'Ulysses', isbn: '978-0199535675' } },
+                    { op: 'patch', id: 999999, data: { title: 'Missing' } },
+                    { op: 'create', data: { title: 'Throwaway', isbn: 'x' } },
+                ],
+            });
+
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ committed: true, succeeded: 2, failed: 1 });
+
+        const [created, , throwaway] = res.body.results;
+        const follow = await request(app)
+            .post(`/api/database/${dbId}/table/books/row/batch`)
+            .send({
+                operations: [
+                    { op: 'visibility', id: created.id, hidden: true },
+                    { op: 'delete', id: throwaway.id },
+                ],
+            });
+
+        expect(follow.status).toBe(200);
+        expect(follow.body.results[0].row.hidden).toBe(1);
+
+        const gone = await request(app).get(`/api/database/${dbId}/table/books/row/${throwaway.id}`);
+        expect(gone.status).toBe(500);
+    });
+
+    it('POST .../row/batch — patch operations cannot edit id, date_modified or hidden', async () => {
+        const books = await request(app).get(`/api/database/${dbId}/table/books?s=id:asc`);
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/books/row/batch`)
+            .send({
+                mode: 'best-effort',
+                operations: [
+                    { op: 'patch', id: books.body.rows[0].id, data: { title: 'Renamed', hidden: 1 } },
+                    { op: 'patch', id: books.body.rows[0].id, data: { id: 12345 } },
+                ],
+            });
+
+        expect(res.body).toMatchObject({ succeeded: 0, failed: 2 });
+        for (const result of res.body.results) {
+            expect(result.error).toBe("Cannot edit 'id', 'date_modified', or 'hidden' fields via this endpoint");
+        }
+        const row = await request(app).get(`/api/database/${dbId}/table/books/row/${books.body.rows[0].id}`);
+        expect(row.body.title).toBe(books.body.rows[0].title);
+    });
+
+    it('POST .../row/batch — 400 on malformed operations', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/books/row/batch`)
+            .send({ operations: [{ op: 'patch', data: {} }] });
+
+        expect(res.status).toBe(400);
+    });
+});
+
+describe('CSV import', () => {
+    const csv = [
+        'title,director,year,score,watched,released,genres,format,site',
+        'Alien,Ridley Scott,1979,8.5,yes,1979-05-25,horror;sci-fi,film,https://a.example',
+        'Heat,Michael Mann,1995,8.3,no,1995-12-15,crime,film,https://b.example',
+        '"Twin Peaks, Season 1",David Lynch,1990,8.8,yes,1990-04-08,drama;mystery,series,https://c.example',
+        'Brazil,,1985,,no,1985-12-18,sci-fi,film,https://d.example',
+    ].join('\r\n');
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${dbId}/table`).send({ tableName: 'films' });
+        await request(app)
+            .post(`/api/database/${dbId}/table/films/column`)
+            .send({ name: 'director', type: 'string' });
+        await request(app)
+            .patch(`/api/database/${dbId}/table/films/column/director/required`)
+            .send({ required: 'yes' });
+    });
+
+    it('POST .../import/csv — infers types, creates columns, and reports bad rows', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/films/import/csv`)
+            .attach('file', Buffer.from(csv), { filename: 'films.csv', contentType: 'text/csv' });
+
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ imported: 3, skipped: 1 });
+        expect(res.body.errors[0]).toMatch(/^Line 5: .*director/);
+
+        const types = Object.fromEntries(res.body.columns.map((c: any) => [c.header, c.columnType]));
+        expect(types).toMatchObject({
+            title: 'string',
+            director: 'string',
+            year: 'integer',
+            score: 'float',
+            watched: 'boolean',
+            released: 'date',
+            genres: 'multi_tag',
+            format: 'single_tag',
+            site: 'link',
+        });
+
+        const table = await request(app).get(`/api/database/${dbId}/table/films`);
+        const peaks = table.body.rows.find((r: any) => r.title === 'Twin Peaks, Season 1');
+        expect(peaks).toMatchObject({ year: 1990, watched: 1, genres: 'drama mystery', format: 'series' });
+        expect(peaks.released).toBe(Date.parse('1990-04-08'));
+
+        const format = await request(app).get(`/api/database/${dbId}/table/films/column/format`);
+        expect(format.body.tags.map((t: any) => t.name)).toEqual(['film', 'series']);
+    });
+
+    it('POST .../import/csv — honors manual mapping and createMissing=false', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/films/import/csv`)
+            .send({
+                csv: 'name;who;rank\nStalker;Andrei Tarkovsky;1',
+                delimiter: ';',
+                mapping: { title: 'name', director: 'who' },
+                createMissing: false,
+            });
+
+        expect(res.status).toBe(200);
+        expect(res.body.imported).toBe(1);
+        expect(res.body.columns.find((c: any) => c.header === 'rank').column).toBeNull();
+
+        const columns = await request(app).get(`/api/database/${dbId}/table/films/columns`);
+        expect(columns.body.map((c: any) => c.name)).not.toContain('rank');
+    });
+
+    it('POST .../import/csv — numeric headers fill title and string columns as text', async () => {
+        await request(app).post(`/api/database/${dbId}/table`).send({ tableName: 'catalog' });
+        await request(app)
+            .post(`/api/database/${dbId}/table/catalog/column`)
+            .send({ name: 'label', type: 'string' });
+
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/catalog/import/csv`)
+            .send({ csv: 'code,label\n101,7\n102,8' });
+
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ imported: 2, skipped: 0 });
+        expect(res.body.columns.find((c: any) => c.header === 'label')).toMatchObject({ column: 'label', compatibility: 'string_catch' });
+
+        const table = await request(app).get(`/api/database/${dbId}/table/catalog?s=id:asc`);
+        expect(table.body.rows.map((r: any) => [r.title, r.label])).toEqual([['101', '7'], ['102', '8']]);
+    });
+
+    it('POST .../import/csv — 400 without CSV data', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/films/import/csv`)
+            .send({});
+
+        expect(res.status).toBe(400);
+    });
+});
+
+describe('Table export', () => {
+    it('GET .../export?format=csv — applies q and s and renders values for people', async () => {
+        const res = await request(app)
+            .get(`/api/database/${dbId}/table/films/export`)
+            .query({ format: 'csv', q: 'director:a', s: 'year:desc' });
+
+        expect(res.status).toBe(200);
+        expect(res.headers['content-type']).toContain('text/csv');
+        expect(res.headers['content-disposition']).toContain('films.csv');
+
+        const lines = res.text.trim().split('\r\n');
+        expect(lines[0].startsWith('id,title,content,date_created,date_modified,hidden,director')).toBe(true);
+        expect(lines.slice(1).map(l => l.split(',')[1])).toEqual(['Heat', '"Twin Peaks', 'Stalker']);
+        expect(lines[2]).toContain('1990-04-08T00:00:00.000Z');
+        expect(lines[2]).toContain('drama; mystery');
+        expect(lines[2]).toContain(',true,');
+    });
+
+    it('GET .../export?format=json — structured values, hidden columns skipped', async () => {
+        const res = await request(app)
+            .get(`/api/database/${dbId}/table/films/export`)
+            .query({ format: 'json', q: 'Alien', skipHiddenColumns: 'true' });
+
+        expect(res.status).toBe(200);
+        expect(res.body).toHaveLength(1);
+        expect(res.body[0]).not.toHaveProperty('hidden');
+        expect(res.body[0]).toMatchObject({
+            title: 'Alien',
+            watched: true,
+            genres: ['horror', 'sci-fi'],
+            site: { displayName: 'https://a.example', url: 'https://a.example' },
+        });
+    });
+
+    it('GET .../export?format=ndjson — one JSON object per line', async () => {
+        const res = await request(app)
+            .get(`/api/database/${dbId}/table/films/export`)
+            .query({ format: 'ndjson' })
+            .buffer(true)
+            .parse((response, cb) => {
+                let text = '';
+                response.on('data', (chunk: Buffer) => { text += chunk; });
+                response.on('end', () => cb(null, text));
+            });
+
+        expect(res.status).toBe(200);
+        const lines = (res.body as string).trim().split('\n').map(l => JSON.parse(l));
+        expect(lines).toHaveLength(4);
+    });
+
+    it('GET .../export — 400 on unknown format', async () => {
+        const res = await request(app)
+            .get(`/api/database/${dbId}/table/films/export`)
+            .query({ format: 'xlsx' });
+
+        expect(res.status).toBe(400);
+    });
+});
+
+describe('Row history', () => {
+    let historyRowId = 0;
+    let startedAt = 0;
+
+    beforeAll(async () => {
+        startedAt = Date.now();
+        const created = await request(app)
+            .post(`/api/database/${dbId}/table/books/row`)
+            .send({ title: 'Dune', isbn: '978-0441013593', pages: 412 });
+        historyRowId = created.body.id;
+
+        await request(app)
+            .patch(`/api/database/${dbId}/table/books/row/${historyRowId}`)
+            .send({ title: 'Dune Messiah', pages: 256 });
+        await request(app)
+            .patch(`/api/database/${dbId}/table/books/row/${historyRowId}/visibility`)
+            .send({ hidden: true });
+    });
+
+    it('GET .../row/:rowId/history — lists changes with old and new values', async () => {
+        const res = await request(app).get(`/api/database/${dbId}/table/books/row/${historyRowId}/history`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.entries.map((e: any) => e.action)).toEqual(['visibility', 'patch', 'create']);
+
+        const [visibility, patch, create] = res.body.entries;
+        expect(visibility.changes).toEqual({ hidden: { old: 0, new: 1 } });
+        expect(patch.changes).toEqual({
+            title: { old: 'Dune', new: 'Dune Messiah' },
+            pages: { old: 412, new: 256 },
+        });
+        expect(create.changes.isbn).toEqual({ old: null, new: '978-0441013593' });
+    });
+
+    it('POST .../history/:entryId/revert — restores the values before a patch', async () => {
+        const history = await request(app).get(`/api/database/${dbId}/table/books/row/${historyRowId}/history`);
+        const patch = history.body.entries.find((e: any) => e.action === 'patch');
+
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/books/row/${historyRowId}/history/${patch.id}/revert`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.row).toMatchObject({ title: 'Dune', pages: 412, hidden: 1 });
+
+        const after = await request(app).get(`/api/database/${dbId}/table/books/row/${historyRowId}/history`);
+        expect(after.body.entries[0]).toMatchObject({ action: 'patch', revertOf: patch.id });
+    });
+
+    it('POST .../history/:entryId/revert — re-creates a deleted row under its id', async () => {
+        await request(app).delete(`/api/database/${dbId}/table/books/row/${historyRowId}`);
+        const history = await request(app).get(`/api/database/${dbId}/table/books/row/${historyRowId}/history`);
+        const deletion = history.body.entries[0];
+        expect(deletion.action).toBe('delete');
+
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/books/row/${historyRowId}/history/${deletion.id}/revert`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.row).toMatchObject({ id: historyRowId, title: 'Dune', isbn: '978-0441013593', hidden: 1 });
+
+        const trash = await request(app).get(`/api/database/${dbId}/table/books/trash`);
+        expect(trash.body.rows.map((r: any) => r.rowId)).not.toContain(historyRowId);
+    });
+
+    it('GET .../table/:tableName/history — filters the feed by date range and action', async () => {
+        const res = await request(app)
+            .get(`/api/database/${dbId}/table/books/history`)
+            .query({ from: new Date(startedAt).toISOString(), action: 'delete' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.total).toBe(1);
+        expect(res.body.entries[0].rowId).toBe(historyRowId);
+
+        const none = await request(app)
+            .get(`/api/database/${dbId}/table/books/history`)
+            .query({ to: String(startedAt - 60_000) });
+        expect(none.body.entries.every((e: any) => e.timestamp <= startedAt - 60_000)).toBe(true);
+    });
+
+    it('POST .../history/:entryId/revert — 404 for an entry of another row', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/books/row/${historyRowId}/history/999999/revert`);
+
+        expect(res.status).toBe(404);
+    });
+
+    it('POST .../history/:entryId/revert — writes an old null back into a typed column', async () => {
+        const created = await request(app).post(`/api/database/${dbId}/table/books/row`).send({ title: 'Emma', isbn: '978-0141439587' });
+        const rowUrl = `/api/database/${dbId}/table/books/row/${created.body.id}`;
+        await request(app).patch(rowUrl).send({ pages: 474 });
+        const history = await request(app).get(`${rowUrl}/history`);
+
+        const res = await request(app).post(`${rowUrl}/history/${history.body.entries[0].id}/revert`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.row.pages).toBeNull();
+    });
+});
+
+describe('Schema undo / redo', () => {
+    const base = () => `/api/database/${db2Id}`;
+    let crewId = 0;
+
+    beforeAll(async () => {
+        await request(app).post(`${base()}/table`).send({ tableName: 'crew' });
+        await request(app).post(`${base()}/table/crew/column`).send({ name: 'role', type: 'string' });
+        await request(app).post(`${base()}/table/crew/column`).send({ name: 'age', type: 'integer' });
+        const created = await request(app).post(`${base()}/table/crew/row`).send({ title: 'Ripley', role: 'Officer', age: 30 });
+        crewId = created.body.id;
+
+        await request(app).post(`${base()}/table`).send({ tableName: 'ships' });
+        await request(app).post(`${base()}/table/ships/column`).send({ name: 'captain', type: 'table_ref' });
+        await request(app).patch(`${base()}/table/ships/column/captain/tableref`).send({ targetTable: 'crew' });
+        await request(app).post(`${base()}/table/ships/row`).send({ title: 'Nostromo', captain: crewId });
+    });
+
+    it('POST /:dbId/undo — restores a deleted column with its values', async () => {
+        await request(app).delete(`${base()}/table/crew/column/role`);
+
+        const res = await request(app).post(`${base()}/undo`);
+        expect(res.status).toBe(200);
+        expect(res.body.undone).toMatchObject({ op: 'delete_column' });
+        expect(res.body.restoredValues).toBe(1);
+
+        const row = await request(app).get(`${base()}/table/crew/row/${crewId}`);
+        expect(row.body.role).toBe('Officer');
+        const column = await request(app).get(`${base()}/table/crew/column/role`);
+        expect(column.body.type).toBe('string');
+    });
+
+    it('POST /:dbId/redo — deletes the column again', async () => {
+        const res = await request(app).post(`${base()}/redo`);
+        expect(res.status).toBe(200);
+        expect(res.body.redone).toMatchObject({ op: 'delete_column' });
+
+        const columns = await request(app).get(`${base()}/table/crew/columns`);
+        expect(columns.body.map((c: any) => c.name)).not.toContain('role');
+
+        await request(app).post(`${base()}/undo`);
+    });
+
+    it('POST /:dbId/undo — reverts a type change to the original values', async () => {
+        await request(app).patch(`${base()}/table/crew/column/age`).send({ newName: 'rank', newType: 'string' });
+
+        const res = await request(app).post(`${base()}/undo`);
+        expect(res.status).toBe(200);
+
+        const row = await request(app).get(`${base()}/table/crew/row/${crewId}`);
+        expect(row.body.age).toBe(30);
+        expect(row.body).not.toHaveProperty('rank');
+    });
+
+    it('POST /:dbId/undo — brings back a deleted table and the references to it', async () => {
+        await request(app).delete(`${base()}/table/crew`);
+
+        const res = await request(app).post(`${base()}/undo`);
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ undone: { op: 'delete_table' }, restoredRefs: 1 });
+
+        const crew = await request(app).get(`${base()}/table/crew`);
+        expect(crew.body.rows.map((r: any) => r.title)).toEqual(['Ripley']);
+        const ships = await request(app).get(`${base()}/table/ships`);
+        expect(ships.body.rows[0].captain).toBe(crewId);
+    });
+
+    it('POST /:dbId/undo then /redo — reverts and replays a table rename', async () => {
+        await request(app).patch(`${base()}/table/crew`).send({ newName: 'crew_members' });
+
+        await request(app).post(`${base()}/undo`);
+        expect((await request(app).get(`${base()}/table/crew`)).status).toBe(200);
+
+        await request(app).post(`${base()}/redo`);
+        expect((await request(app).get(`${base()}/table/crew_members`)).status).toBe(200);
+    });
+
+    it('GET /:dbId/journal — lists operations newest first', async () => {
+        const res = await request(app).get(`${base()}/journal`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.canUndo).toBe(true);
+        expect(res.body.canRedo).toBe(false);
+        expect(res.body.entries[0]).toMatchObject({ op: 'rename_table', status: 'done' });
+        expect(res.body.entries[0]).not.toHaveProperty('payload');
+    });
+
+    it('POST /:dbId/redo — 409 when nothing was undone', async () => {
+        const res = await request(app).post(`${base()}/redo`);
+        expect(res.status).toBe(409);
+    });
+});
+
+describe('Trash', () => {
+    const base = () => `/api/database/${db2Id}`;
+    let ownerId = 0;
+
+    beforeAll(async () => {
+        await request(app).post(`${base()}/table`).send({ tableName: 'owners' });
+        await request(app).post(`${base()}/table`).send({ tableName: 'pets' });
+        await request(app).post(`${base()}/table/pets/column`).send({ name: 'owner', type: 'table_ref' });
+        await request(app).patch(`${base()}/table/pets/column/owner/tableref`).send({ targetTable: 'owners' });
+
+        const owner = await request(app).post(`${base()}/table/owners/row`).send({ title: 'Jonesy Owner' });
+        ownerId = owner.body.id;
+        await request(app).post(`${base()}/table/pets/row`).send({ title: 'Jonesy', owner: ownerId });
+    });
+
+    it('DELETE .../row/:rowId — moves the row to the table trash', async () => {
+        await request(app).delete(`${base()}/table/owners/row/${ownerId}`);
+
+        const res = await request(app).get(`${base()}/table/owners/trash`);
+        expect(res.status).toBe(200);
+        expect(res.body.rows).toHaveLength(1);
+        expect(res.body.rows[0]).toMatchObject({ rowId: ownerId, title: 'Jonesy Owner' });
+        expect(res.body.rows[0].refs).toEqual([{ table: 'pets', column: 'owner', rowId: 1 }]);
+
+        const pets = await request(app).get(`${base()}/table/pets`);
+        expect(pets.body.rows[0].owner).toBeNull();
+    });
+
+    it('POST .../trash/:trashId/restore — restores the row and the references to it', async () => {
+        const trash = await request(app).get(`${base()}/table/owners/trash`);
+        const res = await request(app).post(`${base()}/table/owners/trash/${trash.body.rows[0].trashId}/restore`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.row).toMatchObject({ id: ownerId, title: 'Jonesy Owner' });
+        expect(res.body.relinked).toBe(1);
+
+        const pets = await request(app).get(`${base()}/table/pets`);
+        expect(pets.body.rows[0].owner).toBe(ownerId);
+        const after = await request(app).get(`${base()}/table/owners/trash`);
+        expect(after.body.rows).toHaveLength(0);
+    });
+
+    it('POST .../trash/:trashId/restore — puts table_ref_many ids back in order', async () => {
+        await request(app).post(`${base()}/table`).send({ tableName: 'keepers' });
+        await request(app).post(`${base()}/table`).send({ tableName: 'enclosures' });
+        await request(app).post(`${base()}/table/enclosures/column`).send({ name: 'keepers', type: 'table_ref_many' });
+        await request(app).patch(`${base()}/table/enclosures/column/keepers/tableref`).send({ targetTable: 'keepers' });
+        const first = await request(app).post(`${base()}/table/keepers/row`).send({ title: 'Keeper 1' });
+        const second = await request(app).post(`${base()}/table/keepers/row`).send({ title: 'Keeper 2' });
+        const pen = await request(app).post(`${base()}/table/enclosures/row`)
+            .send({ title: 'Aviary', keepers: [first.body.id, second.body.id] });
+
+        await request(app).delete(`${base()}/table/keepers/row/${first.body.id}`);
+        const trash = await request(app).get(`${base()}/table/keepers/trash`);
+        await request(app).post(`${base()}/table/keepers/trash/${trash.body.rows[0].trashId}/restore`);
+
+        const aviary = await request(app).get(`${base()}/table/enclosures/row/${pen.body.id}`);
+        expect(JSON.parse(aviary.body.keepers)).toEqual([first.body.id, second.body.id]);
+    });
+
+    it('DELETE .../trash/:trashId — purges a trashed row', async () => {
+        const extra = await request(app).post(`${base()}/table/owners/row`).send({ title: 'Dallas' });
+        await request(app).delete(`${base()}/table/owners/row/${extra.body.id}`);
+        const trash = await request(app).get(`${base()}/table/owners/trash`);
+
+        const res = await request(app).delete(`${base()}/table/owners/trash/${trash.body.rows[0].trashId}`);
+        expect(res.status).toBe(204);
+
+        const missing = await request(app).post(`${base()}/table/owners/trash/${trash.body.rows[0].trashId}/restore`);
+        expect(missing.status).toBe(404);
+    });
+
+    it('DELETE .../table/:tableName — moves the table to the trash, restore brings it back', async () => {
+        await request(app).delete(`${base()}/table/pets`);
+
+        const trash = await request(app).get('/api/database/trash').query({ dbId: db2Id });
+        expect(trash.status).toBe(200);
+        const item = trash.body.items.find((i: any) => i.kind === 'table' && i.name === 'pets');
+        expect(item).toMatchObject({ dbId: db2Id, rowCount: 1 });
+
+        const res = await request(app).post(`/api/database/trash/${item.id}/restore`);
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ kind: 'table', table: 'pets', rows: 1 });
+
+        const pets = await request(app).get(`${base()}/table/pets`);
+        expect(pets.body.rows.map((r: any) => r.title)).toEqual(['Jonesy']);
+    });
+
+    it('DELETE /api/database/:dbId — moves the database to the trash, restore brings it back', async () => {
+        const created = await request(app).post('/api/database').send({ name: 'trash_me' });
+        const deleted = await request(app).delete(`/api/database/${created.body.id}`);
+        expect(deleted.body.trashId).toMatch(/^database_/);
+        expect((await request(app).get(`/api/database/${created.body.id}`)).status).toBe(404);
+
+        const res = await request(app).post(`/api/database/trash/${deleted.body.trashId}/restore`);
+        expect(res.status).toBe(200);
+        expect((await request(app).get(`/api/database/${created.body.id}`)).status).toBe(200);
+
+        const again = await request(app).delete(`/api/database/${created.body.id}`);
+        const purged = await request(app).delete(`/api/database/trash/${again.body.trashId}`);
+        expect(purged.status).toBe(204);
+    });
+
+    it('PUT /api/database/trash/settings — sets the auto-purge age', async () => {
+        const res = await request(app).put('/api/database/trash/settings').send({ autoPurgeDays: 0 });
+        expect(res.status).toBe(200);
+        expect(res.body.autoPurgeDays).toBe(0);
+
+        const bad = await request(app).put('/api/database/trash/settings').send({ autoPurgeDays: -1 });
+        expect(bad.status).toBe(400);
+
+        await request(app).put('/api/database/trash/settings').send({ autoPurgeDays: 30 });
+        const settings = await request(app).get('/api/database/trash/settings');
+        expect(settings.body).toEqual({ autoPurgeDays: 30 });
+    });
+});
+
+describe('Full-text search', () => {
+    const base = () => `/api/database/${db2Id}/table/notes`;
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'notes' });
+        await request(app).post(`${base()}/column`).send({ name: 'author', type: 'string' });
+        await request(app).post(`${base()}/row`).send({ title: 'Spice harvest', content: '<p>The <b>spice</b> must flow</p>', author: 'Herbert' });
+        await request(app).post(`${base()}/row`).send({ title: 'Spice, spice, spice', content: '<p>Spice everywhere</p>' });
+        await request(app).post(`${base()}/row`).send({ title: 'Sandworms', content: '<p>Shai-Hulud</p>', author: 'Herbert' });
+    });
+
+    it('GET ...?mode=fulltext — fails while the index is disabled', async () => {
+        const res = await request(app).get(base()).query({ q: 'spice', mode: 'fulltext' });
+        expect(res.status).toBe(500);
+        expect(res.body.detail).toContain('not enabled');
+    });
+
+    it('PATCH .../fulltext — builds the index', async () => {
+        const res = await request(app).patch(`${base()}/fulltext`).send({ enabled: true });
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ fullText: true, indexedRows: 3 });
+        expect(res.body.columns).toEqual(['title', 'content', 'author']);
+
+        const bad = await request(app).patch(`${base()}/fulltext`).send({ enabled: 'yes' });
+        expect(bad.status).toBe(400);
+    });
+
+    it('GET ...?mode=fulltext — searches content text and ranks by relevance', async () => {
+        const res = await request(app).get(base()).query({ q: 'spice', mode: 'fulltext', s: 'relevance' });
+        expect(res.status).toBe(200);
+        expect(res.body.filteredRows).toBe(2);
+        expect(res.body.rows[0].title).toBe('Spice, spice, spice');
+        expect(res.body.highlights[res.body.rows[1].id].content).toContain('<mark>spice</mark>');
+
+        const field = await request(app).get(base()).query({ q: 'author:herbert -sandworms', mode: 'fulltext' });
+        expect(field.body.rows.map((r: any) => r.title)).toEqual(['Spice harvest']);
+    });
+
+    it('GET ...?mode=fulltext — stays in sync with row patches and deletes', async () => {
+        const list = await request(app).get(base()).query({ q: 'shai*', mode: 'fulltext' });
+        const wormId = list.body.rows[0].id;
+
+        await request(app).patch(`${base()}/row/${wormId}`).send({ content: '<p>Arrakis</p>' });
+        const patched = await request(app).get(base()).query({ q: 'arrakis', mode: 'fulltext' });
+        expect(patched.body.rows.map((r: any) => r.id)).toEqual([wormId]);
+
+        await request(app).delete(`${base()}/row/${wormId}`);
+        const deleted = await request(app).get(base()).query({ q: 'arrakis', mode: 'fulltext' });
+        expect(deleted.body.rows).toHaveLength(0);
+    });
+
+    it('GET ...?mode=fulltext — picks up new columns', async () => {
+        await request(app).post(`${base()}/column`).send({ name: 'planet', type: 'string' });
+        const row = await request(app).post(`${base()}/row`).send({ title: 'Desert', planet: 'Caladan' });
+
+        const res = await request(app).get(base()).query({ q: 'planet:caladan', mode: 'fulltext' });
+        expect(res.body.rows.map((r: any) => r.id)).toEqual([row.body.id]);
+    });
+});
+
+describe('Global search', () => {
+    const find = (body: any, id: string) => body.databases.find((d: any) => d.dbId === id);
+
+    it('GET /api/search — groups hits by database and table', async () => {
+        const res = await request(app).get('/api/search').query({ q: 'spice' });
+        expect(res.status).toBe(200);
+
+        const notes = find(res.body, db2Id).tables.find((t: any) => t.table === 'notes');
+        expect(notes.totalHits).toBe(2);
+        expect(notes.hits[0]).toMatchObject({ title: expect.stringContaining('Spice'), field: 'title' });
+    });
+
+    it('GET /api/search?dbId= — names the matched field and caps hits per table', async () => {
+        const field = await request(app).get('/api/search').query({ q: 'author:herbert', dbId: db2Id });
+        expect(field.body.databases).toHaveLength(1);
+        expect(field.body.databases[0].tables[0].hits[0]).toMatchObject({ title: 'Spice harvest', field: 'author' });
+
+        const capped = await request(app).get('/api/search').query({ q: 'spice', dbId: db2Id, limit: 1 });
+        expect(capped.body.databases[0].tables[0]).toMatchObject({ totalHits: 2 });
+        expect(capped.body.databases[0].tables[0].hits).toHaveLength(1);
+    });
+
+    it('GET /api/search — skips hidden tables unless includeHidden=true', async () => {
+        await request(app).patch(`/api/database/${db2Id}/table/notes/visibility`).send({ hidden: true });
+
+        const res = await request(app).get('/api/search').query({ q: 'spice', dbId: db2Id });
+        expect(res.body.databases).toHaveLength(0);
+        const all = await request(app).get('/api/search').query({ q: 'spice', dbId: db2Id, includeHidden: 'true' });
+        expect(all.body.totalHits).toBe(2);
+
+        await request(app).patch(`/api/database/${db2Id}/table/notes/visibility`).send({ hidden: false });
+    });
+
+    it('GET /api/search — 400 without q, 404 for an unknown database', async () => {
+        expect((await request(app).get('/api/search')).status).toBe(400);
+        expect((await request(app).get('/api/search').query({ q: 'x', dbId: 'nope' })).status).toBe(404);
+    });
+});
+
+describe('Date search', () => {
+    const base = () => `/api/database/${db2Id}/table/events`;
+    const lastYear = new Date().getUTCFullYear() - 1;
+    const titles = (res: any) => res.body.rows.map((r: any) => r.title).sort();
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'events' });
+        await request(app).post(`${base()}/column`).send({ name: 'due', type: 'date' });
+        await request(app).post(`${base()}/row`).send({ title: 'Now', due: Date.now() });
+        await request(app).post(`${base()}/row`).send({ title: 'Recent', due: Date.now() - 3 * 86_400_000 });
+        await request(app).post(`${base()}/row`).send({ title: 'Old', due: Date.UTC(lastYear, 5, 15, 12) });
+        await request(app).post(`${base()}/row`).send({ title: 'Late', due: Date.UTC(2024, 0, 1, 23, 30) });
+    });
+
+    it('GET ...?q=due:[a TO b] — inclusive and exclusive ranges', async () => {
+        const inclusive = await request(app).get(base()).query({ q: `due:[${lastYear}-06-15 TO ${lastYear}-06-30]`, tz: 'UTC' });
+        expect(titles(inclusive)).toEqual(['Old']);
+
+        const exclusive = await request(app).get(base()).query({ q: `due:{${lastYear}-06-15 TO *}`, tz: 'UTC' });
+        expect(titles(exclusive)).toEqual(['Now', 'Recent']);
+    });
+
+    it('GET ...?q=due:today — relative dates', async () => {
+        expect(titles(await request(app).get(base()).query({ q: 'due:today', tz: 'UTC' }))).toEqual(['Now']);
+        expect(titles(await request(app).get(base()).query({ q: 'due:-7d', tz: 'UTC' }))).toEqual(['Now', 'Recent']);
+        expect(titles(await request(app).get(base()).query({ q: 'due:[-7d TO today]', tz: 'UTC' }))).toEqual(['Now', 'Recent']);
+        expect(titles(await request(app).get(base()).query({ q: 'due:last_year', tz: 'UTC' }))).toEqual(['Old']);
+        expect(titles(await request(app).get(base()).query({ q: 'due:<this_year', tz: 'UTC' }))).toEqual(['Late', 'Old']);
+    });
+
+    it('GET ...?tz= — day boundaries follow the timezone', async () => {
+        const utc = await request(app).get(base()).query({ q: 'due:2024-01-02', tz: 'UTC' });
+        expect(titles(utc)).toEqual([]);
+        const tokyo = await request(app).get(base()).query({ q: 'due:2024-01-02', tz: 'Asia/Tokyo' });
+        expect(titles(tokyo)).toEqual(['Late']);
+
+        const bad = await request(app).get(base()).query({ q: 'due:today', tz: 'Mars/Olympus' });
+        expect(bad.status).toBe(400);
+    });
+});
+
+describe('Tag search', () => {
+    const base = () => `/api/database/${db2Id}/table/pieces`;
+    const search = async (q: string) =>
+        (await request(app).get(base()).query({ q })).body.rows.map((r: any) => r.title).sort();
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'pieces' });
+        await request(app).post(`${base()}/column`).send({ name: 'kind', type: 'single_tag' });
+        await request(app).post(`${base()}/column`).send({ name: 'tags', type: 'multi_tag' });
+        for (const name of ['art', 'artifact']) {
+            await request(app).post(`${base()}/column/kind/tag`).send({ name });
+        }
+        for (const name of ['art', 'artifact', 'old', 'sci_fi']) {
+            await request(app).post(`${base()}/column/tags/tag`).send({ name });
+        }
+        await request(app).post(`${base()}/row`).send({ title: 'Vase', kind: 'artifact', tags: 'artifact old' });
+        await request(app).post(`${base()}/row`).send({ title: 'Mural', kind: 'art', tags: 'art sci_fi' });
+        await request(app).post(`${base()}/row`).send({ title: 'Plain', tags: '' });
+    });
+
+    it('GET ...?q=kind:art — matches whole tags only', async () => {
+        expect(await search('kind:art')).toEqual(['Mural']);
+        expect(await search('tags:art')).toEqual(['Mural']);
+        expect(await search('tags:"Sci Fi"')).toEqual(['Mural']);
+        expect(await search('tags:art*')).toEqual(['Mural', 'Vase']);
+    });
+
+    it('GET ...?q=tags:(a AND b) — all-of and any-of', async () => {
+        expect(await search('tags:(artifact AND old)')).toEqual(['Vase']);
+        expect(await search('tags:(art AND old)')).toEqual([]);
+        expect(await search('tags:(art OR old)')).toEqual(['Mural', 'Vase']);
+        expect(await search('!tags:(art OR old)')).toEqual(['Plain']);
+    });
+
+    it('GET ...?q=tags:* — has any / has none', async () => {
+        expect(await search('tags:*')).toEqual(['Mural', 'Vase']);
+        expect(await search('-tags:*')).toEqual(['Plain']);
+        expect(await search('-kind:*')).toEqual(['Plain']);
+    });
+});
+
+describe('Exists / missing search', () => {
+    const base = () => `/api/database/${db2Id}/table/gaps`;
+    const search = async (q: string) =>
+        (await request(app).get(base()).query({ q })).body.rows.map((r: any) => r.title).sort();
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'gaps' });
+        await request(app).post(`${base()}/column`).send({ name: 'note', type: 'string' });
+        await request(app).post(`${base()}/column`).send({ name: 'due', type: 'date' });
+        await request(app).post(`${base()}/column`).send({ name: 'refs', type: 'table_ref_many' });
+        await request(app).patch(`${base()}/column/refs/tableref`).send({ targetTable: 'gaps' });
+
+        await request(app).post(`${base()}/row`).send({ title: 'Full', note: 'x', due: Date.now(), content: '<p>hi</p>' });
+        await request(app).post(`${base()}/row`).send({ title: 'Empty', note: '', content: '<p></p>' });
+        await request(app).patch(`${base()}/row/1`).send({ refs: [2] });
+    });
+
+    it('GET ...?q=_exists_:col — rows with a value, by column type', async () => {
+        for (const col of ['note', 'due', 'refs', 'content']) {
+            expect(await search(`_exists_:${col}`)).toEqual(['Full']);
+        }
+    });
+
+    it('GET ...?q=_missing_:col — rows without one; col:"" is the same', async () => {
+        for (const col of ['note', 'due', 'refs', 'content']) {
+            expect(await search(`_missing_:${col}`)).toEqual(['Empty']);
+            expect(await search(`${col}:""`)).toEqual(['Empty']);
+        }
+        expect(await search('-_exists_:note')).toEqual(['Empty']);
+        expect(await search('_missing_:nope')).toEqual(['Empty', 'Full']);
+    });
+});
+
+describe('Query explain / strict mode', () => {
+    const base = () => `/api/database/${db2Id}/table/pieces`;
+
+    it('GET .../query/explain — shows the tree, columns, SQL and warnings', async () => {
+        const res = await request(app).get(`${base()}/query/explain`).query({ q: 'kind:art AND bogus:x' });
+        expect(res.status).toBe(200);
+        expect(res.body.tree.operator).toBe('AND');
+        expect(res.body.fields).toEqual([
+            { field: 'kind', column: 'kind', type: 'single_tag' },
+            { field: 'bogus', column: 'title', type: 'string' },
+        ]);
+        expect(res.body.sql).toContain('WHERE');
+        expect(res.body.params).toEqual(['art', '%x%']);
+        expect(res.body.warnings).toEqual(["Unknown field 'bogus'; searching title instead"]);
+    });
+
+    it('GET .../query/explain — reports ignored operators and parse fallbacks', async () => {
+        const ignored = await request(app).get(`${base()}/query/explain`).query({ q: 'vase^2 +mural' });
+        expect(ignored.body.warnings).toHaveLength(2);
+        expect(ignored.body.warnings[0]).toContain('Boost');
+
+        const broken = await request(app).get(`${base()}/query/explain`).query({ q: 'title:(vase' });
+        expect(broken.body.fallback).toBe(true);
+        expect(broken.body.warnings[0]).toContain('could not be parsed');
+
+        const missing = await request(app).get(`/api/database/${db2Id}/table/nope/query/explain`).query({ q: 'x' });
+        expect(missing.status).toBe(404);
+    });
+
+    it('GET ...?strict=true — 400 instead of guessing', async () => {
+        const loose = await request(app).get(base()).query({ q: 'bogus:x' });
+        expect(loose.status).toBe(200);
+
+        const strict = await request(app).get(base()).query({ q: 'bogus:x', strict: 'true' });
+        expect(strict.status).toBe(400);
+        expect(strict.body.error).toContain("Unknown field 'bogus'");
+
+        const fine = await request(app).get(base()).query({ q: 'tags:art* NOT kind:artifact', strict: 'true' });
+        expect(fine.body.rows.map((r: any) => r.title)).toEqual(['Mural']);
+    });
+
+    // Open SQLite handles show up as file descriptors on the database's files
+    it.skipIf(!fs.existsSync('/proc/self/fd'))('GET ...?strict=true — rejected queries leave no connection open', async () => {
+        const created = await request(app).post('/api/database').send({ name: 'strict_leak' });
+        const id = created.body.id;
+        await request(app).post(`/api/database/${id}/table`).send({ tableName: 'items' });
+
+        for (let i = 0; i < 5; i++) {
+            const strict = await request(app).get(`/api/database/${id}/table/items`).query({ q: 'bogus:x', strict: 'true' });
+            expect(strict.status).toBe(400);
+            const fulltext = await request(app).get(`/api/database/${id}/table/items`).query({ q: 'x', mode: 'fulltext' });
+            expect(fulltext.body.detail).toContain("Full-text search is not enabled");
+        }
+
+        const openFiles = fs.readdirSync('/proc/self/fd').map(fd => {
+            try {
+                return fs.readlinkSync(`/proc/self/fd/${fd}`);
+            } catch {
+                return '';
+            }
+        });
+        expect(openFiles.filter(file => file.includes(id))).toEqual([]);
+
+        const deleted = await request(app).delete(`/api/database/${id}`);
+        expect(deleted.status).toBe(200);
+        await request(app).delete(`/api/database/trash/${deleted.body.trashId}`);
+    });
+});
+
+describe('Sorting', () => {
+    const base = () => `/api/database/${db2Id}/table/shelf`;
+    const sorted = async (s: string) =>
+        (await request(app).get(base()).query({ s })).body.rows.map((r: any) => r.title);
+    const link = (displayName: string) => JSON.stringify({ displayName, url: 'https://example.com' });
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'shelf' });
+        await request(app).post(`${base()}/column`).send({ name: 'rating', type: 'integer' });
+        await request(app).post(`${base()}/column`).send({ name: 'site', type: 'link' });
+        await request(app).post(`${base()}/column`).send({ name: 'grade', type: 'single_tag' });
+        await request(app).post(`${base()}/column`).send({ name: 'owner', type: 'table_ref' });
+        await request(app).patch(`${base()}/column/owner/tableref`).send({ targetTable: 'pieces' });
+        await request(app).patch(`${base()}/column/owner/visualization`).send({ visualization: 'title' });
+        for (const name of ['high', 'low']) {
+            await request(app).post(`${base()}/column/grade/tag`).send({ name });
+        }
+
+        const pieces = (await request(app).get(`/api/database/${db2Id}/table/pieces`)).body.rows;
+        const id = (title: string) => pieces.find((r: any) => r.title === title).id;
+
+        await request(app).post(`${base()}/row`).send({ title: 'A', rating: 2, site: link('Zulu'), grade: 'low', owner: id('Vase') });
+        await request(app).post(`${base()}/row`).send({ title: 'B', rating: 5, site: link('alpha'), grade: 'high', owner: id('Mural') });
+        await request(app).post(`${base()}/row`).send({ title: 'C', rating: 2, site: link('Mike') });
+    });
+
+    it('GET ...?s=a:desc,b:asc — sorts by several keys', async () => {
+        expect(await sorted('rating:desc,title:asc')).toEqual(['B', 'A', 'C']);
+        expect(await sorted('rating:asc,title:desc')).toEqual(['C', 'A', 'B']);
+    });
+
+    it('GET ...?s=col:asc:nullslast — places empty values explicitly', async () => {
+        expect(await sorted('owner:asc:nullsfirst')).toEqual(['C', 'B', 'A']);
+        expect(await sorted('owner:asc:nullslast')).toEqual(['B', 'A', 'C']);
+    });
+
+    it('GET ...?s= — sorts links, references and tags by what they show', async () => {
+        expect(await sorted('site:asc')).toEqual(['B', 'C', 'A']);
+        expect(await sorted('owner:desc:nullslast')).toEqual(['A', 'B', 'C']);
+        expect(await sorted('grade:asc:nullslast')).toEqual(['B', 'A', 'C']);
+    });
+
+    it('GET ...?s= — sorts a reference to the same table by the referenced row', async () => {
+        const staff = `/api/database/${db2Id}/table/staff`;
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'staff' });
+        await request(app).post(`${staff}/column`).send({ name: 'manager', type: 'table_ref' });
+        // The API refuses self-references, but an imported archive can still hold one
+        const { metaPath } = getDbPaths(db2Id);
+        const meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+        Object.assign(meta.tables.staff.columns.manager, { linkedTable: 'staff', visualization: 'title' });
+        fs.writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+
+        const boss = (await request(app).post(`${staff}/row`).send({ title: 'Zoe' })).body.id;
+        const lead = (await request(app).post(`${staff}/row`).send({ title: 'Amy', manager: boss })).body.id;
+        await request(app).post(`${staff}/row`).send({ title: 'Bob', manager: lead });
+
+        const res = await request(app).get(staff).query({ s: 'manager:asc:nullslast' });
+        expect(res.body.rows.map((r: any) => r.title)).toEqual(['Bob', 'Amy', 'Zoe']);
+    });
+});
+
+describe('Cursor pagination', () => {
+    const base = () => `/api/database/${db2Id}/table/shelf`;
+
+    // Follows nextCursor to the end, one row per page
+    const walk = async (query: Record<string, string>) => {
+        const titles: string[] = [];
+        let cursor: string | undefined;
+        do {
+            const res = await request(app).get(base()).query({ ...query, limit: '1', ...(cursor && { cursor }) });
+            expect(res.status).toBe(200);
+            titles.push(...res.body.rows.map((r: any) => r.title));
+            cursor = res.body.nextCursor ?? undefined;
+        } while (cursor);
+        return titles;
+    };
+
+    it('GET ...?limit=&cursor= — pages through every row once, in sort order', async () => {
+        expect(await walk({ s: 'rating:desc,title:asc' })).toEqual(['B', 'A', 'C']);
+        expect(await walk({ s: 'owner:asc:nullsfirst' })).toEqual(['C', 'B', 'A']);
+        expect(await walk({ s: 'owner:asc:nullslast' })).toEqual(['B', 'A', 'C']);
+        expect((await walk({})).sort()).toEqual(['A', 'B', 'C']);
+    });
+
+    it('GET ...?cursor= — later pages are unaffected by rows added before them', async () => {
+        const first = await request(app).get(base()).query({ s: 'title:asc', limit: '2' });
+        expect(first.body.rows.map((r: any) => r.title)).toEqual(['A', 'B']);
+
+        await request(app).post(`${base()}/row`).send({ title: 'AA' });
+        const next = await request(app).get(base()).query({ s: 'title:asc', limit: '2', cursor: first.body.nextCursor });
+        expect(next.body.rows.map((r: any) => r.title)).toEqual(['C']);
+        expect(next.body.nextCursor).toBeNull();
+    });
+
+    it('GET ...?count= — counts exactly by default, or not at all', async () => {
+        const exact = await request(app).get(base()).query({ q: 'rating:2', limit: '1' });
+        expect(exact.body).toMatchObject({ count: 'exact', totalRows: 4, filteredRows: 2 });
+
+        const estimate = await request(app).get(base()).query({ q: 'rating:2', count: 'estimate' });
+        expect(estimate.body).toMatchObject({ count: 'estimate', totalRows: 4, filteredRows: 2 });
+
+        const none = await request(app).get(base()).query({ count: 'none' });
+        expect(none.body).toMatchObject({ count: 'none', totalRows: null, filteredRows: null });
+        expect(none.body.rows).toHaveLength(4);
+    });
+
+    it('GET ...?cursor= — 400 on a foreign, stale or misused cursor', async () => {
+        const page = await request(app).get(base()).query({ s: 'title:asc', limit: '1' });
+
+        expect((await request(app).get(base()).query({ cursor: 'garbage' })).status).toBe(400);
+        expect((await request(app).get(base()).query({ s: 'title:desc', cursor: page.body.nextCursor })).status).toBe(400);
+        expect((await request(app).get(base()).query({ s: 'rand', cursor: page.body.nextCursor })).status).toBe(400);
+        expect((await request(app).get(base()).query({ offset: '1', cursor: page.body.nextCursor })).status).toBe(400);
+        expect((await request(app).get(base()).query({ count: 'some' })).status).toBe(400);
+    });
+});
+
+describe('Aggregation', () => {
+    const base = () => `/api/database/${db2Id}/table/ledger`;
+    const aggregate = (query: Record<string, string>) => request(app).get(`${base()}/aggregate`).query(query);
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'ledger' });
+        await request(app).post(`${base()}/column`).send({ name: 'amount', type: 'float' });
+        await request(app).post(`${base()}/column`).send({ name: 'stars', type: 'rating' });
+        await request(app).post(`${base()}/column`).send({ name: 'topics', type: 'multi_tag' });
+        await request(app).post(`${base()}/column`).send({ name: 'sold', type: 'date' });
+        for (const name of ['red', 'blue']) {
+            await request(app).post(`${base()}/column/topics/tag`).send({ name });
+        }
+
+        await request(app).post(`${base()}/row`).send({ title: 'one', amount: 10, stars: 4, topics: 'blue red', sold: Date.UTC(2024, 2, 4, 12) });
+        await request(app).post(`${base()}/row`).send({ title: 'two', amount: 5, stars: 2, topics: 'red', sold: Date.UTC(2024, 2, 10, 12) });
+        await request(app).post(`${base()}/row`).send({ title: 'three', amount: 1, topics: '', sold: Date.UTC(2024, 3, 2, 12) });
+    });
+
+    it('GET .../aggregate — computes metrics over all matching rows', async () => {
+        const res = await aggregate({ metrics: 'count,sum:amount,avg:stars,max:stars,distinct:topics' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.groupBy).toBeNull();
+        expect(res.body.totals).toEqual({ count: 3, 'sum:amount': 16, 'avg:stars': 3, 'max:stars': 4, 'distinct:topics': 2 });
+
+        const filtered = await aggregate({ q: 'topics:red' });
+        expect(filtered.body.totals).toEqual({ count: 2 });
+    });
+
+    it('GET .../aggregate?groupBy=<multi_tag> — counts a row once per tag', async () => {
+        const res = await aggregate({ groupBy: 'topics', metrics: 'count,sum:amount' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.groups).toEqual([
+            { key: 'red', metrics: { count: 2, 'sum:amount': 15 } },
+            { key: 'blue', metrics: { count: 1, 'sum:amount': 10 } },
+            { key: null, metrics: { count: 1, 'sum:amount': 1 } },
+        ]);
+    });
+
+    it('GET .../aggregate?groupBy=<date>:week — buckets dates in the given timezone', async () => {
+        const weeks = await aggregate({ groupBy: 'sold:week', tz: 'UTC' });
+        expect(weeks.body.groupBy).toEqual({ column: 'sold', type: 'date', bucket: 'week' });
+        expect(weeks.body.groups.map((g: any) => [g.key, g.metrics.count])).toEqual([['2024-03-04', 2], ['2024-04-01', 1]]);
+
+        const months = await aggregate({ groupBy: 'sold:month', tz: 'UTC' });
+        expect(months.body.groups.map((g: any) => g.key)).toEqual(['2024-03', '2024-04']);
+
+        // 12:00 UTC on March 4th is already March 5th in Auckland
+        const days = await aggregate({ groupBy: 'sold', tz: 'Pacific/Auckland' });
+        expect(days.body.groups[0].key).toBe('2024-03-05');
+    });
+
+    it('GET ...?facets= — returns value counts of the filtered rows, zero counts included', async () => {
+        const res = await request(app).get(base()).query({ q: 'amount:[5 TO *]', facets: 'topics,stars,hidden' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.rows).toHaveLength(2);
+        expect(res.body.facets.topics).toEqual({ red: 2, blue: 1 });
+        expect(res.body.facets.stars).toEqual({ 0: 0, 1: 0, 2: 1, 3: 0, 4: 1, 5: 0 });
+        expect(res.body.facets.hidden).toEqual({ false: 2, true: 0 });
+
+        const none = await request(app).get(base()).query({ q: 'title:nothing', facets: 'topics' });
+        expect(none.body.facets.topics).toEqual({ red: 0, blue: 0 });
+
+        expect((await request(app).get(base()).query({ facets: 'nope' })).status).toBe(400);
+    });
+
+    it('GET .../aggregate — 400 on invalid metrics or groupBy, 404 on unknown table', async () => {
+        expect((await aggregate({ metrics: 'sum:title' })).status).toBe(400);
+        expect((await aggregate({ metrics: 'median:amount' })).status).toBe(400);
+        expect((await aggregate({ groupBy: 'topics:month' })).status).toBe(400);
+        expect((await aggregate({ groupBy: 'nope' })).status).toBe(400);
+        expect((await aggregate({ q: 'bogus:x', strict: 'true' })).status).toBe(400);
+        expect((await request(app).get(`/api/database/${db2Id}/table/nope/aggregate`)).status).toBe(404);
+    });
+});
+
+describe('Saved views', () => {
+    const base = () => `/api/database/${db2Id}/table/ledger`;
+    const views = () => `${base()}/views`;
+
+    beforeAll(async () => {
+        await request(app).post(`${base()}/column`).send({ name: 'memo', type: 'string' });
+    });
+
+    it('POST/GET/PATCH/DELETE .../views — manages saved views', async () => {
+        const created = await request(app).post(views()).send({
+            name: 'big',
+            q: 'amount:[5 TO *] AND _exists_:amount',
+            s: 'amount:asc',
+            columns: { stars: { hidden: true, index: 1 }, memo: { hidden: true } },
+            pageSize: 1,
+        });
+        expect(created.status).toBe(201);
+        expect(created.body).toMatchObject({ name: 'big', s: 'amount:asc', pageSize: 1 });
+
+        expect((await request(app).post(views()).send({ name: 'big' })).status).toBe(409);
+        expect((await request(app).post(views()).send({ name: 'bad', columns: { nope: { hidden: true } } })).status).toBe(400);
+        expect((await request(app).post(views()).send({ name: 'bad', pageSize: 0 })).status).toBe(400);
+
+        await request(app).post(views()).send({ name: 'tmp', q: 'x' });
+        const renamed = await request(app).patch(`${views()}/tmp`).send({ name: 'scratch', q: null, s: 'title:asc' });
+        expect(renamed.status).toBe(200);
+        expect(renamed.body).toMatchObject({ name: 'scratch', s: 'title:asc' });
+        expect(renamed.body).not.toHaveProperty('q');
+
+        const list = await request(app).get(views());
+        expect(list.body.map((v: any) => v.name)).toEqual(['big', 'scratch']);
+
+        expect((await request(app).delete(`${views()}/scratch`)).status).toBe(200);
+        expect((await request(app).get(`${views()}/scratch`)).status).toBe(404);
+    });
+
+    it('GET ...?view= — applies the view\'s filter, sort, page size and columns', async () => {
+        const res = await request(app).get(base()).query({ view: 'big' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.view).toBe('big');
+        expect(res.body.rows.map((r: any) => r.title)).toEqual(['two']);
+        expect(res.body.filteredRows).toBe(2);
+        expect(res.body.nextCursor).not.toBeNull();
+        expect(res.body.columns.find((c: any) => c.name === 'stars')).toMatchObject({ hidden: true, index: 1 });
+
+        // Explicit parameters win over the view's
+        const sorted = await request(app).get(base()).query({ view: 'big', s: 'amount:desc', limit: '5' });
+        expect(sorted.body.rows.map((r: any) => r.title)).toEqual(['one', 'two']);
+
+        expect((await request(app).get(base()).query({ view: 'nope' })).status).toBe(400);
+    });
+
+    it('column renames and deletes — rewrite the views that refer to the column', async () => {
+        await request(app).patch(`${base()}/column/amount`).send({ newName: 'price' });
+        const renamed = await request(app).get(`${views()}/big`);
+        expect(renamed.body).toMatchObject({ q: 'price:[5 TO *] AND _exists_:price', s: 'price:asc' });
+        expect((await request(app).get(base()).query({ view: 'big' })).body.rows.map((r: any) => r.title)).toEqual(['two']);
+
+        await request(app).delete(`${base()}/column/memo`);
+        const afterDelete = await request(app).get(`${views()}/big`);
+        expect(afterDelete.body.columns).toEqual({ stars: { hidden: true, index: 1 } });
+    });
+
+    it('column deletes — mark views filtering on the column broken, and undo puts them back', async () => {
+        await request(app).post(`${base()}/column`).send({ name: 'flag', type: 'string' });
+        await request(app).post(views()).send({
+            name: 'flagged', q: 'flag:yes', s: 'flag:desc,title:asc', columns: { flag: { hidden: true } },
+        });
+
+        await request(app).delete(`${base()}/column/flag`);
+        const broken = await request(app).get(`${views()}/flagged`);
+        expect(broken.body).toMatchObject({ s: 'title:asc', qError: "filters on deleted column 'flag'" });
+        expect(broken.body.columns).toEqual({});
+        const applied = await request(app).get(base()).query({ view: 'flagged' });
+        expect(applied.status).toBe(400);
+        expect(applied.body.error).toContain("deleted column 'flag'");
+
+        expect((await request(app).post(`/api/database/${db2Id}/undo`)).status).toBe(200);
+        const restored = await request(app).get(`${views()}/flagged`);
+        expect(restored.body).toMatchObject({ q: 'flag:yes', s: 'flag:desc,title:asc', columns: { flag: { hidden: true } } });
+        expect(restored.body).not.toHaveProperty('qError');
+        expect((await request(app).get(base()).query({ view: 'flagged' })).status).toBe(200);
+
+        // A new q repairs a broken view
+        await request(app).delete(`${base()}/column/flag`);
+        const repaired = await request(app).patch(`${views()}/flagged`).send({ q: 'title:one' });
+        expect(repaired.body).not.toHaveProperty('qError');
+        expect((await request(app).get(base()).query({ view: 'flagged' })).status).toBe(200);
+        await request(app).delete(`${views()}/flagged`);
+    });
+
+    it('copyTable and renameTable — keep the views', async () => {
+        await request(app).post(`/api/database/${db2Id}/table/ledger/copy`).send({ newTableName: 'ledger_copy' });
+        await request(app).patch(`/api/database/${db2Id}/table/ledger_copy`).send({ newName: 'ledger_archive' });
+
+        const copied = await request(app).get(`/api/database/${db2Id}/table/ledger_archive/views/big`);
+        expect(copied.status).toBe(200);
+        expect(copied.body.s).toBe('price:asc');
+    });
+});
+
+describe('Column defaults', () => {
+    const base = () => `/api/database/${db2Id}/table/tickets`;
+    const rowsByTitle = async () => Object.fromEntries(
+        (await request(app).get(base())).body.rows.map((r: any) => [r.title, r])
+    );
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'tickets' });
+        await request(app).post(`${base()}/row`).send({ title: 'old1' });
+        await request(app).post(`${base()}/row`).send({ title: 'old2' });
+    });
+
+    it('POST .../column with default + backfill — fills existing rows', async () => {
+        const seq = await request(app).post(`${base()}/column`)
+            .send({ name: 'seq', type: 'integer', default: { dynamic: 'counter' }, backfill: true });
+        expect(seq.status).toBe(201);
+        expect(seq.body).toMatchObject({ default: { dynamic: 'counter' }, backfilled: 2 });
+
+        await request(app).post(`${base()}/column`).send({ name: 'note', type: 'string', default: 'n/a', backfill: true });
+        await request(app).post(`${base()}/column`).send({ name: 'opened', type: 'date', default: { dynamic: 'now' } });
+
+        const rows = await rowsByTitle();
+        expect([rows.old1.seq, rows.old2.seq]).toEqual([1, 2]);
+        expect(rows.old1.note).toBe('n/a');
+        expect(rows.old1.opened).toBeNull();
+    });
+
+    it('PATCH .../column/:columnName/default — validates defaults against the column', async () => {
+        await request(app).post(`${base()}/column`).send({ name: 'status', type: 'single_tag' });
+        for (const name of ['open', 'closed']) {
+            await request(app).post(`${base()}/column/status/tag`).send({ name });
+        }
+
+        const set = await request(app).patch(`${base()}/column/status/default`).send({ default: { dynamic: 'first_tag' } });
+        expect(set.status).toBe(200);
+        expect(set.body.default).toEqual({ dynamic: 'first_tag' });
+
+        expect((await request(app).patch(`${base()}/column/seq/default`).send({ default: 'abc' })).status).toBe(400);
+        expect((await request(app).patch(`${base()}/column/status/default`).send({ default: 'pending' })).status).toBe(400);
+        expect((await request(app).patch(`${base()}/column/status/default`).send({ default: { dynamic: 'now' } })).status).toBe(400);
+        expect((await request(app).patch(`${base()}/column/title/default`).send({ default: 'x' })).status).toBe(400);
+
+        const created = await request(app).post(`${base()}/column`).send({ name: 'size', type: 'integer', default: 'big' });
+        expect(created.status).toBe(400);
+        expect(created.body.error).toMatch(/^Invalid default: /);
+        expect((await request(app).get(`${base()}/column/size`)).status).not.toBe(200);
+    });
+
+    it('POST .../row — fills the columns it leaves out with their defaults', async () => {
+        const before = Date.now();
+        const created = await request(app).post(`${base()}/row`).send({ title: 'new' });
+        expect(created.status).toBe(201);
+        expect(created.body).toMatchObject({ seq: 3, note: 'n/a', status: 'open' });
+        expect(created.body.opened).toBeGreaterThanOrEqual(before);
+
+        const explicit = await request(app).post(`${base()}/row`).send({ title: 'explicit', seq: 10, note: null });
+        expect(explicit.body).toMatchObject({ seq: 10, note: null });
+        expect((await request(app).post(`${base()}/row`).send({ title: 'next' })).body.seq).toBe(11);
+    });
+
+    it('POST .../row/copy — gives unmapped target columns their defaults', async () => {
+        const res = await request(app).post(`/api/database/${db2Id}/table/ledger/row/copy`).send({
+            targetTableName: 'tickets',
+            rowIds: 'all',
+            columnMapping: [{ sourceColumn: 'title', targetColumn: 'title' }, { sourceColumn: '', targetColumn: 'status' }],
+        });
+        expect(res.body.copied).toBe(3);
+
+        const rows = await rowsByTitle();
+        expect([rows.one.seq, rows.two.seq, rows.three.seq].sort()).toEqual([12, 13, 14]);
+        expect(rows.one).toMatchObject({ status: 'open', note: 'n/a' });
+    });
+});
+
+describe('Formula columns', () => {
+    const base = () => `/api/database/${db2Id}/table/calc`;
+    const rowsByTitle = async (query = '') => Object.fromEntries(
+        (await request(app).get(`${base()}${query}`)).body.rows.map((r: any) => [r.title, r])
+    );
+    const column = async (name: string) =>
+        (await request(app).get(`${base()}/columns`)).body.find((c: any) => c.name === name);
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'calc' });
+        await request(app).post(`${base()}/column`).send({ name: 'points', type: 'integer' });
+        await request(app).post(`${base()}/column`).send({ name: 'done', type: 'boolean' });
+        await request(app).post(`${base()}/column`).send({ name: 'label', type: 'string' });
+        const tenDaysAgo = Date.now() - 10 * 86400000 - 60000;
+        await request(app).post(`${base()}/row`).send({ title: 'A', points: 3, done: 1, label: 'x', date_created: tenDaysAgo });
+        await request(app).post(`${base()}/row`).send({ title: 'B', points: 10, done: 0, label: 'y' });
+        await request(app).post(`${base()}/row`).send({ title: 'C', points: 1 });
+    });
+
+    it('POST .../column — 400 on a formula that does not compile', async () => {
+        for (const formula of ['points *', 'nope + 1', 'sqrt(points)', 'if(done)']) {
+            const res = await request(app).post(`${base()}/column`).send({ name: 'bad', type: 'formula', formula });
+            expect(res.status).toBe(400);
+            expect(res.body.error).toMatch(/^Invalid formula/);
+        }
+        expect((await request(app).post(`${base()}/column`).send({ name: 'bad', type: 'formula' })).status).toBe(400);
+    });
+
+    it('GET .../table/:tableName — computes formulas per row', async () => {
+        const created = await request(app).post(`${base()}/column`).send({ name: 'double', type: 'formula', formula: 'points * 2' });
+        expect(created.status).toBe(201);
+        expect(created.body).toMatchObject({ type: 'formula', formula: 'points * 2' });
+
+        await request(app).post(`${base()}/column`).send({ name: 'verdict', type: 'formula', formula: "if(done, 'Yes', 'No')" });
+        await request(app).post(`${base()}/column`).send({ name: 'summary', type: 'formula', formula: "concat(title, ' - ', label)" });
+        await request(app).post(`${base()}/column`).send({ name: 'age', type: 'formula', formula: 'days_between(date_created, now())' });
+        await request(app).post(`${base()}/column`).send({ name: 'ratio', type: 'formula', formula: 'double / 4' });
+
+        const rows = await rowsByTitle();
+        expect(rows.A).toMatchObject({ double: 6, verdict: 'Yes', summary: 'A - x', age: 10, ratio: 1.5 });
+        expect(rows.B).toMatchObject({ double: 20, verdict: 'No', summary: 'B - y', age: 0, ratio: 5 });
+        expect(rows.C).toMatchObject({ double: 2, verdict: 'No', summary: 'C - ' });
+
+        const single = await request(app).get(`${base()}/row/${rows.A.id}`);
+        expect(single.body).toMatchObject({ double: 6, verdict: 'Yes' });
+    });
+
+    it('GET .../table/:tableName — searches and sorts by formula values', async () => {
+        expect(Object.keys(await rowsByTitle('?q=double:>10'))).toEqual(['B']);
+        expect(Object.keys(await rowsByTitle('?q=verdict:yes'))).toEqual(['A']);
+        expect(Object.keys(await rowsByTitle('?q=age:[5 TO 20]'))).toEqual(['A']);
+
+        const sorted = await request(app).get(`${base()}?s=double:asc`);
+        expect(sorted.body.rows.map((r: any) => r.title)).toEqual(['C', 'A', 'B']);
+
+        const paged = await request(app).get(`${base()}?s=ratio:desc&limit=2`);
+        const next = await request(app).get(`${base()}?s=ratio:desc&limit=2&cursor=${paged.body.nextCursor}`);
+        expect(next.body.rows.map((r: any) => r.title)).toEqual(['C']);
+    });
+
+    it('PATCH .../row/:rowId — formula columns are read-only', async () => {
+        const rows = await rowsByTitle();
+        const res = await request(app).patch(`${base()}/row/${rows.A.id}`).send({ double: 100 });
+        expect(res.status).toBe(500);
+        expect(res.body.detail).toMatch(/formula/);
+        expect((await request(app).post(`${base()}/row`).send({ title: 'D', verdict: 'Maybe' })).status).toBe(500);
+    });
+
+    it('PATCH .../row/:rowId — returns the row with its formulas computed', async () => {
+        const rows = await rowsByTitle();
+        const patched = await request(app).patch(`${base()}/row/${rows.A.id}`).send({ points: 4 });
+        expect(patched.status).toBe(200);
+        expect(patched.body).toMatchObject({ points: 4, double: 8, ratio: 2 });
+
+        const batch = await request(app).post(`${base()}/row/batch`)
+            .send({ operations: [{ op: 'patch', id: rows.A.id, data: { points: 3 } }] });
+        expect(batch.body.results[0].row).toMatchObject({ points: 3, double: 6 });
+    });
+
+    it('PATCH .../column/:columnName — a rename rewrites the formulas using the column', async () => {
+        const res = await request(app).patch(`${base()}/column/points`).send({ newName: 'score' });
+        expect(res.status).toBe(200);
+        expect((await column('double')).formula).toBe('score * 2');
+        expect((await rowsByTitle()).B.double).toBe(20);
+
+        expect((await request(app).patch(`${base()}/column/double`).send({ newType: 'integer' })).status).toBe(400);
+    });
+
+    it('DELETE .../column/:columnName — marks the formulas using it broken', async () => {
+        await request(app).delete(`${base()}/column/label`);
+
+        const summary = await column('summary');
+        expect(summary.formula).toBe("concat(title, ' - ', label)");
+        expect(summary.formulaError).toMatch(/label/);
+        expect((await column('double')).formulaError).toBeUndefined();
+
+        const rows = await rowsByTitle();
+        expect(rows.A).toMatchObject({ summary: null, double: 6 });
+    });
+
+    it('PATCH .../column/:columnName/formula — replaces the formula and clears the mark', async () => {
+        const res = await request(app).patch(`${base()}/column/summary/formula`).send({ formula: "concat(title, '!')" });
+        expect(res.status).toBe(200);
+        expect(res.body.formulaError).toBeUndefined();
+        expect((await rowsByTitle()).A.summary).toBe('A!');
+
+        expect((await request(app).patch(`${base()}/column/summary/formula`).send({ formula: 'summary + 1' })).status).toBe(400);
+        expect((await request(app).patch(`${base()}/column/score/formula`).send({ formula: '1' })).status).toBe(400);
+        expect((await request(app).patch(`${base()}/column/missing/formula`).send({ formula: '1' })).status).toBe(404);
+    });
+});
+
+describe('Lookup and rollup columns', () => {
+    const table = (name: string) => `/api/database/${db2Id}/table/${name}`;
+    const rowsByTitle = async (name: string, query = '') => Object.fromEntries(
+        (await request(app).get(`${table(name)}${query}`)).body.rows.map((r: any) => [r.title, r])
+    );
+    const ids: Record<string, number> = {};
+
+    beforeAll(async () => {
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'projects' });
+        await request(app).post(`/api/database/${db2Id}/table`).send({ tableName: 'tasks' });
+        await request(app).post(`${table('projects')}/column`).send({ name: 'code', type: 'string' });
+        await request(app).post(`${table('tasks')}/column`).send({ name: 'hours', type: 'integer' });
+        await request(app).post(`${table('tasks')}/column`).send({ name: 'project', type: 'table_ref' });
+        await request(app).patch(`${table('tasks')}/column/project/tableref`).send({ targetTable: 'projects' });
+        await request(app).post(`${table('projects')}/column`).send({ name: 'picks', type: 'table_ref_many' });
+        await request(app).patch(`${table('projects')}/column/picks/tableref`).send({ targetTable: 'tasks' });
+
+        for (const [title, code] of [['P1', 'AAA'], ['P2', 'BBB']]) {
+            ids[title] = (await request(app).post(`${table('projects')}/row`).send({ title, code })).body.id;
+        }
+        for (const [title, hours, project] of [['t1', 2, 'P1'], ['t2', 5, 'P1'], ['t3', 1, 'P2']] as const) {
+            ids[title] = (await request(app).post(`${table('tasks')}/row`).send({ title, hours, project: ids[project] })).body.id;
+        }
+        await request(app).patch(`${table('projects')}/row/${ids.P1}`).send({ picks: [ids.t1, ids.t3] });
+    });
+
+    it('POST .../column — 400 on a lookup or rollup that does not resolve', async () => {
+        const bad = [
+            { type: 'lookup', lookup: { via: 'hours', field: 'code' } },
+            { type: 'lookup', lookup: { via: 'project', field: 'nope' } },
+            { type: 'rollup', rollup: { table: 'tasks', via: 'project', field: 'title', fn: 'sum' } },
+            { type: 'rollup', rollup: { table: 'tasks', via: 'hours', fn: 'count' } },
+            { type: 'rollup', rollup: { via: 'picks', fn: 'median' } },
+        ];
+        for (const body of bad) {
+            const target = body.type === 'lookup' ? 'tasks' : 'projects';
+            const res = await request(app).post(`${table(target)}/column`).send({ name: 'bad', ...body });
+            expect(res.status).toBe(400);
+            expect(res.body.error).toMatch(/^Invalid (lookup|rollup)/);
+        }
+    });
+
+    it('GET .../table/:tableName — computes lookups and rollups', async () => {
+        const lookup = await request(app).post(`${table('tasks')}/column`)
+            .send({ name: 'project_code', type: 'lookup', lookup: { via: 'project', field: 'code' } });
+        expect(lookup.status).toBe(201);
+        expect(lookup.body.lookup).toEqual({ via: 'project', field: 'code' });
+
+        await request(app).post(`${table('projects')}/column`)
+            .send({ name: 'task_count', type: 'rollup', rollup: { table: 'tasks', via: 'project', fn: 'count' } });
+        await request(app).post(`${table('projects')}/column`)
+            .send({ name: 'task_hours', type: 'rollup', rollup: { table: 'tasks', via: 'project', field: 'hours', fn: 'sum' } });
+        await request(app).post(`${table('projects')}/column`)
+            .send({ name: 'picked', type: 'rollup', rollup: { via: 'picks', field: 'title', fn: 'concat' } });
+        await request(app).post(`${table('projects')}/column`)
+            .send({ name: 'longest', type: 'rollup', rollup: { via: 'picks', field: 'hours', fn: 'max' } });
+
+        const tasks = await rowsByTitle('tasks');
+        expect([tasks.t1.project_code, tasks.t2.project_code, tasks.t3.project_code]).toEqual(['AAA', 'AAA', 'BBB']);
+
+        const projects = await rowsByTitle('projects');
+        expect(projects.P1).toMatchObject({ task_count: 2, task_hours: 7, picked: 't1, t3', longest: 2 });
+        expect(projects.P2).toMatchObject({ task_count: 1, task_hours: 1, picked: null, longest: null });
+
+        const single = await request(app).get(`${table('projects')}/row/${ids.P1}`);
+        expect(single.body).toMatchObject({ task_count: 2, picked: 't1, t3' });
+    });
+
+    it('GET .../table/:tableName — follows edits to the related rows', async () => {
+        await request(app).patch(`${table('projects')}/row/${ids.P1}`).send({ code: 'ZZZ' });
+        await request(app).patch(`${table('tasks')}/row/${ids.t2}`).send({ hours: 10 });
+
+        expect((await rowsByTitle('tasks')).t2.project_code).toBe('ZZZ');
+        expect((await rowsByTitle('projects')).P1.task_hours).toBe(12);
+        expect(Object.keys(await rowsByTitle('projects', '?q=task_hours:>5'))).toEqual(['P1']);
+
+        const sorted = await request(app).get(`${table('tasks')}?s=project_code:asc`);
+        expect(sorted.body.rows.map((r: any) => r.title)).toEqual(['t3', 't1', 't2']);
+    });
+
+    it('DELETE .../row/:rowId — related rows drop out of lookups and rollups', async () => {
+        await request(app).delete(`${table('tasks')}/row/${ids.t1}`);
+        const projects = await rowsByTitle('projects');
+        expect(projects.P1).toMatchObject({ task_count: 1, task_hours: 10, picked: 't3', longest: 1 });
+
+        await request(app).delete(`${table('projects')}/row/${ids.P2}`);
+        expect((await rowsByTitle('tasks')).t3.project_code).toBeNull();
+    });
+
+    it('PATCH .../row/:rowId — lookup and rollup columns are read-only', async () => {
+        const res = await request(app).patch(`${table('tasks')}/row/${ids.t2}`).send({ project_code: 'X' });
+        expect(res.status).toBe(500);
+        expect(res.body.detail).toMatch(/lookup/);
+    });
+
+    it('POST / PATCH .../row — return lookups computed', async () => {
+        const created = await request(app).post(`${table('tasks')}/row`).send({ title: 't4', hours: 1, project: ids.P1 });
+        expect(created.status).toBe(201);
+        expect(created.body.project_code).toBe('ZZZ');
+
+        const patched = await request(app).patch(`${table('tasks')}/row/${created.body.id}`).send({ hours: 2 });
+        expect(patched.body).toMatchObject({ hours: 2, project_code: 'ZZZ' });
+
+        await request(app).delete(`${table('tasks')}/row/${created.body.id}`);
+    });
+
+    it('PATCH column / table renames — lookups and rollups follow', async () => {
+        await request(app).patch(`${table('tasks')}/column/hours`).send({ newName: 'effort' });
+        await request(app).patch(`${table('tasks')}/column/project`).send({ newName: 'parent' });
+        await request(app).patch(table('tasks')).send({ newName: 'jobs' });
+
+        const columns = (await request(app).get(`${table('projects')}/columns`)).body;
+        expect(columns.find((c: any) => c.name === 'task_hours').rollup)
+            .toEqual({ via: 'parent', table: 'jobs', field: 'effort', fn: 'sum' });
+        expect((await rowsByTitle('projects')).P1).toMatchObject({ task_count: 1, task_hours: 10 });
+        expect((await rowsByTitle('jobs')).t2.project_code).toBe('ZZZ');
+    });
+});
+
+describe('Row backlinks', () => {
+    const table = (name: string) => `/api/database/${db2Id}/table/${name}`;
+    const ids: Record<string, number> = {};
+
+    beforeAll(async () => {
+        for (const tableName of ['authors', 'papers']) {
+            await request(app).post(`/api/database/${db2Id}/table`).send({ tableName });
+        }
+        await request(app).post(`${table('papers')}/column`).send({ name: 'lead', type: 'table_ref' });
+        await request(app).patch(`${table('papers')}/column/lead/tableref`).send({ targetTable: 'authors' });
+        await request(app).post(`${table('papers')}/column`).send({ name: 'coauthors', type: 'table_ref_many' });
+        await request(app).patch(`${table('papers')}/column/coauthors/tableref`).send({ targetTable: 'authors' });
+
+        for (const title of ['Ada', 'Alan']) {
+            ids[title] = (await request(app).post(`${table('authors')}/row`).send({ title })).body.id;
+        }
+        const papers: Array<[string, number, number[]]> = [['Notes', ids.Ada, [ids.Alan]], ['Numbers', ids.Alan, [ids.Ada]], ['Engines', ids.Ada, []]];
+        for (const [title, lead, coauthors] of papers) {
+            ids[title] = (await request(app).post(`${table('papers')}/row`).send({ title, lead, coauthors })).body.id;
+        }
+    });
+
+    it('GET .../row/:rowId/backlinks — groups referencing rows by table and column', async () => {
+        const res = await request(app).get(`${table('authors')}/row/${ids.Ada}/backlinks`);
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({
+            table: 'authors',
+            rowId: ids.Ada,
+            backlinks: [
+                { table: 'papers', column: 'lead', type: 'table_ref', rows: [{ id: ids.Notes, title: 'Notes' }, { id: ids.Engines, title: 'Engines' }] },
+                { table: 'papers', column: 'coauthors', type: 'table_ref_many', rows: [{ id: ids.Numbers, title: 'Numbers' }] },
+            ],
+        });
+
+        const none = await request(app).get(`${table('papers')}/row/${ids.Notes}/backlinks`);
+        expect(none.body.backlinks).toEqual([]);
+    });
+
+    it('GET .../row/:rowId/backlinks — 500 for a missing row', async () => {
+        const res = await request(app).get(`${table('authors')}/row/99999/backlinks`);
+        expect(res.status).toBe(500);
+        expect(res.body.detail).toMatch(/not found/);
+    });
+
+    it('GET .../row/:rowId?expand=backlinks — adds backlinks to the row', async () => {
+        const plain = await request(app).get(`${table('authors')}/row/${ids.Alan}`);
+        expect(plain.body.backlinks).toBeUndefined();
+
+        const res = await request(app).get(`${table('authors')}/row/${ids.Alan}?expand=backlinks`);
+        expect(res.status).toBe(200);
+        expect(res.body.title).toBe('Alan');
+        expect(res.body.backlinks.map((b: any) => [b.column, b.rows.map((r: any) => r.title)])).toEqual([
+            ['lead', ['Numbers']],
+            ['coauthors', ['Notes']],
+        ]);
+
+        const bad = await request(app).get(`${table('authors')}/row/${ids.Alan}?expand=history`);
+        expect(bad.status).toBe(400);
+    });
+
+    it('GET .../row/:rowId/backlinks — drops rows whose references a delete cleared', async () => {
+        await request(app).delete(`${table('papers')}/row/${ids.Notes}`);
+        await request(app).delete(`${table('authors')}/row/${ids.Alan}`);
+
+        const res = await request(app).get(`${table('authors')}/row/${ids.Ada}/backlinks`);
+        expect(res.body.backlinks).toEqual([
+            { table: 'papers', column: 'lead', type: 'table_ref', rows: [{ id: ids.Engines, title: 'Engines' }] },
+            { table: 'papers', column: 'coauthors', type: 'table_ref_many', rows: [{ id: ids.Numbers, title: 'Numbers' }] },
+        ]);
+    });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 5. Transfer endpoints (mapping, row copy, column copy)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -658,6 +2346,120 @@ describe('Rich text endpoints', () => {
     });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 7. GlobalTagList endpoints
+// ─────────────────────────────────────────────────────────────────────────────
+let listId = '';
+
+describe('GlobalTagList endpoints', () => {
+    beforeAll(async () => {
+        await request(app)
+            .post(`/api/database/${dbId}/table/items/column`)
+            .send({ name: 'category', type: 'multi_tag' });
+    });
+
+    it('POST /taglist/sync — creates a list from a tag column', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/taglist/sync`)
+            .send({ tableName: 'items', columnName: 'status', name: 'Statuses' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.name).toBe('Statuses');
+        expect(res.body.values).toEqual(['draft']);
+        listId = res.body.id;
+    });
+
+    it('POST /taglist/sync — 400 on non-syncable column type', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/taglist/sync`)
+            .send({ tableName: 'items', columnName: 'score' });
+
+        expect(res.status).toBe(400);
+    });
+
+    it('GET /taglist — lists all tag lists', async () => {
+        const res = await request(app).get(`/api/database/${dbId}/taglist`);
+        expect(res.status).toBe(200);
+        expect(res.body.some((l: any) => l.id === listId)).toBe(true);
+    });
+
+    it('POST .../column/:col/link — links a tag column to the list', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/items/column/category/link`)
+            .send({ listId });
+
+        expect(res.status).toBe(200);
+
+        const col = await request(app).get(`/api/database/${dbId}/table/items/column/category`);
+        expect(col.body.tagLock).toBe(true);
+        expect(col.body.linkedList).toBe(listId);
+        expect(col.body.tags.map((t: any) => t.name)).toEqual(['draft']);
+    });
+
+    it('PATCH .../taglock — 400 while the column is linked', async () => {
+        const res = await request(app)
+            .patch(`/api/database/${dbId}/table/items/column/category/taglock`)
+            .send({ locked: false });
+
+        expect(res.status).toBe(400);
+    });
+
+    it('POST /taglist/sync — re-sync updates in place and propagates', async () => {
+        await request(app)
+            .post(`/api/database/${dbId}/table/items/column/status/tag`)
+            .send({ name: 'archived' });
+
+        const res = await request(app)
+            .post(`/api/database/${dbId}/taglist/sync`)
+            .send({ tableName: 'items', columnName: 'status' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.id).toBe(listId);
+        expect(res.body.name).toBe('Statuses');
+
+        const col = await request(app).get(`/api/database/${dbId}/table/items/column/category`);
+        expect(col.body.tags.map((t: any) => t.name)).toEqual(['archived', 'draft']);
+    });
+
+    it('POST /taglist/sync — a list follows renames of its source table and column', async () => {
+        const items = `/api/database/${dbId}/table/items`;
+        await request(app).patch(`${items}/column/status`).send({ newName: 'state' });
+        await request(app).patch(items).send({ newName: 'goods' });
+
+        const list = await request(app).get(`/api/database/${dbId}/taglist/${listId}`);
+        expect(list.body).toMatchObject({ sourceTable: 'goods', sourceColumn: 'state' });
+        const res = await request(app)
+            .post(`/api/database/${dbId}/taglist/sync`)
+            .send({ tableName: 'goods', columnName: 'state' });
+        expect(res.body.id).toBe(listId);
+
+        await request(app).patch(`/api/database/${dbId}/table/goods`).send({ newName: 'items' });
+        await request(app).patch(`${items}/column/state`).send({ newName: 'status' });
+        const restored = await request(app).get(`/api/database/${dbId}/taglist/${listId}`);
+        expect(restored.body).toMatchObject({ sourceTable: 'items', sourceColumn: 'status' });
+    });
+
+    it('POST .../column/:col/unlink — unlinks and keeps tags', async () => {
+        const res = await request(app)
+            .post(`/api/database/${dbId}/table/items/column/category/unlink`);
+
+        expect(res.status).toBe(200);
+
+        const col = await request(app).get(`/api/database/${dbId}/table/items/column/category`);
+        expect(col.body.tagLock).toBe(false);
+        expect(col.body.linkedList).toBe('');
+        expect(col.body.tags).toHaveLength(2);
+    });
+
+    it('DELETE /taglist/:listId — deletes a list', async () => {
+        const res = await request(app).delete(`/api/database/${dbId}/taglist/${listId}`);
+        expect(res.status).toBe(200);
+
+        const get = await request(app).get(`/api/database/${dbId}/taglist/${listId}`);
+        expect(get.status).toBe(404);
+    });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 8. Backup / Recovery endpoints
 // ─────────────────────────────────────────────────────────────────────────────
@@ -706,6 +2508,69 @@ describe('Recovery endpoints', () => {
     });
 });
 
+describe('Archive endpoints', () => {
+    // Collects a binary response body into a Buffer
+    const binary = (response: any, cb: (err: Error | null, body: Buffer) => void) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => cb(null, Buffer.concat(chunks)));
+    };
+    let archive: Buffer;
+
+    beforeAll(async () => {
+        await request(app)
+            .post(`/api/database/${dbId}/table/films/row/1/upload`)
+            .attach('files', Buffer.from('poster bytes'), 'poster.txt');
+    });
+
+    it('GET /api/database/:dbId/archive — downloads a .atomcrud archive', async () => {
+        const res = await request(app)
+            .get(`/api/database/${dbId}/archive`)
+            .buffer(true)
+            .parse(binary);
+
+        expect(res.status).toBe(200);
+        expect(res.headers['content-type']).toContain('application/zip');
+        expect(res.headers['content-disposition']).toContain('.atomcrud');
+        archive = res.body;
+        expect(archive.subarray(0, 2).toString()).toBe('PK');
+    });
+
+    it('GET /api/database/:dbId/archive — 404 for a missing database', async () => {
+        const res = await request(app).get('/api/database/no_such_db/archive');
+
+        expect(res.status).toBe(404);
+    });
+
+    it('POST /api/database/import/archive — restores the archive under a new id', async () => {
+        const res = await request(app)
+            .post('/api/database/import/archive')
+            .field('name', 'Imported Copy')
+            .attach('file', archive, 'test_db.atomcrud');
+
+        expect(res.status).toBe(201);
+        expect(res.body.id).toMatch(/^imported_copy_\d+$/);
+        expect(res.body.sourceId).toBe(dbId);
+
+        const films = await request(app).get(`/api/database/${res.body.id}/table/films`);
+        expect(films.status).toBe(200);
+        expect(films.body.totalRows).toBeGreaterThan(0);
+
+        const gallery = await request(app).get(`/api/database/${res.body.id}/table/films/row/1/upload`);
+        expect(gallery.body.files.map((f: any) => f.filename)).toContain('poster.txt');
+
+        await request(app).delete(`/api/database/${res.body.id}`);
+    });
+
+    it('POST /api/database/import/archive — 400 on a file that is not an archive', async () => {
+        const res = await request(app)
+            .post('/api/database/import/archive')
+            .attach('file', Buffer.from('not a zip'), 'bad.atomcrud');
+
+        expect(res.status).toBe(400);
+    });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 9. Cleanup — delete the test databases
 // ─────────────────────────────────────────────────────────────────────────────
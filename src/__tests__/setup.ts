@@ -7,9 +7,11 @@ import os from 'os';
 const testRoot = path.join(os.tmpdir(), `atomcrud_test_${process.pid}`);
 const testDbFolder = path.join(testRoot, 'databases');
 const testBackupFolder = path.join(testRoot, 'backup');
+const testTrashFolder = path.join(testRoot, 'trash');
 
 process.env.ATOMCRUD_TEST_DB_FOLDER = testDbFolder;
 process.env.ATOMCRUD_TEST_BACKUP_FOLDER = testBackupFolder;
+process.env.ATOMCRUD_TEST_TRASH_FOLDER = testTrashFolder;
 
 fs.mkdirSync(testDbFolder, { recursive: true });
 fs.mkdirSync(testBackupFolder, { recursive: true });
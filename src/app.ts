@@ -8,11 +8,21 @@ import recoveryRouter from './routes/recovery';
 import richTextRouter from './routes/richtext';
 import transferRouter from './routes/transfer';
 import galleryRouter from './routes/gallery';
+import tagListRouter from './routes/taglist';
+import importRouter from './routes/import';
+import archiveRouter from './routes/archive';
+import auditRouter from './routes/audit';
+import journalRouter from './routes/journal';
+import trashRouter from './routes/trash';
+import searchRouter from './routes/search';
+import viewRouter from './routes/view';
 
 const app = express();
 app.use(cors());
 app.use(express.json({ limit: "50mb" }));
 
+// Before dataRouter, whose /:dbId routes would otherwise catch /trash
+app.use('/api/database', trashRouter);
 app.use('/api/database', dataRouter);
 app.use('/api/database', tableRouter);
 app.use('/api/database', columnRouter);
@@ -20,7 +30,14 @@ app.use('/api/database', rowRouter);
 app.use('/api/database', recoveryRouter);
 app.use('/api/database', transferRouter);
 app.use('/api/database', galleryRouter);
+app.use('/api/database', tagListRouter);
+app.use('/api/database', importRouter);
+app.use('/api/database', archiveRouter);
+app.use('/api/database', auditRouter);
+app.use('/api/database', journalRouter);
+app.use('/api/database', viewRouter);
 app.use('/api/richtext', richTextRouter);
+app.use('/api/search', searchRouter);
 
 app.get('/', (_req, res) => {
     res.send('API is running');
@@ -0,0 +1,284 @@
+/**
+ * Summaries of a table's rows: metrics over the rows getTable's filters
+ * (q=, hidden, mode) select, optionally per group of a column's values, and
+ * the per-value counts (facets) getTable can return alongside its rows.
+ *
+ * Grouping by a multi_tag or table_ref_many column puts a row in the group
+ * of each of its tags / linked rows; dates are grouped by day, week, month
+ * or year in a given timezone. Rows with an empty value form the `null` group.
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import type { ColumnDef, ColumnType, DatabaseMetadata } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { DEFAULT_TIME_ZONE, DateBucket, dateBucket } from '../utils/date-range';
+import { emptyValueSql } from '../utils/empty-value';
+import { resolveFieldName } from '../utils/search';
+import { TableQueryOptions, buildTableQuery, readTableColumns, registerSearchFunctions } from './table-functions';
+import { rowSource } from './formula-functions';
+
+type DatabaseType = InstanceType<typeof Database>;
+
+export const AGGREGATE_METRICS = ['count', 'sum', 'avg', 'min', 'max', 'distinct'] as const;
+export type AggregateMetric = typeof AGGREGATE_METRICS[number];
+
+export const DATE_BUCKETS: DateBucket[] = ['day', 'week', 'month', 'year'];
+
+// Column types sum / avg / min / max accept
+const numericTypes: ColumnType[] = ['integer', 'float', 'rating', 'advanced_rating'];
+
+export interface AggregateOptions extends TableQueryOptions {
+    /** `column` or, for dates, `column:day|week|month|year` (default day) */
+    groupBy?: string;
+    /** `count` or `metric:column`, e.g. ['count', 'avg:rating'] (default count) */
+    metrics?: string[];
+}
+
+export interface AggregateGroup {
+    key: string | number | null;
+    /** Display value of a table_ref / table_ref_many group */
+    label?: string | null;
+    metrics: Record<string, number | null>;
+}
+
+interface MetricSpec {
+    name: string;
+    sql: string;
+}
+
+// SQL functions grouping relies on
+function registerAggregateFunctions(db: DatabaseType): void {
+    (db as any).function('DATE_BUCKET', (value: any, bucket: DateBucket, timeZone: string) =>
+        typeof value === 'number' ? dateBucket(value, bucket, timeZone) : null);
+    // Space-separated tags as a JSON array, for json_each
+    (db as any).function('TAG_LIST', (value: any) =>
+        JSON.stringify(typeof value === 'string' ? value.trim().split(/\s+/).filter(Boolean) : []));
+}
+
+function findColumn(field: string, columns: ColumnDef[]): ColumnDef | undefined {
+    const resolved = resolveFieldName(field, columns);
+    return resolved ? columns.find(c => c.name === resolved) : undefined;
+}
+
+// Metric expressions over the filtered rows (aliased `src`)
+function parseMetrics(metrics: string[], columns: ColumnDef[]): MetricSpec[] {
+    const specs: MetricSpec[] = [];
+    for (const raw of metrics.map(m => m.trim()).filter(Boolean)) {
+        const [fn, field] = raw.split(':').map(part => part.trim());
+        const metric = fn.toLowerCase() as AggregateMetric;
+        if (!AGGREGATE_METRICS.includes(metric)) {
+            throw new Error(`Invalid aggregate: unknown metric '${fn}' (use ${AGGREGATE_METRICS.join(', ')})`);
+        }
+
+        if (metric === 'count') {
+            specs.push({ name: 'count', sql: 'COUNT(*)' });
+            continue;
+        }
+        if (!field) throw new Error(`Invalid aggregate: '${metric}' needs a column, e.g. ${metric}:rating`);
+
+        const col = findColumn(field, columns);
+        if (!col) throw new Error(`Invalid aggregate: unknown metric column '${field}'`);
+        const ref = `src."${col.name}"`;
+        if (metric === 'distinct') {
+            const value = numericTypes.includes(col.type) || col.type === 'date' || col.type === 'boolean'
+                ? ref
+                : `NULLIF(TRIM(${ref}), '')`;
+            specs.push({ name: `distinct:${col.name}`, sql: `COUNT(DISTINCT ${value})` });
+            continue;
+        }
+        if (!numericTypes.includes(col.type)) {
+            throw new Error(`Invalid aggregate: '${metric}' needs a numeric or rating column; '${col.name}' is ${col.type}`);
+        }
+        specs.push({ name: `${metric}:${col.name}`, sql: `${metric.toUpperCase()}(${ref})` });
+    }
+    return specs.length ? specs : [{ name: 'count', sql: 'COUNT(*)' }];
+}
+
+/**
+ * How a groupBy column splits rows: `inner` is computed on each filtered
+ * row, `join` (if set) expands it into one row per tag / linked row, and
+ * `key` / `label` read the group from the expanded rows.
+ */
+function groupPlan(col: ColumnDef, bucket: DateBucket | undefined, timeZone: string) {
+    const ref = `"${col.name}"`;
+    const empty = emptyValueSql(col.name, col.type);
+    const displayOf = (id: string) => col.linkedTable && col.visualization
+        ? `(SELECT "${col.visualization}" FROM "${col.linkedTable}" WHERE id = ${id})`
+        : undefined;
+
+    switch (col.type) {
+        case 'rich_text':
+            throw new Error(`Invalid aggregate: cannot group by rich_text column '${col.name}'`);
+        case 'date':
+            return { inner: `DATE_BUCKET(${ref}, ?, ?)`, params: [bucket ?? 'day', timeZone], key: 'src.__group' };
+        case 'multi_tag':
+            return { inner: `TAG_LIST(${ref})`, params: [], join: 'json_each(src.__group)', key: 'member.value' };
+        case 'table_ref_many':
+            return {
+                inner: `CASE WHEN json_valid(${ref}) THEN ${ref} ELSE '[]' END`,
+                params: [],
+                join: 'json_each(src.__group)',
+                key: 'member.value',
+                label: displayOf('member.value'),
+            };
+        case 'table_ref':
+            return { inner: ref, params: [], key: 'src.__group', label: displayOf('src.__group') };
+        case 'link':
+            return {
+                inner: `CASE WHEN ${empty} THEN NULL WHEN json_valid(${ref}) THEN json_extract(${ref}, '$.displayName') ELSE ${ref} END`,
+                params: [],
+                key: 'src.__group',
+            };
+        default:
+            return { inner: `CASE WHEN ${empty} THEN NULL ELSE ${ref} END`, params: [], key: 'src.__group' };
+    }
+}
+
+// The filtered rows (`src`), expanded per tag / linked row when the plan joins
+function groupedFrom(source: string, where: string, plan: ReturnType<typeof groupPlan>): string {
+    return `(SELECT *, ${plan.inner} AS __group FROM ${source}${where}) AS src`
+        + (plan.join ? ` LEFT JOIN ${plan.join} AS member` : '');
+}
+
+/**
+ * Computes `metrics` over the rows selected by getTable's filters: `totals`
+ * over all of them and, with `groupBy`, one entry per group. Date groups
+ * come in chronological order, other groups largest first; the null group
+ * comes last.
+ */
+export function aggregateTable(dbId: string, tableName: string, options: AggregateOptions = {}) {
+    const { dbPath, metaPath } = getDbPaths(dbId);
+
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const db = new Database(dbPath);
+    try {
+        const found = db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name = ?`).get(tableName);
+        if (!found) throw new Error(`Table '${tableName}' not found in '${dbId}'`);
+
+        registerSearchFunctions(db);
+        registerAggregateFunctions(db);
+
+        const columns = readTableColumns(db, metadata, tableName);
+        const metrics = parseMetrics(options.metrics ?? [], columns);
+        const { filters, params } = buildTableQuery(db, tableName, columns, options, metadata);
+        const where = filters.length ? ` WHERE ${filters.join(' AND ')}` : '';
+        const metricSql = metrics.map((m, i) => `${m.sql} AS m${i}`).join(', ');
+        const readMetrics = (row: Record<string, any>) =>
+            Object.fromEntries(metrics.map((m, i) => [m.name, row[`m${i}`] ?? null]));
+
+        const source = rowSource(metadata, tableName);
+        const totalsRow = db.prepare(`SELECT ${metricSql} FROM (SELECT * FROM ${source}${where}) AS src`).get(...params);
+        const totals = readMetrics(totalsRow as Record<string, any>);
+
+        if (!options.groupBy) {
+            return { table: tableName, groupBy: null, metrics: metrics.map(m => m.name), totals, groups: [] as AggregateGroup[] };
+        }
+
+        const [field, rawBucket] = options.groupBy.split(':').map(part => part.trim());
+        const col = findColumn(field, columns);
+        if (!col) throw new Error(`Invalid aggregate: unknown groupBy column '${field}'`);
+        const bucket = rawBucket?.toLowerCase() as DateBucket | undefined;
+        if (bucket !== undefined && (col.type !== 'date' || !DATE_BUCKETS.includes(bucket))) {
+            throw new Error(`Invalid aggregate: '${options.groupBy}' — only date columns take a bucket (${DATE_BUCKETS.join(', ')})`);
+        }
+
+        const plan = groupPlan(col, bucket, options.timeZone ?? DEFAULT_TIME_ZONE);
+        const from = groupedFrom(source, where, plan);
+        const order = col.type === 'date' ? '__grp IS NULL, __grp' : '__grp IS NULL, __count DESC, __grp';
+
+        const rows = db.prepare(`
+            SELECT ${plan.key} AS __grp, ${plan.label ? `${plan.label} AS __label, ` : ''}COUNT(*) AS __count, ${metricSql}
+            FROM ${from}
+            GROUP BY __grp
+            ORDER BY ${order}
+        `).all(...plan.params, ...params) as Array<Record<string, any>>;
+
+        const groups: AggregateGroup[] = rows.map(row => ({
+            key: row.__grp ?? null,
+            ...(plan.label ? { label: row.__label ?? null } : {}),
+            metrics: readMetrics(row),
+        }));
+
+        return {
+            table: tableName,
+            groupBy: { column: col.name, type: col.type, ...(col.type === 'date' && { bucket: bucket ?? 'day' }) },
+            metrics: metrics.map(m => m.name),
+            totals,
+            groups,
+        };
+    } finally {
+        db.close();
+    }
+}
+
+// Values every facet of a column lists, even when no row has them
+function facetValues(col: ColumnDef): string[] {
+    switch (col.type) {
+        case 'single_tag':
+        case 'multi_tag':
+            return (col.tags ?? []).map(t => t.name);
+        case 'rating':
+            return ['0', '1', '2', '3', '4', '5'];
+        case 'boolean':
+            return ['false', 'true'];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Value → row count maps ("facets") of the given columns over the rows
+ * getTable's filters select. Multi-tag values count once per tag; registered
+ * tags, rating values 0–5 and both boolean states are listed even at zero.
+ * Dates count per day in options.timeZone; empty values are not counted.
+ */
+export function tableFacets(dbId: string, tableName: string, fields: string[], options: TableQueryOptions = {}) {
+    const { dbPath, metaPath } = getDbPaths(dbId);
+
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const db = new Database(dbPath);
+    try {
+        const found = db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name = ?`).get(tableName);
+        if (!found) throw new Error(`Table '${tableName}' not found in '${dbId}'`);
+
+        registerSearchFunctions(db);
+        registerAggregateFunctions(db);
+
+        const columns = readTableColumns(db, metadata, tableName);
+        const { filters, params } = buildTableQuery(db, tableName, columns, options, metadata);
+        const where = filters.length ? ` WHERE ${filters.join(' AND ')}` : '';
+
+        const facets: Record<string, Record<string, number>> = {};
+        for (const field of fields.map(f => f.trim()).filter(Boolean)) {
+            const col = findColumn(field, columns);
+            if (!col) throw new Error(`Invalid facets: unknown column '${field}'`);
+            if (col.type === 'rich_text') throw new Error(`Invalid facets: cannot count values of rich_text column '${col.name}'`);
+
+            const plan = groupPlan(col, undefined, options.timeZone ?? DEFAULT_TIME_ZONE);
+            const rows = db.prepare(`
+                SELECT ${plan.key} AS __grp, COUNT(*) AS __count
+                FROM ${groupedFrom(rowSource(metadata, tableName), where, plan)}
+                WHERE ${plan.key} IS NOT NULL
+                GROUP BY __grp
+                ORDER BY __count DESC, __grp
+            `).all(...plan.params, ...params) as Array<{ __grp: string | number; __count: number }>;
+
+            const counts: Record<string, number> = Object.fromEntries(facetValues(col).map(value => [value, 0]));
+            for (const row of rows) {
+                const key = col.type === 'boolean' ? String(!!row.__grp) : String(row.__grp);
+                counts[key] = (counts[key] ?? 0) + row.__count;
+            }
+            facets[col.name] = counts;
+        }
+        return facets;
+    } finally {
+        db.close();
+    }
+}
@@ -0,0 +1,216 @@
+/**
+ * Portable database archives (.atomcrud): one zip file holding everything a
+ * database folder holds, so it can be moved between machines.
+ *
+ * Archive layout
+ * ──────────────
+ *   manifest.json       format, versions, source database, file checksums
+ *   database.sqlite     copy of {safeName}.sqlite
+ *   meta.json           copy of {safeName}.meta.json
+ *   Gallery/...         every file under the database's Gallery folder
+ *
+ * Inside the archive the files are not named after the database; the import
+ * gives the database a fresh {safeName}_{timestamp} id (makeDatabaseId, as
+ * createDatabase does) and writes the usual folder structure.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import Database from 'better-sqlite3';
+import type { DatabaseMetadata } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { makeDatabaseId } from './database-functions';
+
+export const ARCHIVE_FORMAT = 'atomcrud-archive';
+export const ARCHIVE_EXTENSION = '.atomcrud';
+/** Version of the archive layout and meta.json schema written by this build */
+export const ARCHIVE_SCHEMA_VERSION = 1;
+
+const SQLITE_ENTRY = 'database.sqlite';
+const META_ENTRY = 'meta.json';
+const GALLERY_ENTRY = 'Gallery/';
+
+export interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    schemaVersion: number;
+    createdAt: string;
+    database: { id: string; displayName: string };
+    files: Array<{ path: string; size: number; sha256: string }>;
+}
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+// Lists every file under a folder as paths relative to it, using '/' separators
+function listFiles(root: string, dir = root): string[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) return listFiles(root, full);
+        return entry.isFile() ? [path.relative(root, full).split(path.sep).join('/')] : [];
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Export
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Packs a database folder into a .atomcrud archive.
+ * Returns the zip contents and a suggested file name.
+ */
+export async function exportArchive(dbId: string): Promise<{ fileName: string; buffer: Buffer }> {
+    const { dbPath, metaPath, galleryPath, safeName } = getDbPaths(dbId);
+
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+
+    const entries: Array<{ path: string; data: Buffer }> = [
+        { path: SQLITE_ENTRY, data: fs.readFileSync(dbPath) },
+        { path: META_ENTRY, data: fs.readFileSync(metaPath) },
+        ...listFiles(galleryPath).map(file => ({
+            path: GALLERY_ENTRY + file,
+            data: fs.readFileSync(path.join(galleryPath, ...file.split('/'))),
+        })),
+    ];
+
+    const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        schemaVersion: ARCHIVE_SCHEMA_VERSION,
+        createdAt: new Date().toISOString(),
+        database: { id: dbId, displayName: metadata.displayName },
+        files: entries.map(e => ({ path: e.path, size: e.data.length, sha256: sha256(e.data) })),
+    };
+
+    const zip = new JSZip();
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    for (const entry of entries) zip.file(entry.path, entry.data);
+
+    const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    return { fileName: `${safeName}${ARCHIVE_EXTENSION}`, buffer };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Import
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads and checks an archive: manifest format and schema version, that every
+ * listed file is present with a matching checksum, that no entry escapes the
+ * database folder, and that meta.json parses.
+ */
+async function readArchive(buffer: Buffer) {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(buffer);
+    } catch {
+        throw new Error('File is not a valid .atomcrud archive.');
+    }
+
+    const manifestFile = zip.file('manifest.json');
+    if (!manifestFile) throw new Error('Archive has no manifest.json.');
+
+    let manifest: ArchiveManifest;
+    try {
+        manifest = JSON.parse(await manifestFile.async('string'));
+    } catch {
+        throw new Error('Archive manifest.json is not valid JSON.');
+    }
+
+    if (manifest.format !== ARCHIVE_FORMAT) throw new Error(`Unknown archive format '${manifest.format}'.`);
+    if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion > ARCHIVE_SCHEMA_VERSION) {
+        throw new Error(`Archive schema version ${manifest.schemaVersion} is not supported (max ${ARCHIVE_SCHEMA_VERSION}).`);
+    }
+    if (!Array.isArray(manifest.files)) throw new Error('Archive manifest has no file list.');
+
+    const listed = new Set(manifest.files.map(f => f.path));
+    if (!listed.has(SQLITE_ENTRY)) throw new Error(`Archive is missing ${SQLITE_ENTRY}.`);
+    if (!listed.has(META_ENTRY)) throw new Error(`Archive is missing ${META_ENTRY}.`);
+
+    const files = new Map<string, Buffer>();
+    for (const entry of manifest.files) {
+        const normalized = path.posix.normalize(entry.path);
+        if (normalized !== entry.path || normalized.startsWith('../') || path.posix.isAbsolute(normalized)
+            || (normalized !== SQLITE_ENTRY && normalized !== META_ENTRY && !normalized.startsWith(GALLERY_ENTRY))) {
+            throw new Error(`Archive entry '${entry.path}' is not allowed.`);
+        }
+
+        const file = zip.file(entry.path);
+        if (!file) throw new Error(`Archive is missing '${entry.path}'.`);
+
+        const data = await file.async('nodebuffer');
+        if (data.length !== entry.size || sha256(data) !== entry.sha256) {
+            throw new Error(`Checksum mismatch for '${entry.path}'.`);
+        }
+        files.set(entry.path, data);
+    }
+
+    let metadata: DatabaseMetadata;
+    try {
+        metadata = JSON.parse(files.get(META_ENTRY)!.toString('utf-8'));
+    } catch {
+        throw new Error(`Archive ${META_ENTRY} is not valid JSON.`);
+    }
+    if (typeof metadata !== 'object' || metadata === null || typeof metadata.tables !== 'object') {
+        throw new Error(`Archive ${META_ENTRY} is not database metadata.`);
+    }
+
+    return { manifest, metadata, files };
+}
+
+/**
+ * Restores a .atomcrud archive as a new database. The database keeps its
+ * display name unless `displayName` is given; either way it gets a new id.
+ */
+export async function importArchive(
+    buffer: Buffer,
+    displayName?: string
+): Promise<{ id: string; displayName: string; sourceId: string; files: number }> {
+    const { manifest, metadata, files } = await readArchive(buffer);
+
+    const name = displayName || metadata.displayName || manifest.database?.displayName || 'imported';
+    const timestamp = Date.now();
+    const id = makeDatabaseId(name, timestamp);
+    const { folderPath, dbPath, metaPath, galleryPath } = getDbPaths(id);
+
+    try {
+        fs.mkdirSync(folderPath, { recursive: true });
+        fs.mkdirSync(galleryPath, { recursive: true });
+
+        fs.writeFileSync(dbPath, files.get(SQLITE_ENTRY)!);
+
+        // Refuse anything SQLite does not consider a healthy database
+        const db = new Database(dbPath);
+        try {
+            const [check] = db.pragma('integrity_check') as Array<{ integrity_check: string }>;
+            if (check?.integrity_check !== 'ok') throw new Error(`SQLite integrity check failed: ${check?.integrity_check}`);
+        } catch (err) {
+            throw new Error(`Archive ${SQLITE_ENTRY} is not a valid SQLite database: ${(err as Error).message}`);
+        } finally {
+            db.close();
+        }
+
+        metadata.id = id;
+        metadata.displayName = name;
+        metadata.modifiedAt = new Date(timestamp).toISOString();
+        fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2), 'utf-8');
+
+        for (const [entryPath, data] of files) {
+            if (!entryPath.startsWith(GALLERY_ENTRY)) continue;
+            const target = path.join(galleryPath, ...entryPath.slice(GALLERY_ENTRY.length).split('/'));
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, data);
+        }
+    } catch (err) {
+        // Clean up the partial database folder on failure
+        if (fs.existsSync(folderPath)) {
+            try { fs.rmSync(folderPath, { recursive: true, force: true }); } catch {}
+        }
+        throw err;
+    }
+
+    return { id, displayName: name, sourceId: manifest.database?.id ?? '', files: files.size };
+}
@@ -0,0 +1,233 @@
+/**
+ * Audit log: every row create, patch, visibility change and delete is
+ * recorded with the old and new value of each column it changed.
+ *
+ * Entries live in the internal __audit_log table of the database they
+ * describe, so they travel with backups, archives and renames, and are
+ * written on the same connection (and in the same transaction) as the change
+ * itself. The table is created on first write.
+ *
+ * Reverting an entry is done by row-functions (revertAuditEntry), which
+ * re-applies the old values through the normal validation path.
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { getDbPaths } from '../utils/db-paths';
+import { AUDIT_TABLE } from '../utils/internal-tables';
+
+type DatabaseType = InstanceType<typeof Database>;
+
+export type AuditAction = 'create' | 'patch' | 'visibility' | 'delete';
+
+export interface AuditChange {
+    old: any;
+    new: any;
+}
+
+export interface AuditEntry {
+    id: number;
+    table: string;
+    rowId: number;
+    action: AuditAction;
+    /** Changed columns: { column: { old, new } } */
+    changes: Record<string, AuditChange>;
+    /** Milliseconds since epoch, like date_created / date_modified */
+    timestamp: number;
+    /** Id of the entry this change reverted, if it was a revert */
+    revertOf: number | null;
+    /** Set when the change was a side effect of another one (e.g. 'cascade') */
+    cause: string | null;
+}
+
+// Extra details recorded with a change
+export interface AuditContext {
+    revertOf?: number;
+    cause?: string;
+}
+
+export interface AuditFeedOptions {
+    /** Earliest timestamp (inclusive, ms) */
+    from?: number;
+    /** Latest timestamp (inclusive, ms) */
+    to?: number;
+    action?: AuditAction;
+    limit?: number;
+    offset?: number;
+}
+
+// Columns that change on every write and would only add noise
+const ignoredColumns = ['id', 'date_modified'];
+
+function ensureAuditTable(db: DatabaseType, schema = 'main'): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS ${schema}.${AUDIT_TABLE} (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            table_name TEXT NOT NULL,
+            row_id INTEGER NOT NULL,
+            action TEXT NOT NULL,
+            changes TEXT NOT NULL,
+            timestamp INTEGER NOT NULL,
+            revert_of INTEGER,
+            cause TEXT
+        );
+        CREATE INDEX IF NOT EXISTS ${schema}.${AUDIT_TABLE}_row ON ${AUDIT_TABLE} (table_name, row_id);
+        CREATE INDEX IF NOT EXISTS ${schema}.${AUDIT_TABLE}_time ON ${AUDIT_TABLE} (table_name, timestamp);
+    `);
+}
+
+function hasAuditTable(db: DatabaseType, schema = 'main'): boolean {
+    return !!db.prepare(`SELECT 1 FROM ${schema}.sqlite_master WHERE type='table' AND name = ?`).get(AUDIT_TABLE);
+}
+
+function toEntry(row: any): AuditEntry {
+    return {
+        id: row.id,
+        table: row.table_name,
+        rowId: row.row_id,
+        action: row.action,
+        changes: JSON.parse(row.changes),
+        timestamp: row.timestamp,
+        revertOf: row.revert_of ?? null,
+        cause: row.cause ?? null,
+    };
+}
+
+// Per-column differences between two versions of a row ({} stands for "no row")
+export function diffRows(before: Record<string, any>, after: Record<string, any>): Record<string, AuditChange> {
+    const changes: Record<string, AuditChange> = {};
+    for (const col of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (ignoredColumns.includes(col)) continue;
+        const oldValue = before[col] ?? null;
+        const newValue = after[col] ?? null;
+        if (oldValue !== newValue) changes[col] = { old: oldValue, new: newValue };
+    }
+    return changes;
+}
+
+/**
+ * Records one change on an open connection. `before` / `after` are the full
+ * row before and after the change ({} for a create's before or a delete's
+ * after). Patches that changed nothing are not recorded.
+ */
+export function recordAudit(
+    db: DatabaseType,
+    tableName: string,
+    rowId: number,
+    action: AuditAction,
+    before: Record<string, any>,
+    after: Record<string, any>,
+    extra: AuditContext = {}
+): void {
+    const changes = diffRows(before, after);
+    if (Object.keys(changes).length === 0 && (action === 'patch' || action === 'visibility')) return;
+
+    ensureAuditTable(db);
+    db.prepare(`
+        INSERT INTO ${AUDIT_TABLE} (table_name, row_id, action, changes, timestamp, revert_of, cause)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(tableName, rowId, action, JSON.stringify(changes), Date.now(), extra.revertOf ?? null, extra.cause ?? null);
+}
+
+// Reads one entry on an open connection (null if missing)
+export function readAuditEntry(db: DatabaseType, entryId: number): AuditEntry | null {
+    if (!hasAuditTable(db)) return null;
+    const row = db.prepare(`SELECT * FROM ${AUDIT_TABLE} WHERE id = ?`).get(entryId);
+    return row ? toEntry(row) : null;
+}
+
+// Moves a table's history to its new name
+export function renameAuditTable(db: DatabaseType, oldName: string, newName: string): void {
+    if (!hasAuditTable(db)) return;
+    db.prepare(`UPDATE ${AUDIT_TABLE} SET table_name = ? WHERE table_name = ?`).run(newName, oldName);
+}
+
+// Rewrites a renamed column's key inside the recorded changes
+export function renameAuditColumn(db: DatabaseType, tableName: string, oldName: string, newName: string): void {
+    if (!hasAuditTable(db)) return;
+    const oldPath = `$."${oldName}"`;
+    const newPath = `$."${newName}"`;
+    db.prepare(`
+        UPDATE ${AUDIT_TABLE}
+        SET changes = json_set(json_remove(changes, ?), ?, json_extract(changes, ?))
+        WHERE table_name = ? AND json_type(changes, ?) IS NOT NULL
+    `).run(oldPath, newPath, oldPath, tableName, oldPath);
+}
+
+// Drops a deleted table's history
+export function clearAuditTable(db: DatabaseType, tableName: string): void {
+    if (!hasAuditTable(db)) return;
+    db.prepare(`DELETE FROM ${AUDIT_TABLE} WHERE table_name = ?`).run(tableName);
+}
+
+// Copies a table's history between two attached schemas (e.g. into a trashed table's file and back)
+export function copyAuditTable(db: DatabaseType, tableName: string, from: string, to: string): void {
+    if (!hasAuditTable(db, from)) return;
+    ensureAuditTable(db, to);
+    db.prepare(`INSERT OR IGNORE INTO ${to}.${AUDIT_TABLE} SELECT * FROM ${from}.${AUDIT_TABLE} WHERE table_name = ?`).run(tableName);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+function openAuditDb(dbId: string): DatabaseType {
+    const { dbPath } = getDbPaths(dbId);
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    return new Database(dbPath);
+}
+
+// GET a row's history, newest first
+export function getRowHistory(dbId: string, tableName: string, rowId: number): AuditEntry[] {
+    const db = openAuditDb(dbId);
+    try {
+        if (!hasAuditTable(db)) return [];
+        return db.prepare(`
+            SELECT * FROM ${AUDIT_TABLE}
+            WHERE table_name = ? AND row_id = ?
+            ORDER BY id DESC
+        `).all(tableName, rowId).map(toEntry);
+    } finally {
+        db.close();
+    }
+}
+
+// GET a table's history feed, newest first, optionally limited to a date range and action
+export function getTableHistory(
+    dbId: string,
+    tableName: string,
+    options: AuditFeedOptions = {}
+): { total: number; entries: AuditEntry[] } {
+    const db = openAuditDb(dbId);
+    try {
+        if (!hasAuditTable(db)) return { total: 0, entries: [] };
+
+        const filters = ['table_name = ?'];
+        const params: any[] = [tableName];
+        if (typeof options.from === 'number') {
+            filters.push('timestamp >= ?');
+            params.push(options.from);
+        }
+        if (typeof options.to === 'number') {
+            filters.push('timestamp <= ?');
+            params.push(options.to);
+        }
+        if (options.action) {
+            filters.push('action = ?');
+            params.push(options.action);
+        }
+        const where = filters.join(' AND ');
+
+        const total = (db.prepare(`SELECT COUNT(*) AS count FROM ${AUDIT_TABLE} WHERE ${where}`).get(...params) as { count: number }).count;
+
+        let query = `SELECT * FROM ${AUDIT_TABLE} WHERE ${where} ORDER BY id DESC`;
+        if (typeof options.limit === 'number') {
+            query += ` LIMIT ? OFFSET ?`;
+            params.push(options.limit, options.offset ?? 0);
+        }
+
+        return { total, entries: db.prepare(query).all(...params).map(toEntry) };
+    } finally {
+        db.close();
+    }
+}
@@ -1,14 +1,28 @@
 import fs from 'fs';
 import path from 'path';
 import Database from 'better-sqlite3';
-import type { ColumnDef, DatabaseMetadata, ColumnType, TagDef } from '../types';
-import { columnTypeMap } from '../utils/type-mapping';
+import type { ColumnDef, ColumnDefault, DatabaseMetadata, ColumnType, LookupDef, RollupDef, TagDef } from '../types';
+import { columnTypeMap, computedTypes } from '../utils/type-mapping';
 import { normalizeName } from '../utils/normalize-name';
 import { getDbPaths } from '../utils/db-paths';
+import { convertColumnValue, ColumnConversionReport } from './transfer-functions';
+import { renameAuditColumn } from './audit-functions';
+import { renameRowTrashColumn } from './trash-functions';
+import { JournalOptions, recordSchemaOp } from './journal-functions';
+import { dropViewColumn, renameViewColumn } from './view-functions';
+import { backfillColumnDefault, checkColumnDefault } from './row-functions';
+import { checkFormula, checkFormulaColumns, renameFormulaColumn } from './formula-functions';
+import { checkLookup, checkRollup, renameReferenceColumn } from './lookup-functions';
+import { renameTagListColumn } from './taglist-functions';
 
 const untouchable = ['id', 'title', 'content', 'date_created', 'date_modified', 'hidden'];
 
-// Creates a column
+/**
+ * Creates a column. With `options.default` new rows get that default; with
+ * `backfill` existing rows get it too. A formula column takes its expression
+ * in `options.formula`, lookup and rollup columns their definition in
+ * `options.lookup` / `options.rollup`.
+ */
 export function createColumn(
     dbId: string,
     tableName: string,
@@ -16,15 +30,15 @@ export function createColumn(
     customType: string,
     hidden = false,
     index?: number,
-    visualization?: string
-): ColumnDef {
+    visualization?: string,
+    options: { default?: ColumnDefault; backfill?: boolean; formula?: string; lookup?: LookupDef; rollup?: RollupDef } = {}
+): ColumnDef & { backfilled?: number } {
     const columnName = normalizeName(rawName);
     const { dbPath, metaPath } = getDbPaths(dbId);
 
     if (!fs.existsSync(metaPath) || !fs.existsSync(dbPath))
         throw new Error(`Database or metadata file not found for '${dbId}'`);
 
-    const db = new Database(dbPath);
     const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
 
     metadata.tables ??= {};
@@ -38,24 +52,55 @@ export function createColumn(
     const realSqlType = columnTypeMap[customType];
     if (!realSqlType) throw new Error(`Unknown column type '${customType}'`);
 
-    db.prepare(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${realSqlType}`).run();
-    db.close();
-
     const currentColumnCount = Object.keys(columns).length;
     const assignedIndex = typeof index === 'number' ? index : currentColumnCount;
     const isTagType = customType === 'multi_tag' || customType === 'single_tag';
     const isRefType = customType === 'table_ref' || customType === 'table_ref_many';
+    const formula = customType === 'formula'
+        ? checkFormula(metadata, tableName, columnName, options.formula)
+        : undefined;
+    const lookup = customType === 'lookup' ? checkLookup(metadata, tableName, options.lookup) : undefined;
+    const rollup = customType === 'rollup' ? checkRollup(metadata, tableName, options.rollup) : undefined;
+
+    // Checked before the column exists (a new tag column has no tags yet)
+    let defaultValue: ColumnDefault | undefined;
+    if (options.default !== undefined && options.default !== null) {
+        try {
+            defaultValue = checkColumnDefault(
+                { name: columnName, type: customType as ColumnType, index: assignedIndex, tags: [] },
+                options.default
+            );
+        } catch (err) {
+            throw new Error(`Invalid default: ${(err as Error).message}`);
+        }
+    }
 
-    columns[columnName] = {
-        type: customType as ColumnType,
-        hidden,
-        index: assignedIndex,
-        visualization: visualization ?? '',
-        required: 'no',
-        ...(isTagType ? { tags: [] as TagDef[], tagLock: false } : {}),
-        ...(customType === 'custom' ? { rule: '' } : {}),
-        ...(isRefType ? { linkedTable: '' } : {}),
-    };
+    const db = new Database(dbPath);
+    let backfilled: number | undefined;
+    try {
+        db.prepare(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${realSqlType}`).run();
+
+        columns[columnName] = {
+            type: customType as ColumnType,
+            hidden,
+            index: assignedIndex,
+            visualization: visualization ?? '',
+            required: 'no',
+            ...(isTagType ? { tags: [] as TagDef[], tagLock: false, linkedList: '' } : {}),
+            ...(customType === 'custom' ? { rule: '' } : {}),
+            ...(isRefType ? { linkedTable: '' } : {}),
+            ...(formula !== undefined ? { formula } : {}),
+            ...(lookup ? { lookup } : {}),
+            ...(rollup ? { rollup } : {}),
+            ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+        };
+
+        if (options.backfill && defaultValue !== undefined) {
+            backfilled = backfillColumnDefault(db, tableName, columnName, metadata.tables[tableName]);
+        }
+    } finally {
+        db.close();
+    }
 
     metadata.modifiedAt = new Date().toISOString();
     fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
@@ -67,8 +112,13 @@ export function createColumn(
         index: assignedIndex,
         visualization: visualization ?? '',
         required: 'no' as const,
-        ...(isTagType ? { tags: [], tagLock: false } : {}),
+        ...(isTagType ? { tags: [], tagLock: false, linkedList: '' } : {}),
         ...(isRefType ? { linkedTable: '' } : {}),
+        ...(formula !== undefined ? { formula } : {}),
+        ...(lookup ? { lookup } : {}),
+        ...(rollup ? { rollup } : {}),
+        ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+        ...(backfilled !== undefined ? { backfilled } : {}),
     };
 }
 
@@ -93,6 +143,7 @@ export function getAllColumns(dbId: string, tableName: string): ColumnDef[] {
         if (colDef.type === 'single_tag' || colDef.type === 'multi_tag') {
             baseDef.tags = Array.isArray(colDef.tags) ? colDef.tags : [];
             baseDef.tagLock = colDef.tagLock ?? false;
+            baseDef.linkedList = colDef.linkedList ?? '';
         }
         if (colDef.rule !== undefined) {
             baseDef.rule = colDef.rule;
@@ -100,6 +151,15 @@ export function getAllColumns(dbId: string, tableName: string): ColumnDef[] {
         if (colDef.type === 'table_ref' || colDef.type === 'table_ref_many') {
             baseDef.linkedTable = colDef.linkedTable ?? '';
         }
+        if (colDef.default !== undefined) {
+            baseDef.default = colDef.default;
+        }
+        if (colDef.type === 'formula') {
+            baseDef.formula = colDef.formula ?? '';
+            if (colDef.formulaError) baseDef.formulaError = colDef.formulaError;
+        }
+        if (colDef.lookup) baseDef.lookup = colDef.lookup;
+        if (colDef.rollup) baseDef.rollup = colDef.rollup;
         return baseDef;
     });
 }
@@ -125,6 +185,7 @@ export function getSingleColumn(dbId: string, tableName: string, columnName: str
     if (colDef.type === 'single_tag' || colDef.type === 'multi_tag') {
         result.tags = Array.isArray(colDef.tags) ? colDef.tags : [];
         result.tagLock = colDef.tagLock ?? false;
+        result.linkedList = colDef.linkedList ?? '';
     }
     if (colDef.rule !== undefined) {
         result.rule = colDef.rule;
@@ -132,17 +193,39 @@ export function getSingleColumn(dbId: string, tableName: string, columnName: str
     if (colDef.type === 'table_ref' || colDef.type === 'table_ref_many') {
         result.linkedTable = colDef.linkedTable ?? '';
     }
+    if (colDef.default !== undefined) {
+        result.default = colDef.default;
+    }
+    if (colDef.type === 'formula') {
+        result.formula = colDef.formula ?? '';
+        if (colDef.formulaError) result.formulaError = colDef.formulaError;
+    }
+    if (colDef.lookup) result.lookup = colDef.lookup;
+    if (colDef.rollup) result.rollup = colDef.rollup;
     return result;
 }
 
-// Updates name, or drops + re-adds a column with a new type
+/**
+ * Renames a column and/or changes its type.
+ *
+ * A type change keeps the data: every stored value is converted with
+ * convertColumnValue (the same compatibility rules copyRows uses). Values
+ * that cannot be converted are stored as null and reported per row. When
+ * the new type is a tag type, the distinct converted values are registered
+ * as tags on the column.
+ *
+ * With `dryRun`, nothing is written; the returned column and conversion
+ * report show what would happen.
+ */
 export function updateColumnNameOrType(
     dbId: string,
     tableName: string,
     rawOldName: string,
     newName?: string,
-    newType?: string
-): ColumnDef {
+    newType?: string,
+    options: { dryRun?: boolean } & JournalOptions = {}
+): ColumnDef & { conversion?: ColumnConversionReport } {
+    const { dryRun = false } = options;
     const oldName = normalizeName(rawOldName);
 
     if (untouchable.includes(oldName))
@@ -152,7 +235,6 @@ export function updateColumnNameOrType(
     if (!fs.existsSync(metaPath) || !fs.existsSync(dbPath))
         throw new Error(`Database or metadata file not found for '${dbId}'`);
 
-    const db = new Database(dbPath);
     const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
     const columns = metadata.tables?.[tableName]?.columns;
     if (!columns?.[oldName])
@@ -161,44 +243,150 @@ export function updateColumnNameOrType(
     const currentDef = columns[oldName];
     const finalName = newName ? normalizeName(newName) : oldName;
 
-    if (newName && finalName !== oldName) {
-        db.prepare(`ALTER TABLE ${tableName} RENAME COLUMN ${oldName} TO ${finalName}`).run();
-        columns[finalName] = { ...currentDef };
-        delete columns[oldName];
-    }
+    if (finalName !== oldName && columns[finalName])
+        throw new Error(`Column '${finalName}' already exists in table '${tableName}'`);
 
-    if (newType && newType !== currentDef.type) {
-        const realSqlType = columnTypeMap[newType];
-        if (!realSqlType) throw new Error(`Unknown column type '${newType}'`);
-
-        db.prepare(`ALTER TABLE ${tableName} DROP COLUMN ${finalName}`).run();
-        db.prepare(`ALTER TABLE ${tableName} ADD COLUMN ${finalName} ${realSqlType}`).run();
-
-        const isTagType = newType === 'multi_tag' || newType === 'single_tag';
-        const isRefType = newType === 'table_ref' || newType === 'table_ref_many';
-        columns[finalName] = {
-            type: newType as ColumnType,
-            hidden: currentDef.hidden ?? false,
-            index: currentDef.index ?? -1,
-            visualization: currentDef.visualization ?? '',
-            required: currentDef.required ?? 'no',
-            ...(isTagType ? { tags: [] as TagDef[], tagLock: false } : {}),
-            ...(newType === 'custom' ? { rule: currentDef.rule ?? '' } : {}),
-            ...(isRefType ? { linkedTable: '' } : {}),
-        };
-    }
+    const typeChanges = !!newType && newType !== currentDef.type;
+    const realSqlType = typeChanges ? columnTypeMap[newType!] : undefined;
+    if (typeChanges && !realSqlType) throw new Error(`Unknown column type '${newType}'`);
+    if (typeChanges && (computedTypes.includes(newType as ColumnType) || computedTypes.includes(currentDef.type)))
+        throw new Error(`Computed columns (${computedTypes.join(', ')}) cannot change type; create a new column instead`);
 
-    db.close();
-    metadata.modifiedAt = new Date().toISOString();
-    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+    const db = new Database(dbPath);
+    let conversion: ColumnConversionReport | undefined;
+    let previousValues: Array<[number, any]> | undefined;
 
-    return {
-        name: finalName,
-        type: columns[finalName].type,
-        hidden: columns[finalName].hidden ?? false,
-        index: typeof columns[finalName].index === 'number' ? columns[finalName].index : -1,
-        visualization: columns[finalName].visualization ?? '',
-    };
+    try {
+        let nextDef = { ...currentDef };
+
+        if (typeChanges) {
+            const fromType = currentDef.type;
+            const toType = newType as ColumnType;
+            const isTagType = toType === 'multi_tag' || toType === 'single_tag';
+            const wasTagType = fromType === 'multi_tag' || fromType === 'single_tag';
+            const isRefType = toType === 'table_ref' || toType === 'table_ref_many';
+
+            const rows = db
+                .prepare(`SELECT id, "${oldName}" AS value FROM "${tableName}"`)
+                .all() as Array<{ id: number; value: any }>;
+            previousValues = rows.filter(r => r.value !== null).map(r => [r.id, r.value] as [number, any]);
+
+            conversion = { column: finalName, fromType, toType, dryRun, total: 0, converted: 0, failed: [], registeredTags: [] };
+            const convertedRows: Array<{ id: number; before: any; after: any }> = [];
+
+            for (const row of rows) {
+                if (row.value === null || row.value === undefined) {
+                    convertedRows.push({ id: row.id, before: null, after: null });
+                    continue;
+                }
+                conversion.total++;
+                try {
+                    const after = convertColumnValue(row.value, fromType, toType);
+                    convertedRows.push({ id: row.id, before: row.value, after });
+                    conversion.converted++;
+                } catch (err) {
+                    conversion.failed.push({ rowId: row.id, value: row.value, reason: (err as Error).message });
+                    convertedRows.push({ id: row.id, before: row.value, after: null });
+                }
+            }
+
+            // Tag conversions register every distinct converted value as a tag
+            let tags: TagDef[] = wasTagType && isTagType ? [...(currentDef.tags ?? [])] : [];
+            if (isTagType) {
+                const known = new Set(tags.map(t => t.name));
+                for (const { after } of convertedRows) {
+                    if (typeof after !== 'string') continue;
+                    for (const tag of after.split(' ').filter(Boolean)) {
+                        if (known.has(tag)) continue;
+                        known.add(tag);
+                        tags.push({ name: tag, description: '' });
+                        conversion.registeredTags.push(tag);
+                    }
+                }
+            }
+
+            nextDef = {
+                type: toType,
+                hidden: currentDef.hidden ?? false,
+                index: currentDef.index ?? -1,
+                visualization: currentDef.visualization ?? '',
+                required: currentDef.required ?? 'no',
+                ...(isTagType ? {
+                    tags,
+                    tagLock: wasTagType ? currentDef.tagLock ?? false : false,
+                    linkedList: wasTagType ? currentDef.linkedList ?? '' : '',
+                } : {}),
+                ...(toType === 'custom' ? { rule: currentDef.rule ?? '' } : {}),
+                ...(isRefType ? { linkedTable: '' } : {}),
+            };
+
+            if (dryRun) {
+                conversion.preview = convertedRows
+                    .filter(r => r.before !== null)
+                    .slice(0, 20)
+                    .map(r => ({ rowId: r.id, before: r.before, after: r.after }));
+            } else {
+                // SQLite cannot change a column's type in place: move the old
+                // values aside, add the column back with the new type, refill it.
+                const tempName = `__convert_${oldName}`;
+                const retype = db.transaction(() => {
+                    db.prepare(`ALTER TABLE "${tableName}" RENAME COLUMN "${oldName}" TO "${tempName}"`).run();
+                    db.prepare(`ALTER TABLE "${tableName}" ADD COLUMN "${finalName}" ${realSqlType}`).run();
+                    const update = db.prepare(`UPDATE "${tableName}" SET "${finalName}" = ? WHERE id = ?`);
+                    for (const row of convertedRows) {
+                        if (row.after !== null) update.run(row.after, row.id);
+                    }
+                    db.prepare(`ALTER TABLE "${tableName}" DROP COLUMN "${tempName}"`).run();
+                });
+                retype();
+            }
+        } else if (finalName !== oldName && !dryRun) {
+            db.prepare(`ALTER TABLE ${tableName} RENAME COLUMN ${oldName} TO ${finalName}`).run();
+        }
+
+        if (!dryRun) {
+            if (finalName !== oldName) {
+                renameAuditColumn(db, tableName, oldName, finalName);
+                renameRowTrashColumn(db, tableName, oldName, finalName);
+                renameViewColumn(metadata.tables![tableName], oldName, finalName);
+                renameFormulaColumn(metadata.tables![tableName], oldName, finalName);
+                renameReferenceColumn(metadata, tableName, oldName, finalName);
+                renameTagListColumn(metadata, tableName, oldName, finalName);
+            }
+            delete columns[oldName];
+            columns[finalName] = nextDef;
+            metadata.modifiedAt = new Date().toISOString();
+            fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+
+            if (typeChanges || finalName !== oldName) {
+                recordSchemaOp(db, {
+                    op: 'update_column',
+                    table: tableName,
+                    oldName,
+                    newName: finalName,
+                    oldDef: currentDef,
+                    newDef: nextDef,
+                    ...(previousValues ? { values: previousValues } : {}),
+                }, options);
+            }
+        }
+
+        return {
+            name: finalName,
+            type: nextDef.type,
+            hidden: nextDef.hidden ?? false,
+            index: typeof nextDef.index === 'number' ? nextDef.index : -1,
+            visualization: nextDef.visualization ?? '',
+            required: nextDef.required ?? 'no',
+            ...(nextDef.tags ? { tags: nextDef.tags, tagLock: nextDef.tagLock ?? false } : {}),
+            ...(nextDef.type === 'formula' ? { formula: nextDef.formula ?? '' } : {}),
+            ...(nextDef.lookup ? { lookup: nextDef.lookup } : {}),
+            ...(nextDef.rollup ? { rollup: nextDef.rollup } : {}),
+            ...(conversion ? { conversion } : {}),
+        };
+    } finally {
+        db.close();
+    }
 }
 
 // Changes column visibility
@@ -259,6 +447,7 @@ export function updateColumnVisualization(
 
 /**
  * Sets tagLock on a single_tag or multi_tag column.
+ * Refused while the column is linked to a GlobalTagList — unlink first.
  */
 export function updateTagLock(
     dbId: string,
@@ -274,6 +463,8 @@ export function updateTagLock(
     if (!col) throw new Error(`Column '${columnName}' not found.`);
     if (col.type !== 'single_tag' && col.type !== 'multi_tag')
         throw new Error(`tagLock only applies to single_tag / multi_tag columns.`);
+    if (col.linkedList)
+        throw new Error(`Column '${columnName}' is linked to GlobalTagList '${col.linkedList}'. Unlink it before changing tagLock.`);
 
     col.tagLock = locked;
     metadata.modifiedAt = new Date().toISOString();
@@ -415,6 +606,51 @@ export function unregisterTag(
     fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
 }
 
+/**
+ * Sets (or, with null, removes) a column's default. With `backfill`, rows
+ * where the column is empty get the new default.
+ */
+export function updateColumnDefault(
+    dbId: string,
+    tableName: string,
+    columnName: string,
+    value: ColumnDefault | null,
+    backfill = false
+): ColumnDef & { backfilled?: number } {
+    if (untouchable.includes(columnName))
+        throw new Error(`Column '${columnName}' is protected and cannot have a default.`);
+
+    const { dbPath, metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(metaPath) || !fs.existsSync(dbPath))
+        throw new Error(`Database or metadata file not found for '${dbId}'`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const tableMeta = metadata.tables?.[tableName];
+    const column = tableMeta?.columns?.[columnName];
+    if (!tableMeta || !column) throw new Error(`Column '${columnName}' not found in metadata.`);
+
+    if (value === null) {
+        delete column.default;
+    } else {
+        column.default = checkColumnDefault({ ...column, name: columnName } as ColumnDef, value);
+    }
+
+    let backfilled: number | undefined;
+    if (backfill && column.default !== undefined) {
+        const db = new Database(dbPath);
+        try {
+            backfilled = backfillColumnDefault(db, tableName, columnName, tableMeta);
+        } finally {
+            db.close();
+        }
+    }
+
+    metadata.modifiedAt = new Date().toISOString();
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+
+    return { ...getSingleColumn(dbId, tableName, columnName), ...(backfilled !== undefined ? { backfilled } : {}) };
+}
+
 export function updateColumnRule(
     dbId: string,
     tableName: string,
@@ -441,6 +677,31 @@ export function updateColumnRule(
     fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
 }
 
+/**
+ * Replaces the expression of a formula column, which also clears a broken
+ * mark; other formulas that use the column are checked again.
+ */
+export function updateColumnFormula(dbId: string, tableName: string, rawName: string, formula: string): ColumnDef {
+    const columnName = normalizeName(rawName);
+    const { metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const tableMeta = metadata.tables?.[tableName];
+    if (!tableMeta) throw new Error(`Table '${tableName}' not found in metadata.`);
+
+    const column = tableMeta.columns?.[columnName];
+    if (!column) throw new Error(`Column '${columnName}' not found in metadata.`);
+    if (column.type !== 'formula') throw new Error(`Only formula columns have a formula.`);
+
+    column.formula = checkFormula(metadata, tableName, columnName, formula);
+    checkFormulaColumns(metadata);
+    metadata.modifiedAt = new Date().toISOString();
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+
+    return getSingleColumn(dbId, tableName, columnName);
+}
+
 // Sets the required level on a column
 export function updateColumnRequired(
     dbId: string,
@@ -464,8 +725,8 @@ export function updateColumnRequired(
     return getSingleColumn(dbId, tableName, columnName);
 }
 
-// Deletes an unprotected column
-export function deleteColumn(dbId: string, tableName: string, rawName: string): void {
+// Deletes an unprotected column (journaled: its values are kept so the delete can be undone)
+export function deleteColumn(dbId: string, tableName: string, rawName: string, options: JournalOptions = {}): void {
     const columnName = normalizeName(rawName);
     if (untouchable.includes(columnName))
         throw new Error(`Column '${columnName}' is protected and cannot be deleted.`);
@@ -480,10 +741,20 @@ export function deleteColumn(dbId: string, tableName: string, rawName: string):
         throw new Error(`Column '${columnName}' not found in metadata.`);
 
     const deletedIndex = typeof columns[columnName].index === 'number' ? columns[columnName].index : -1;
+    const droppedViews = dropViewColumn(metadata.tables![tableName], columnName);
 
     const db = new Database(dbPath);
     try {
-        db.prepare(`ALTER TABLE ${tableName} DROP COLUMN ${columnName}`).run();
+        const sqlType = (db.prepare(`PRAGMA table_info("${tableName}")`).all() as Array<{ name: string; type: string }>)
+            .find(c => c.name === columnName)?.type ?? columnTypeMap[columns[columnName].type];
+        const values = (db.prepare(`SELECT id, "${columnName}" AS value FROM "${tableName}" WHERE "${columnName}" IS NOT NULL`)
+            .all() as Array<{ id: number; value: any }>)
+            .map(r => [r.id, r.value] as [number, any]);
+
+        db.transaction(() => {
+            db.prepare(`ALTER TABLE ${tableName} DROP COLUMN ${columnName}`).run();
+            recordSchemaOp(db, { op: 'delete_column', table: tableName, column: columnName, def: columns[columnName], sqlType, values, views: droppedViews }, options);
+        })();
     } catch (err) {
         throw new Error(`Failed to drop column '${columnName}': ${(err as Error).message}`);
     } finally {
@@ -491,6 +762,7 @@ export function deleteColumn(dbId: string, tableName: string, rawName: string):
     }
 
     delete columns[columnName];
+    checkFormulaColumns(metadata);
 
     if (deletedIndex >= 0) {
         for (const [, colDef] of Object.entries(columns)) {
@@ -3,6 +3,8 @@ import fs from 'fs';
 import { DatabaseMetadata } from '../types/types';
 import { columnTypeMap } from '../utils/type-mapping';
 import { DB_FOLDER, getDbPaths } from '../utils/db-paths';
+import { userTablesSql } from '../utils/internal-tables';
+import { retargetTrash, trashDatabase } from './trash-functions';
 
 // Ensures clean database names
 function sanitizeName(name: string): string {
@@ -14,6 +16,11 @@ function sanitizeName(name: string): string {
         .slice(0, 30);
 }
 
+// Builds a database id ({safeName}_{timestamp}) from a display name
+export function makeDatabaseId(displayName: string, timestamp = Date.now()): string {
+    return `${sanitizeName(displayName)}_${timestamp}`;
+}
+
 /**
  * Creates a new database.
  *
@@ -25,9 +32,8 @@ function sanitizeName(name: string): string {
  *       Gallery/
  */
 export function createDatabase(displayName: string): { id: string; filePath: string } {
-    const safeName = sanitizeName(displayName);
     const timestamp = Date.now();
-    const id = `${safeName}_${timestamp}`;
+    const id = makeDatabaseId(displayName, timestamp);
 
     const { folderPath, dbPath, metaPath, galleryPath } = getDbPaths(id);
 
@@ -93,7 +99,7 @@ export function listDatabases({ includeRows = false }: { includeRows?: boolean }
             const db = new Database(dbPath);
 
             const tableNames = (
-                db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'`).all() as { name: string }[]
+                db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND ${userTablesSql}`).all() as { name: string }[]
             ).map(row => row.name);
 
             const tables = tableNames.map((tableName: string) => {
@@ -134,7 +140,7 @@ export function getDatabaseTables(dbId: string) {
     const db = new Database(dbPath);
 
     const tableNames = (
-        db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'`).all() as { name: string }[]
+        db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND ${userTablesSql}`).all() as { name: string }[]
     ).map(row => row.name);
 
     const tables = tableNames.map((tableName: string) => {
@@ -166,9 +172,8 @@ export function renameDatabase(oldId: string, newDisplayName: string): {
         throw new Error(`Database '${oldId}' does not exist.`);
     }
 
-    const safeName = sanitizeName(newDisplayName);
     const timestamp = Date.now();
-    const newId = `${safeName}_${timestamp}`;
+    const newId = makeDatabaseId(newDisplayName, timestamp);
 
     const { folderPath: newFolderPath, dbPath: newDbPath, metaPath: newMetaPath, galleryPath: newGalleryPath } = getDbPaths(newId);
 
@@ -195,6 +200,9 @@ export function renameDatabase(oldId: string, newDisplayName: string): {
     // Remove old folder
     fs.rmSync(oldFolderPath, { recursive: true, force: true });
 
+    // Trashed tables are restored into the database by id
+    retargetTrash(oldId, newId);
+
     return { oldId, newId };
 }
 
@@ -208,8 +216,8 @@ export function setDatabaseHidden(dbId: string, hidden: boolean): void {
     fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2), 'utf-8');
 }
 
-// Deletes the database folder and all its contents
-export function deleteDatabase(dbId: string): { success: boolean; message: string } {
+// Moves the database folder and all its contents to the trash
+export function deleteDatabase(dbId: string): { success: boolean; message: string; trashId?: string } {
     const { folderPath } = getDbPaths(dbId);
 
     if (!fs.existsSync(folderPath)) {
@@ -217,8 +225,8 @@ export function deleteDatabase(dbId: string): { success: boolean; message: strin
     }
 
     try {
-        fs.rmSync(folderPath, { recursive: true, force: true });
-        return { success: true, message: `Database '${dbId}' and all its files were deleted.` };
+        const trashId = trashDatabase(dbId);
+        return { success: true, message: `Database '${dbId}' and all its files were moved to the trash.`, trashId };
     } catch (error: any) {
         return {
             success: false,
@@ -0,0 +1,231 @@
+/**
+ * Export helpers: stream a table's rows out as CSV, TSV, JSON or NDJSON.
+ *
+ * Rows are selected exactly as getTable selects them (hidden / q / s) and
+ * read one at a time with a statement iterator, so an export never holds the
+ * whole table in memory. Values are rendered for people rather than for
+ * re-import of raw storage:
+ *
+ *   date            ISO 8601 string
+ *   boolean         true / false
+ *   link            { displayName, url }    CSV: "displayName (url)"
+ *   table_ref       display column value    (falls back to the row id)
+ *   table_ref_many  array of display values CSV: joined with "; "
+ *   multi_tag       array of tag names      CSV: joined with "; "
+ *   rich_text       HTML, or Markdown with richText: 'markdown'
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import type { ColumnDef, DatabaseMetadata } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { formatCsvRow } from '../utils/csv';
+import { buildTableQuery, readTableColumns, registerSearchFunctions, TableQueryOptions } from './table-functions';
+import { rowSource } from './formula-functions';
+import { exportToMarkdown } from './richtext-functions';
+
+type DatabaseType = InstanceType<typeof Database>;
+type Statement = ReturnType<DatabaseType['prepare']>;
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'ndjson';
+
+export const exportFormats: ExportFormat[] = ['csv', 'tsv', 'json', 'ndjson'];
+
+export interface ExportOptions extends TableQueryOptions {
+    format: ExportFormat;
+    /** Leave out columns whose metadata marks them hidden */
+    skipHiddenColumns?: boolean;
+    /** Render rich_text as HTML (default) or Markdown */
+    richText?: 'html' | 'markdown';
+}
+
+export interface TableExport {
+    chunks: Iterable<string>;
+    /** Ends the export early; safe to call at any point, and more than once */
+    close(): void;
+}
+
+// Display values of linked rows, per table_ref column
+type RefDisplayMap = Map<string, Map<number, string>>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Value rendering
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseIdList(value: any): number[] {
+    if (Array.isArray(value)) return value;
+    try {
+        const ids = JSON.parse(value);
+        return Array.isArray(ids) ? ids : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Renders a stored value in its structured human form (used as-is by the
+ * JSON formats and flattened by toDelimitedField for CSV / TSV).
+ */
+function renderValue(col: ColumnDef, value: any, refs: RefDisplayMap, richText: 'html' | 'markdown'): any {
+    if (value === null || value === undefined) return null;
+
+    switch (col.type) {
+        case 'date': {
+            const date = new Date(value);
+            return isNaN(date.getTime()) ? value : date.toISOString();
+        }
+
+        case 'boolean':
+            return Boolean(value);
+
+        case 'link':
+            try {
+                const { displayName, url } = JSON.parse(value);
+                return { displayName, url };
+            } catch {
+                return value;
+            }
+
+        case 'table_ref':
+            return refs.get(col.name)?.get(value) ?? value;
+
+        case 'table_ref_many':
+            return parseIdList(value).map(id => refs.get(col.name)?.get(id) ?? id);
+
+        case 'multi_tag':
+            return String(value).split(' ').filter(Boolean);
+
+        case 'rich_text':
+            return richText === 'markdown' ? exportToMarkdown(value) : value;
+
+        default:
+            return value;
+    }
+}
+
+// Flattens a rendered value into a single CSV / TSV field
+function toDelimitedField(rendered: any): string {
+    if (rendered === null) return '';
+    if (Array.isArray(rendered)) return rendered.join('; ');
+    if (typeof rendered === 'object') {
+        const { displayName, url } = rendered;
+        return !displayName || displayName === url ? url : `${displayName} (${url})`;
+    }
+    return String(rendered);
+}
+
+// Loads the display column of every table_ref / table_ref_many column's linked table
+function loadRefDisplays(db: DatabaseType, columns: ColumnDef[]): RefDisplayMap {
+    const refs: RefDisplayMap = new Map();
+    for (const col of columns) {
+        if ((col.type !== 'table_ref' && col.type !== 'table_ref_many') || !col.linkedTable || !col.visualization) {
+            continue;
+        }
+        try {
+            const rows = db.prepare(
+                `SELECT id, "${col.visualization}" AS display FROM "${col.linkedTable}"`
+            ).all() as Array<{ id: number; display: any }>;
+            refs.set(col.name, new Map(rows.map(r => [r.id, r.display != null ? String(r.display) : ''])));
+        } catch {
+            // Linked table missing or display column gone — export raw ids
+        }
+    }
+    return refs;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Table export
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Exports a table's rows as text chunks in the requested format.
+ *
+ * The table is opened and validated immediately (so errors surface before a
+ * response is started); rows are then read lazily as `chunks` is consumed.
+ * The connection closes when iteration ends, or on `close()` — which the
+ * caller must call if it may stop before iterating (a client that
+ * disconnects early never starts the iteration).
+ */
+export function exportTable(dbId: string, tableName: string, options: ExportOptions): TableExport {
+    const { format, skipHiddenColumns = false, richText = 'html' } = options;
+    const { dbPath, metaPath } = getDbPaths(dbId);
+
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+    if (!exportFormats.includes(format)) throw new Error(`Unsupported export format '${format}'.`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const db = new Database(dbPath);
+
+    let statement: Statement;
+    let params: any[];
+    let columns: ColumnDef[];
+    let refs: RefDisplayMap;
+
+    try {
+        registerSearchFunctions(db);
+
+        const found = db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name = ?`).get(tableName);
+        if (!found) throw new Error(`Table '${tableName}' does not exist in '${dbId}'`);
+
+        const allColumns = readTableColumns(db, metadata, tableName);
+        columns = allColumns
+            .filter(c => !(skipHiddenColumns && c.hidden))
+            .sort((a, b) => (a.index ?? -1) - (b.index ?? -1));
+        refs = loadRefDisplays(db, columns);
+
+        const query = buildTableQuery(db, tableName, allColumns, options, metadata);
+        let sql = `SELECT * FROM ${rowSource(metadata, tableName)}`;
+        if (query.filters.length) sql += ` WHERE ` + query.filters.join(' AND ');
+        sql += ` ORDER BY ${query.orderBy}`;
+
+        statement = db.prepare(sql);
+        params = query.params;
+    } catch (err) {
+        db.close();
+        throw err;
+    }
+
+    const delimiter = format === 'tsv' ? '\t' : ',';
+
+    function* chunks(): Generator<string> {
+        try {
+            if (format === 'csv' || format === 'tsv') {
+                yield formatCsvRow(columns.map(c => c.name), delimiter);
+            } else if (format === 'json') {
+                yield '[';
+            }
+
+            let first = true;
+            for (const row of statement.iterate(...params) as Iterable<Record<string, any>>) {
+                if (format === 'csv' || format === 'tsv') {
+                    yield formatCsvRow(columns.map(c => toDelimitedField(renderValue(c, row[c.name], refs, richText))), delimiter);
+                    continue;
+                }
+
+                const record: Record<string, any> = {};
+                for (const c of columns) record[c.name] = renderValue(c, row[c.name], refs, richText);
+
+                if (format === 'json') {
+                    yield (first ? '\n' : ',\n') + JSON.stringify(record);
+                } else {
+                    yield JSON.stringify(record) + '\n';
+                }
+                first = false;
+            }
+
+            if (format === 'json') yield first ? ']\n' : '\n]\n';
+        } finally {
+            db.close();
+        }
+    }
+
+    const generator = chunks();
+    return {
+        chunks: generator,
+        close: () => {
+            generator.return(undefined);
+            if (db.open) db.close();
+        },
+    };
+}
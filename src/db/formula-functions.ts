@@ -0,0 +1,129 @@
+/**
+ * Formula columns (type `formula`): values computed from an expression over
+ * the other columns of the same row (syntax in utils/formula.ts), kept in
+ * meta.json as `formula`.
+ *
+ * The SQLite column exists but stays empty. Reads go through rowSource,
+ * which computes every formula (and lookup / rollup, see lookup-functions.ts),
+ * so getTable searches and sorts by them like stored columns. Renaming a
+ * column rewrites the formulas that use it (renameFormulaColumn); after a
+ * delete, checkFormulaColumns marks the formulas that can no longer be
+ * computed with `formulaError` and they read as null.
+ */
+
+import type { DatabaseMetadata } from '../types';
+import { compileFormula, renameFormulaField } from '../utils/formula';
+import { computedTypes } from '../utils/type-mapping';
+import { referenceSql } from './lookup-functions';
+
+type TableMeta = NonNullable<DatabaseMetadata['tables']>[string];
+
+type TableColumn = TableMeta['columns'][string] & { name: string };
+
+function columnsOf(tableMeta: TableMeta | undefined): TableColumn[] {
+    return Object.entries(tableMeta?.columns ?? {}).map(([name, col]) => ({ ...col, name }));
+}
+
+// What a formula sees of a stored column: links by their display name
+function storedValueSql(col: TableColumn): string {
+    const ref = `"${col.name}"`;
+    return col.type === 'link'
+        ? `(CASE WHEN json_valid(${ref}) THEN json_extract(${ref}, '$.displayName') ELSE ${ref} END)`
+        : ref;
+}
+
+/**
+ * SQL computing formula column `name` of `tableName` from the row's values;
+ * formulas, lookups and rollups it refers to are computed in place. Throws
+ * `Invalid formula` when it cannot be computed. `columns` stands in for the
+ * table's columns when a formula is checked before it is stored.
+ */
+export function formulaSql(
+    metadata: DatabaseMetadata,
+    tableName: string,
+    name: string,
+    columns: TableColumn[] = columnsOf(metadata.tables?.[tableName])
+): string {
+    const compile = (col: TableColumn, chain: string[]): string =>
+        compileFormula(col.formula ?? '', ref => {
+            const target = columns.find(c => c.name === ref);
+            if (!target) throw new Error(`unknown column '${ref}'`);
+            if (target.type === 'lookup' || target.type === 'rollup') {
+                try {
+                    return referenceSql(metadata, tableName, target);
+                } catch {
+                    throw new Error(`${target.type} column '${target.name}' cannot be computed`);
+                }
+            }
+            if (target.type !== 'formula') return storedValueSql(target);
+            if ([...chain, col.name].includes(target.name)) throw new Error(`'${target.name}' depends on itself`);
+            try {
+                return `(${compile(target, [...chain, col.name])})`;
+            } catch {
+                throw new Error(`formula column '${target.name}' cannot be computed`);
+            }
+        });
+
+    const col = columns.find(c => c.name === name && c.type === 'formula');
+    if (!col) throw new Error(`Column '${name}' is not a formula column`);
+    return compile(col, []);
+}
+
+// Checks a formula for column `name` against the table's columns; throws `Invalid formula`
+export function checkFormula(metadata: DatabaseMetadata, tableName: string, name: string, formula: unknown): string {
+    if (typeof formula !== 'string' || !formula.trim()) throw new Error('Invalid formula: "formula" must be a non-empty string');
+    const columns = columnsOf(metadata.tables?.[tableName]).filter(c => c.name !== name);
+    formulaSql(metadata, tableName, name, [...columns, { type: 'formula', index: -1, formula, name }]);
+    return formula.trim();
+}
+
+/**
+ * The table to read rows from: the table itself, or with computed columns a
+ * subquery of the same name that computes them. A column that cannot be
+ * computed reads as null.
+ */
+export function rowSource(metadata: DatabaseMetadata, tableName: string): string {
+    const columns = columnsOf(metadata.tables?.[tableName]);
+    if (!columns.some(c => computedTypes.includes(c.type))) return `"${tableName}"`;
+
+    const select = columns.map(col => {
+        if (!computedTypes.includes(col.type)) return `"${col.name}"`;
+        let sql = 'NULL';
+        try {
+            sql = col.type === 'formula'
+                ? formulaSql(metadata, tableName, col.name, columns)
+                : referenceSql(metadata, tableName, col);
+        } catch {
+            // Broken: see checkFormulaColumns
+        }
+        return `${sql} AS "${col.name}"`;
+    });
+    return `(SELECT ${select.join(', ')} FROM "${tableName}") AS "${tableName}"`;
+}
+
+// Follows a column rename in every formula of the table
+export function renameFormulaColumn(tableMeta: TableMeta, oldName: string, newName: string): void {
+    for (const col of Object.values(tableMeta.columns)) {
+        if (col.type === 'formula' && col.formula) col.formula = renameFormulaField(col.formula, oldName, newName);
+    }
+}
+
+/**
+ * Marks each formula of the database broken (`formulaError`) when it can no
+ * longer be computed from the columns there are now, and clears the mark of
+ * those that can again. Run after columns are deleted or restored (a formula
+ * may use a lookup that reads another table).
+ */
+export function checkFormulaColumns(metadata: DatabaseMetadata): void {
+    for (const [tableName, tableMeta] of Object.entries(metadata.tables ?? {})) {
+        for (const [name, col] of Object.entries(tableMeta.columns)) {
+            if (col.type !== 'formula') continue;
+            try {
+                formulaSql(metadata, tableName, name);
+                delete col.formulaError;
+            } catch (err) {
+                col.formulaError = (err as Error).message.replace(/^Invalid formula: /, '');
+            }
+        }
+    }
+}
@@ -0,0 +1,220 @@
+/**
+ * Optional per-table full-text index (SQLite FTS5).
+ *
+ * A table with `fullText: true` in its metadata gets an internal FTS5 table
+ * ("__{table}__fts") indexing title, the plain text of content, and every
+ * string / custom / single_tag / multi_tag column. Row writes keep it in sync
+ * on the same connection. The internal __fulltext table records which
+ * columns each index was built from; when the columns change (added,
+ * renamed, retyped, deleted, undone...) the index is rebuilt on next use, so
+ * schema operations need no hooks beyond table rename and delete.
+ *
+ * getTable uses the index with mode=fulltext (see parseFullTextQuery), ranks
+ * by relevance with s=relevance, and returns highlighted snippets.
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import type { ColumnType, DatabaseMetadata } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { htmlToText } from '../utils/html-text';
+import { FULLTEXT_STATE_TABLE, fullTextTableName } from '../utils/internal-tables';
+
+type DatabaseType = InstanceType<typeof Database>;
+type TableMeta = NonNullable<DatabaseMetadata['tables']>[string];
+
+// Column types whose values are indexed besides title and content
+const indexedTypes: ColumnType[] = ['string', 'custom', 'single_tag', 'multi_tag'];
+
+// Snippet markers and length (in tokens)
+const HIGHLIGHT_OPEN = '<mark>';
+const HIGHLIGHT_CLOSE = '</mark>';
+const SNIPPET_TOKENS = 12;
+
+function ensureStateTable(db: DatabaseType): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS ${FULLTEXT_STATE_TABLE} (
+            table_name TEXT PRIMARY KEY,
+            columns TEXT NOT NULL
+        );
+    `);
+}
+
+function hasStateTable(db: DatabaseType): boolean {
+    return !!db.prepare(`SELECT 1 FROM sqlite_master WHERE type='table' AND name = ?`).get(FULLTEXT_STATE_TABLE);
+}
+
+// Indexed columns of a table, in index order: title, content, then by column index
+export function fullTextColumns(tableMeta: TableMeta): string[] {
+    const others = Object.entries(tableMeta.columns)
+        .filter(([name, def]) => name !== 'title' && indexedTypes.includes(def.type))
+        .sort(([, a], [, b]) => (a.index ?? -1) - (b.index ?? -1))
+        .map(([name]) => name);
+    return ['title', 'content', ...others];
+}
+
+// What the index is built from: column names and types, in order
+function signatureOf(tableMeta: TableMeta): string {
+    return JSON.stringify(fullTextColumns(tableMeta).map(name => [name, tableMeta.columns[name]?.type ?? 'string']));
+}
+
+function indexedValue(tableMeta: TableMeta, column: string, value: any): string {
+    if (value === null || value === undefined) return '';
+    return tableMeta.columns[column]?.type === 'rich_text' ? htmlToText(String(value)) : String(value);
+}
+
+function insertIndexRows(db: DatabaseType, tableName: string, tableMeta: TableMeta, rows: Array<Record<string, any>>): void {
+    const columns = fullTextColumns(tableMeta);
+    const stmt = db.prepare(`
+        INSERT INTO "${fullTextTableName(tableName)}" (rowid, ${columns.map((_, i) => `f${i}`).join(', ')})
+        VALUES (?, ${columns.map(() => '?').join(', ')})
+    `);
+    for (const row of rows) {
+        stmt.run(row.id, ...columns.map(col => indexedValue(tableMeta, col, row[col])));
+    }
+}
+
+// Drops a table's index, if it has one
+export function dropFullTextIndex(db: DatabaseType, tableName: string): void {
+    db.exec(`DROP TABLE IF EXISTS "${fullTextTableName(tableName)}"`);
+    if (hasStateTable(db)) db.prepare(`DELETE FROM ${FULLTEXT_STATE_TABLE} WHERE table_name = ?`).run(tableName);
+}
+
+// Rebuilds a table's index from scratch
+function rebuildFullTextIndex(db: DatabaseType, tableName: string, tableMeta: TableMeta): void {
+    const columns = fullTextColumns(tableMeta);
+    db.transaction(() => {
+        dropFullTextIndex(db, tableName);
+        db.exec(`
+            CREATE VIRTUAL TABLE "${fullTextTableName(tableName)}"
+            USING fts5(${columns.map((_, i) => `f${i}`).join(', ')}, tokenize = 'unicode61 remove_diacritics 2')
+        `);
+        const rows = db.prepare(`SELECT * FROM "${tableName}"`).all() as Array<Record<string, any>>;
+        insertIndexRows(db, tableName, tableMeta, rows);
+        ensureStateTable(db);
+        db.prepare(`INSERT INTO ${FULLTEXT_STATE_TABLE} (table_name, columns) VALUES (?, ?)`).run(tableName, signatureOf(tableMeta));
+    })();
+}
+
+/**
+ * Makes sure an enabled table's index exists and matches its columns,
+ * rebuilding it if not. Returns true if it was rebuilt.
+ */
+export function ensureFullTextIndex(db: DatabaseType, tableName: string, tableMeta: TableMeta): boolean {
+    const state = hasStateTable(db)
+        ? db.prepare(`SELECT columns FROM ${FULLTEXT_STATE_TABLE} WHERE table_name = ?`).get(tableName) as { columns: string } | undefined
+        : undefined;
+    if (state?.columns === signatureOf(tableMeta)) return false;
+    rebuildFullTextIndex(db, tableName, tableMeta);
+    return true;
+}
+
+/**
+ * Re-indexes one row after it was created or changed (removes it if it no
+ * longer exists). A no-op for tables without full-text search.
+ */
+export function syncFullTextRow(db: DatabaseType, tableName: string, tableMeta: TableMeta, rowId: number): void {
+    if (!tableMeta.fullText) return;
+    if (ensureFullTextIndex(db, tableName, tableMeta)) return;
+
+    db.prepare(`DELETE FROM "${fullTextTableName(tableName)}" WHERE rowid = ?`).run(rowId);
+    const row = db.prepare(`SELECT * FROM "${tableName}" WHERE id = ?`).get(rowId) as Record<string, any> | undefined;
+    if (row) insertIndexRows(db, tableName, tableMeta, [row]);
+}
+
+// Removes a deleted row from the table's index, if it has one
+export function removeFullTextRow(db: DatabaseType, tableName: string, rowId: number): void {
+    const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type='table' AND name = ?`).get(fullTextTableName(tableName));
+    if (exists) db.prepare(`DELETE FROM "${fullTextTableName(tableName)}" WHERE rowid = ?`).run(rowId);
+}
+
+// Moves a renamed table's index to its new name
+export function renameFullTextIndex(db: DatabaseType, oldName: string, newName: string): void {
+    const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type='table' AND name = ?`).get(fullTextTableName(oldName));
+    if (!exists) return;
+    db.exec(`ALTER TABLE "${fullTextTableName(oldName)}" RENAME TO "${fullTextTableName(newName)}"`);
+    db.prepare(`UPDATE ${FULLTEXT_STATE_TABLE} SET table_name = ? WHERE table_name = ?`).run(newName, oldName);
+}
+
+/**
+ * SQL condition (on the listed table's `id`) for rows matching an FTS5
+ * expression, and the relevance expression to sort by (best first when
+ * sorted ascending). The match is inlined in the ORDER BY expression so it
+ * needs no bound parameter.
+ */
+export function fullTextFilter(tableName: string, match: string): { where: string; relevance: string } {
+    const fts = `"${fullTextTableName(tableName)}"`;
+    const literal = `'${match.replace(/'/g, "''")}'`;
+    return {
+        where: `id IN (SELECT rowid FROM ${fts} WHERE ${fts} MATCH ?)`,
+        relevance: `(SELECT rank FROM ${fts} WHERE ${fts} MATCH ${literal} AND rowid = "${tableName}".id)`,
+    };
+}
+
+/**
+ * Highlighted snippets for the given rows: { rowId: { column: snippet } },
+ * listing only the columns that matched. Matches are wrapped in <mark>.
+ */
+export function readSnippets(
+    db: DatabaseType,
+    tableName: string,
+    tableMeta: TableMeta,
+    match: string,
+    rowIds: number[]
+): Record<number, Record<string, string>> {
+    const highlights: Record<number, Record<string, string>> = {};
+    if (rowIds.length === 0) return highlights;
+
+    const columns = fullTextColumns(tableMeta);
+    const fts = `"${fullTextTableName(tableName)}"`;
+    const snippets = columns
+        .map((_, i) => `snippet(${fts}, ${i}, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}', '…', ${SNIPPET_TOKENS}) AS s${i}`)
+        .join(', ');
+    const rows = db.prepare(`
+        SELECT rowid AS id, ${snippets} FROM ${fts}
+        WHERE ${fts} MATCH ? AND rowid IN (${rowIds.map(() => '?').join(', ')})
+    `).all(match, ...rowIds) as Array<Record<string, any>>;
+
+    for (const row of rows) {
+        const matched: Record<string, string> = {};
+        columns.forEach((col, i) => {
+            if (typeof row[`s${i}`] === 'string' && row[`s${i}`].includes(HIGHLIGHT_OPEN)) matched[col] = row[`s${i}`];
+        });
+        highlights[row.id] = matched;
+    }
+    return highlights;
+}
+
+/**
+ * Turns full-text search on or off for a table. Turning it on builds the
+ * index; turning it off drops it.
+ */
+export function setFullTextIndex(dbId: string, tableName: string, enabled: boolean) {
+    const { dbPath, metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const tableMeta = metadata.tables?.[tableName];
+    if (!tableMeta) throw new Error(`Table '${tableName}' not found.`);
+
+    const db = new Database(dbPath);
+    let indexedRows = 0;
+    try {
+        if (enabled) {
+            rebuildFullTextIndex(db, tableName, tableMeta);
+            indexedRows = (db.prepare(`SELECT COUNT(*) AS count FROM "${fullTextTableName(tableName)}"`).get() as { count: number }).count;
+        } else {
+            dropFullTextIndex(db, tableName);
+        }
+    } finally {
+        db.close();
+    }
+
+    tableMeta.fullText = enabled;
+    metadata.modifiedAt = new Date().toISOString();
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+
+    return { table: tableName, fullText: enabled, columns: enabled ? fullTextColumns(tableMeta) : [], indexedRows };
+}
+
@@ -0,0 +1,303 @@
+/**
+ * Import helpers: load rows from external files into an existing table.
+ *
+ * CSV Import
+ * ──────────
+ *   1. Each header gets a ColumnType inferred from its values (see
+ *      inferColumnType below).
+ *   2. Headers are matched to the table's columns with buildColumnMapping —
+ *      the same structure the /mapping endpoint returns — restricted to name
+ *      matches (exact or fuzzy) and manual overrides.
+ *   3. Unmatched headers become new columns of the inferred type (unless
+ *      createMissing is false). New tag columns get their values registered.
+ *   4. Every row goes through the normal insert path (validateColumnValue,
+ *      required checks, table_ref checks) inside one transaction; a failing
+ *      row is skipped and reported, the rest are kept.
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import type { ColumnDef, ColumnType, DatabaseMetadata } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { normalizeName } from '../utils/normalize-name';
+import { parseCsv } from '../utils/csv';
+import { createColumn, getAllColumns } from './column-functions';
+import { buildColumnMapping, convertColumnValue, CompatibilityLevel } from './transfer-functions';
+import { insertRow } from './row-functions';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CsvColumnPlan {
+    /** Header as written in the file */
+    header: string;
+    /** Type inferred from the header's values */
+    inferredType: ColumnType;
+    /** Table column receiving the values, or null if ignored */
+    column: string | null;
+    /** Type of the receiving column */
+    columnType: ColumnType | null;
+    /** True if the column was created by this import */
+    created: boolean;
+    compatibility: CompatibilityLevel;
+    notes?: string;
+}
+
+export interface CsvImportResult {
+    imported: number;
+    skipped: number;
+    errors: string[];
+    columns: CsvColumnPlan[];
+}
+
+export interface CsvImportOptions {
+    /** Field delimiter (default ',') */
+    delimiter?: string;
+    /** Create columns for headers that match nothing (default true) */
+    createMissing?: boolean;
+    /** Manual pinning: { targetColumn: csvHeader } */
+    mapping?: Record<string, string>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Type inference
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** At most this many distinct values for a column to be inferred as tags */
+const TAG_MAX_DISTINCT = 12;
+/** Separators that split a cell into several multi_tag values */
+const TAG_SEPARATORS = /\s*[;|]\s*/;
+
+const isBoolean = (v: string) => /^(true|false|yes|no)$/i.test(v);
+const isInteger = (v: string) => /^-?\d+$/.test(v);
+const isFloat = (v: string) => /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(v);
+const isDate = (v: string) =>
+    /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(v) && !isNaN(Date.parse(v));
+const isUrl = (v: string) => /^https?:\/\/\S+$/i.test(v);
+
+/**
+ * Infers a ColumnType from a column's raw CSV values. Empty cells are
+ * ignored; a column with no values at all is a string.
+ *
+ *   boolean    – every value is true/false/yes/no
+ *   integer    – every value is a whole number
+ *   float      – every value is numeric
+ *   date       – every value is an ISO date (YYYY-MM-DD, optional time)
+ *   link       – every value is an http(s) URL
+ *   multi_tag  – values hold ';' or '|' separated parts with few distinct parts
+ *   single_tag – few distinct values, each repeated on average
+ *   string     – anything else
+ */
+export function inferColumnType(rawValues: string[]): ColumnType {
+    const values = rawValues.map(v => v.trim()).filter(v => v !== '');
+    if (values.length === 0) return 'string';
+
+    if (values.every(isBoolean)) return 'boolean';
+    if (values.every(isInteger)) return 'integer';
+    if (values.every(isFloat)) return 'float';
+    if (values.every(isDate)) return 'date';
+    if (values.every(isUrl)) return 'link';
+
+    const shortValues = values.every(v => v.length <= 40);
+    if (shortValues && values.some(v => TAG_SEPARATORS.test(v))) {
+        const parts = new Set(values.flatMap(v => v.split(TAG_SEPARATORS)).map(p => normalizeName(p)).filter(Boolean));
+        if (parts.size <= TAG_MAX_DISTINCT) return 'multi_tag';
+    }
+
+    const distinct = new Set(values.map(v => normalizeName(v)));
+    if (shortValues && distinct.size <= TAG_MAX_DISTINCT && values.length >= distinct.size * 2) {
+        return 'single_tag';
+    }
+
+    return 'string';
+}
+
+/**
+ * Parses a raw CSV cell into the stored representation of its inferred type.
+ * Returns null for empty cells.
+ */
+function parseCsvValue(raw: string, type: ColumnType): any {
+    const value = raw.trim();
+    if (value === '') return null;
+
+    switch (type) {
+        case 'boolean':
+            return /^(true|yes)$/i.test(value) ? 1 : 0;
+        case 'integer':
+        case 'float':
+            return Number(value);
+        case 'date':
+            return Date.parse(value);
+        case 'link':
+            return JSON.stringify({ displayName: value, url: value });
+        case 'multi_tag':
+            return Array.from(new Set(value.split(TAG_SEPARATORS).map(p => normalizeName(p)).filter(Boolean))).sort().join(' ');
+        case 'single_tag':
+            return normalizeName(value);
+        default:
+            return raw;
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV import
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Imports CSV text into an existing table. The first line must be a header.
+ */
+export function importCsv(
+    dbId: string,
+    tableName: string,
+    csvText: string,
+    options: CsvImportOptions = {}
+): CsvImportResult {
+    const { delimiter = ',', createMissing = true, mapping = {} } = options;
+    const { dbPath, metaPath } = getDbPaths(dbId);
+
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+
+    const [headerRow, ...dataRows] = parseCsv(csvText, delimiter);
+    if (!headerRow || headerRow.every(h => h.trim() === '')) throw new Error('CSV file has no header row.');
+
+    // Describe each CSV header as a pseudo source column
+    const seen = new Set<string>();
+    const sourceColumns: Array<ColumnDef & { header: string; position: number }> = headerRow.map((header, position) => {
+        const name = normalizeName(header);
+        if (!name) throw new Error(`CSV header at position ${position + 1} is empty.`);
+        if (seen.has(name)) throw new Error(`CSV header '${header}' appears more than once.`);
+        seen.add(name);
+        return {
+            name,
+            header,
+            position,
+            type: inferColumnType(dataRows.map(r => r[position] ?? '')),
+            index: position,
+        };
+    });
+
+    // Manual pins are given by header; buildColumnMapping expects column names
+    const overrides: Record<string, string> = {};
+    for (const [target, header] of Object.entries(mapping)) {
+        overrides[normalizeName(target)] = normalizeName(header);
+    }
+
+    const targetColumns = getAllColumns(dbId, tableName);
+    const entries = buildColumnMapping(sourceColumns, targetColumns, overrides, { requireNameMatch: true, stringByName: true })
+        .filter(m => m.sourceColumn && m.compatibility !== 'none');
+
+    // Every row needs a title: fall back to the first header
+    if (!entries.some(m => m.targetColumn === 'title')) {
+        const first = sourceColumns[0];
+        entries.push({
+            targetColumn: 'title',
+            targetType: 'string',
+            sourceColumn: first.name,
+            sourceType: first.type,
+            compatibility: 'string_catch',
+            notes: `No 'title' header; using '${first.header}' as title`,
+        });
+    }
+
+    const plans: CsvColumnPlan[] = [];
+    const usedSources = new Set(entries.map(m => m.sourceColumn));
+    const existingNames = new Set(targetColumns.map(c => c.name));
+
+    for (const entry of entries) {
+        const src = sourceColumns.find(c => c.name === entry.sourceColumn)!;
+        plans.push({
+            header: src.header,
+            inferredType: src.type,
+            column: entry.targetColumn,
+            columnType: entry.targetType,
+            created: false,
+            compatibility: entry.compatibility,
+            ...(entry.notes ? { notes: entry.notes } : {}),
+        });
+    }
+
+    for (const src of sourceColumns) {
+        if (usedSources.has(src.name)) continue;
+        if (!createMissing || existingNames.has(src.name)) {
+            plans.push({
+                header: src.header,
+                inferredType: src.type,
+                column: null,
+                columnType: null,
+                created: false,
+                compatibility: 'none',
+                notes: existingNames.has(src.name)
+                    ? `Column '${src.name}' exists but cannot hold ${src.type} values; header ignored`
+                    : 'No matching column; header ignored',
+            });
+            continue;
+        }
+        createColumn(dbId, tableName, src.name, src.type);
+        plans.push({
+            header: src.header,
+            inferredType: src.type,
+            column: src.name,
+            columnType: src.type,
+            created: true,
+            compatibility: 'exact',
+        });
+    }
+
+    // Register the values of newly created tag columns
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const tableMeta = metadata.tables?.[tableName];
+    if (!tableMeta) throw new Error(`Table '${tableName}' not found.`);
+
+    let metaChanged = false;
+    for (const plan of plans) {
+        if (!plan.created || (plan.columnType !== 'single_tag' && plan.columnType !== 'multi_tag')) continue;
+        const src = sourceColumns.find(c => c.header === plan.header)!;
+        const tags = new Set<string>();
+        for (const row of dataRows) {
+            const parsed = parseCsvValue(row[src.position] ?? '', plan.columnType);
+            if (parsed) parsed.split(' ').forEach((t: string) => tags.add(t));
+        }
+        tableMeta.columns[plan.column!].tags = [...tags].sort().map(name => ({ name, description: '' }));
+        metaChanged = true;
+    }
+    if (metaChanged) {
+        metadata.modifiedAt = new Date().toISOString();
+        fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+    }
+
+    const result: CsvImportResult = { imported: 0, skipped: 0, errors: [], columns: plans };
+    const activePlans = plans.filter(p => p.column !== null);
+    const db = new Database(dbPath);
+
+    try {
+        const importAll = db.transaction(() => {
+            dataRows.forEach((row, i) => {
+                // Line numbers are 1-based and count the header
+                const line = i + 2;
+                try {
+                    const data: Record<string, any> = {};
+                    for (const plan of activePlans) {
+                        const src = sourceColumns.find(c => c.header === plan.header)!;
+                        const parsed = parseCsvValue(row[src.position] ?? '', src.type);
+                        if (parsed === null) continue;
+                        data[plan.column!] = plan.columnType === src.type
+                            ? parsed
+                            : convertColumnValue(parsed, src.type, plan.columnType!);
+                    }
+                    db.transaction(() => insertRow(db, tableName, metadata, data))();
+                    result.imported++;
+                } catch (err: any) {
+                    result.skipped++;
+                    result.errors.push(`Line ${line}: ${err.message}`);
+                }
+            });
+        });
+        importAll();
+    } finally {
+        db.close();
+    }
+
+    return result;
+}
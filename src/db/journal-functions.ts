@@ -0,0 +1,185 @@
+/**
+ * Schema journal: the last schema operations of a database, kept so they can
+ * be undone and redone (see undo-functions.ts).
+ *
+ * Entries live in the internal __schema_journal table. Each stores what the
+ * operation destroyed or replaced — the column/table metadata and, where
+ * SQLite data is lost, the values themselves:
+ *
+ *   delete_column  column metadata, SQL type, every (id, value) pair
+ *   update_column  old/new name and metadata; old values if the type changed
+ *   delete_table   the id of the trash item holding the table (see
+ *                  trash-functions.ts), which has everything else
+ *   rename_table   old and new name
+ *
+ * Entries are 'done' or 'undone'. A new operation discards every undone entry
+ * (the redo branch); only the latest SCHEMA_JOURNAL_LIMIT entries are kept.
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import type { DatabaseMetadata } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { JOURNAL_TABLE } from '../utils/internal-tables';
+import type { DroppedViewColumn } from './view-functions';
+
+type DatabaseType = InstanceType<typeof Database>;
+type TableMeta = NonNullable<DatabaseMetadata['tables']>[string];
+export type ColumnMeta = TableMeta['columns'][string];
+
+/** Number of undoable operations kept per database */
+export const SCHEMA_JOURNAL_LIMIT = 20;
+
+export type SchemaOpPayload =
+    | {
+        op: 'delete_column';
+        table: string;
+        column: string;
+        def: ColumnMeta;
+        sqlType: string;
+        values: Array<[number, any]>;
+        /** What the delete removed from the table's saved views */
+        views?: DroppedViewColumn[];
+    }
+    | {
+        op: 'update_column';
+        table: string;
+        oldName: string;
+        newName: string;
+        oldDef: ColumnMeta;
+        newDef: ColumnMeta;
+        /** Present when the type changed: the values before conversion */
+        values?: Array<[number, any]>;
+    }
+    | {
+        op: 'delete_table';
+        table: string;
+        trashId: string;
+    }
+    | {
+        op: 'rename_table';
+        oldName: string;
+        newName: string;
+    };
+
+export type SchemaOp = SchemaOpPayload['op'];
+
+export interface SchemaJournalEntry {
+    id: number;
+    op: SchemaOp;
+    description: string;
+    status: 'done' | 'undone';
+    createdAt: string;
+    payload: SchemaOpPayload;
+}
+
+/**
+ * How a schema operation is journaled:
+ *   (default)    recorded as a new entry
+ *   redoOf       replaces the payload of an undone entry that is being redone
+ *   skipJournal  not recorded (used while undoing)
+ */
+export interface JournalOptions {
+    redoOf?: number;
+    skipJournal?: boolean;
+}
+
+function ensureJournalTable(db: DatabaseType): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS ${JOURNAL_TABLE} (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            op TEXT NOT NULL,
+            description TEXT NOT NULL,
+            payload TEXT NOT NULL,
+            status TEXT NOT NULL,
+            created_at INTEGER NOT NULL
+        );
+    `);
+}
+
+function toEntry(row: any): SchemaJournalEntry {
+    return {
+        id: row.id,
+        op: row.op,
+        description: row.description,
+        status: row.status,
+        createdAt: new Date(row.created_at).toISOString(),
+        payload: JSON.parse(row.payload),
+    };
+}
+
+// Human-readable summary of an operation
+export function describeSchemaOp(payload: SchemaOpPayload): string {
+    switch (payload.op) {
+        case 'delete_column':
+            return `Deleted column '${payload.column}' from '${payload.table}'`;
+        case 'update_column': {
+            const parts: string[] = [];
+            if (payload.oldName !== payload.newName) parts.push(`renamed to '${payload.newName}'`);
+            if (payload.oldDef.type !== payload.newDef.type) parts.push(`type changed from ${payload.oldDef.type} to ${payload.newDef.type}`);
+            return `Column '${payload.oldName}' in '${payload.table}' ${parts.join(', ')}`;
+        }
+        case 'delete_table':
+            return `Deleted table '${payload.table}'`;
+        case 'rename_table':
+            return `Renamed table '${payload.oldName}' to '${payload.newName}'`;
+    }
+}
+
+/**
+ * Records a schema operation on an open connection, per `options` (see
+ * JournalOptions). A new entry discards the redo branch and trims the journal.
+ */
+export function recordSchemaOp(db: DatabaseType, payload: SchemaOpPayload, options: JournalOptions = {}): void {
+    if (options.skipJournal) return;
+    ensureJournalTable(db);
+
+    if (options.redoOf !== undefined) {
+        db.prepare(`UPDATE ${JOURNAL_TABLE} SET payload = ?, status = 'done' WHERE id = ?`)
+            .run(JSON.stringify(payload), options.redoOf);
+        return;
+    }
+
+    db.prepare(`DELETE FROM ${JOURNAL_TABLE} WHERE status = 'undone'`).run();
+    db.prepare(`
+        INSERT INTO ${JOURNAL_TABLE} (op, description, payload, status, created_at)
+        VALUES (?, ?, ?, 'done', ?)
+    `).run(payload.op, describeSchemaOp(payload), JSON.stringify(payload), Date.now());
+
+    db.prepare(`
+        DELETE FROM ${JOURNAL_TABLE}
+        WHERE id NOT IN (SELECT id FROM ${JOURNAL_TABLE} ORDER BY id DESC LIMIT ?)
+    `).run(SCHEMA_JOURNAL_LIMIT);
+}
+
+// Latest done entry (next to undo) and earliest undone entry (next to redo)
+export function readJournalEnds(db: DatabaseType): { undo: SchemaJournalEntry | null; redo: SchemaJournalEntry | null } {
+    ensureJournalTable(db);
+    const undo = db.prepare(`SELECT * FROM ${JOURNAL_TABLE} WHERE status = 'done' ORDER BY id DESC LIMIT 1`).get();
+    const redo = db.prepare(`SELECT * FROM ${JOURNAL_TABLE} WHERE status = 'undone' ORDER BY id ASC LIMIT 1`).get();
+    return { undo: undo ? toEntry(undo) : null, redo: redo ? toEntry(redo) : null };
+}
+
+export function markJournalEntry(db: DatabaseType, entryId: number, status: 'done' | 'undone'): void {
+    db.prepare(`UPDATE ${JOURNAL_TABLE} SET status = ? WHERE id = ?`).run(status, entryId);
+}
+
+// GET the journal of a database, newest first (payloads left out)
+export function listSchemaJournal(dbId: string) {
+    const { dbPath } = getDbPaths(dbId);
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+
+    const db = new Database(dbPath);
+    try {
+        ensureJournalTable(db);
+        const entries: SchemaJournalEntry[] = db.prepare(`SELECT * FROM ${JOURNAL_TABLE} ORDER BY id DESC`).all().map(toEntry);
+        return {
+            limit: SCHEMA_JOURNAL_LIMIT,
+            canUndo: entries.some(e => e.status === 'done'),
+            canRedo: entries.some(e => e.status === 'undone'),
+            entries: entries.map(({ payload, ...entry }) => entry),
+        };
+    } finally {
+        db.close();
+    }
+}
@@ -0,0 +1,195 @@
+/**
+ * Lookup and rollup columns: values read from related rows through
+ * table_ref / table_ref_many columns.
+ *
+ *   lookup   { via, field }             `field` of the row the table_ref
+ *                                       column `via` points to
+ *   rollup   { via, field, fn }         `fn` over `field` of the rows `via`
+ *                                       points to
+ *   rollup   { table, via, field, fn }  `fn` over `field` of the rows of
+ *                                       `table` whose column `via` points
+ *                                       back to the row
+ *
+ * Like formulas they are computed when rows are read (see rowSource), as
+ * subqueries on the related rows. So they follow edits to those rows, and a
+ * row deleted through cascadeNullOnRowDelete simply stops being related.
+ * A lookup or rollup whose columns or tables are gone reads as null.
+ */
+
+import type { ColumnType, DatabaseMetadata, LookupDef, RollupDef, RollupFunction } from '../types';
+import { computedTypes } from '../utils/type-mapping';
+
+type TableMeta = NonNullable<DatabaseMetadata['tables']>[string];
+type ColumnMeta = TableMeta['columns'][string];
+
+export const ROLLUP_FUNCTIONS: RollupFunction[] = ['count', 'sum', 'avg', 'min', 'max', 'concat'];
+
+// Column types sum / avg accept
+const summableTypes: ColumnType[] = ['integer', 'float', 'boolean', 'rating', 'advanced_rating'];
+
+function findColumn(metadata: DatabaseMetadata, tableName: string, name: string): ColumnMeta {
+    const tableMeta = metadata.tables?.[tableName];
+    if (!tableMeta) throw new Error(`table '${tableName}' does not exist`);
+    const col = tableMeta.columns[name];
+    if (!col) throw new Error(`column '${name}' does not exist in '${tableName}'`);
+    return col;
+}
+
+// The ids a table_ref_many value holds, as rows of json_each
+function jsonIds(ref: string): string {
+    return `json_each(CASE WHEN json_valid(${ref}) THEN ${ref} ELSE '[]' END)`;
+}
+
+/**
+ * The rows related to a row of `tableName` (as `__ref` of the returned
+ * table): those its column `via` points to or, with `reverseTable`, those of
+ * that table whose column `via` points to it.
+ */
+function relatedRows(metadata: DatabaseMetadata, tableName: string, via: string, reverseTable?: string): { table: string; where: string; many: boolean } {
+    const viaTable = reverseTable ?? tableName;
+    const viaCol = findColumn(metadata, viaTable, via);
+    if (viaCol.type !== 'table_ref' && viaCol.type !== 'table_ref_many') {
+        throw new Error(`'${via}' is not a table_ref or table_ref_many column`);
+    }
+    const many = viaCol.type === 'table_ref_many';
+
+    if (reverseTable) {
+        if (viaCol.linkedTable !== tableName) throw new Error(`'${reverseTable}.${via}' does not reference '${tableName}'`);
+        const own = `"${tableName}".id`;
+        return {
+            table: reverseTable,
+            where: many ? `${own} IN (SELECT value FROM ${jsonIds(`__ref."${via}"`)})` : `__ref."${via}" = ${own}`,
+            many,
+        };
+    }
+
+    if (!viaCol.linkedTable || !metadata.tables?.[viaCol.linkedTable]) throw new Error(`'${via}' does not reference a table`);
+    const ref = `"${tableName}"."${via}"`;
+    return {
+        table: viaCol.linkedTable,
+        where: many ? `__ref.id IN (SELECT value FROM ${jsonIds(ref)})` : `__ref.id = ${ref}`,
+        many,
+    };
+}
+
+// A stored column of the related table
+function relatedField(metadata: DatabaseMetadata, table: string, field: string): ColumnMeta {
+    const col = findColumn(metadata, table, field);
+    if (computedTypes.includes(col.type)) throw new Error(`'${field}' is a ${col.type} column; only stored columns can be read`);
+    return col;
+}
+
+function lookupSql(metadata: DatabaseMetadata, tableName: string, def: LookupDef): string {
+    const related = relatedRows(metadata, tableName, def.via);
+    if (related.many) throw new Error(`'${def.via}' holds many rows; use a rollup`);
+    relatedField(metadata, related.table, def.field);
+    return `(SELECT __ref."${def.field}" FROM "${related.table}" AS __ref WHERE ${related.where})`;
+}
+
+function rollupSql(metadata: DatabaseMetadata, tableName: string, def: RollupDef): string {
+    const related = relatedRows(metadata, tableName, def.via, def.table);
+    const from = `FROM "${related.table}" AS __ref WHERE ${related.where}`;
+
+    if (def.fn === 'count' && !def.field) return `(SELECT COUNT(*) ${from})`;
+    if (!def.field) throw new Error(`${def.fn} needs a "field"`);
+    const col = relatedField(metadata, related.table, def.field);
+    const value = `__ref."${def.field}"`;
+
+    switch (def.fn) {
+        case 'count':
+            return `(SELECT COUNT(${value}) ${from})`;
+        case 'sum':
+        case 'avg':
+            if (!summableTypes.includes(col.type)) throw new Error(`${def.fn} needs a numeric field, '${def.field}' is ${col.type}`);
+            return def.fn === 'sum' ? `(SELECT TOTAL(${value}) ${from})` : `(SELECT AVG(${value}) ${from})`;
+        case 'min':
+        case 'max':
+            return `(SELECT ${def.fn.toUpperCase()}(${value}) ${from})`;
+        case 'concat': {
+            // Links by display name, in the order the related rows were created
+            const text = col.type === 'link'
+                ? `CASE WHEN json_valid(${value}) THEN json_extract(${value}, '$.displayName') ELSE ${value} END`
+                : value;
+            return `(SELECT GROUP_CONCAT(v, ', ') FROM (SELECT ${text} AS v ${from} AND ${value} IS NOT NULL AND ${value} != '' ORDER BY __ref.id))`;
+        }
+        default:
+            throw new Error(`unknown function '${def.fn}' (use ${ROLLUP_FUNCTIONS.join(', ')})`);
+    }
+}
+
+/**
+ * SQL computing a lookup or rollup column of `tableName`; throws when its
+ * columns or tables are gone.
+ */
+export function referenceSql(metadata: DatabaseMetadata, tableName: string, col: ColumnMeta): string {
+    if (col.type === 'lookup' && col.lookup) return lookupSql(metadata, tableName, col.lookup);
+    if (col.type === 'rollup' && col.rollup) return rollupSql(metadata, tableName, col.rollup);
+    throw new Error(`not a configured lookup or rollup column`);
+}
+
+// Checks a lookup definition against the tables; throws `Invalid lookup`
+export function checkLookup(metadata: DatabaseMetadata, tableName: string, def: unknown): LookupDef {
+    const input = (typeof def === 'object' && def !== null ? def : {}) as Partial<LookupDef>;
+    if (typeof input.via !== 'string' || typeof input.field !== 'string') {
+        throw new Error('Invalid lookup: expected { "via": table_ref column, "field": column of the referenced table }');
+    }
+    const lookup: LookupDef = { via: input.via, field: input.field };
+    try {
+        lookupSql(metadata, tableName, lookup);
+    } catch (err) {
+        throw new Error(`Invalid lookup: ${(err as Error).message}`);
+    }
+    return lookup;
+}
+
+// Checks a rollup definition against the tables; throws `Invalid rollup`
+export function checkRollup(metadata: DatabaseMetadata, tableName: string, def: unknown): RollupDef {
+    const input = (typeof def === 'object' && def !== null ? def : {}) as Partial<RollupDef>;
+    if (typeof input.via !== 'string' || !ROLLUP_FUNCTIONS.includes(input.fn as RollupFunction)) {
+        throw new Error(`Invalid rollup: expected { "via", "fn": ${ROLLUP_FUNCTIONS.join(' | ')}, "field"?, "table"? }`);
+    }
+    if (input.field !== undefined && typeof input.field !== 'string') throw new Error('Invalid rollup: "field" must be a string');
+    if (input.table !== undefined && typeof input.table !== 'string') throw new Error('Invalid rollup: "table" must be a string');
+
+    const rollup: RollupDef = {
+        via: input.via,
+        ...(input.table !== undefined && { table: input.table }),
+        ...(input.field !== undefined && { field: input.field }),
+        fn: input.fn as RollupFunction,
+    };
+    try {
+        rollupSql(metadata, tableName, rollup);
+    } catch (err) {
+        throw new Error(`Invalid rollup: ${(err as Error).message}`);
+    }
+    return rollup;
+}
+
+/**
+ * Follows a rename of column `oldName` of `tableName` in every lookup and
+ * rollup of the database: as their own `via`, as the `via` of a reverse
+ * rollup, and as the `field` read from the related table. Run before the
+ * column is renamed in `metadata`.
+ */
+export function renameReferenceColumn(metadata: DatabaseMetadata, tableName: string, oldName: string, newName: string): void {
+    for (const [tName, tMeta] of Object.entries(metadata.tables ?? {})) {
+        for (const col of Object.values(tMeta.columns)) {
+            const def = col.lookup ?? col.rollup;
+            if (!def) continue;
+            const viaTable = col.rollup?.table ?? tName;
+            const relatedTable = col.rollup?.table ?? tMeta.columns[def.via]?.linkedTable;
+
+            if (viaTable === tableName && def.via === oldName) def.via = newName;
+            if (relatedTable === tableName && def.field === oldName) def.field = newName;
+        }
+    }
+}
+
+// Follows a table rename in the reverse rollups that read from it
+export function renameReferenceTable(metadata: DatabaseMetadata, oldName: string, newName: string): void {
+    for (const tMeta of Object.values(metadata.tables ?? {})) {
+        for (const col of Object.values(tMeta.columns)) {
+            if (col.rollup?.table === oldName) col.rollup.table = newName;
+        }
+    }
+}
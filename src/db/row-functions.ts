@@ -1,13 +1,33 @@
 import fs from 'fs';
 import path from 'path';
 import Database from 'better-sqlite3';
-import type { DatabaseMetadata, ColumnDef } from '../types';
+import type { DatabaseMetadata, ColumnDef, ColumnDefault, DynamicDefault } from '../types';
 import { normalizeName } from '../utils/normalize-name';
 import { processTagValue } from '../utils/process-tag-value';
 import { getDbPaths } from '../utils/db-paths';
-import { cascadeNullOnRowDelete } from './tableref-functions';
+import { emptyValueSql, isEmptyValue } from '../utils/empty-value';
+import { computedTypes } from '../utils/type-mapping';
+import { Backlinks, cascadeNullOnRowDelete, findBacklinks, restoreClearedRefs } from './tableref-functions';
+import { AuditContext, readAuditEntry, recordAudit } from './audit-functions';
+import { readLatestTrashedRow, readTrashedRow, removeTrashedRow, trashRow } from './trash-functions';
+import { dropFullTextIndex, removeFullTextRow, syncFullTextRow } from './fulltext-functions';
+import { rowSource } from './formula-functions';
+
+type DatabaseType = InstanceType<typeof Database>;
+
+type TableMeta = NonNullable<DatabaseMetadata['tables']>[string];
+
+// A 'soft yes' (or untouched 'yes') column left empty by a write
+export interface RequiredWarning {
+    column: string;
+    required: 'yes' | 'soft yes';
+    message: string;
+}
+
+// System columns filled in automatically — never checked against `required`
+export const autoColumns = ['id', 'date_created', 'date_modified', 'hidden'];
 
-function validateColumnValue(colMeta: ColumnDef, value: any): any {
+export function validateColumnValue(colMeta: ColumnDef, value: any): any {
     const { type } = colMeta;
 
     switch (type) {
@@ -112,22 +132,196 @@ function validateColumnValue(colMeta: ColumnDef, value: any): any {
             return unique.length > 0 ? JSON.stringify(unique) : null;
         }
 
+        case 'formula':
+        case 'lookup':
+        case 'rollup':
+            throw new Error(`Column '${colMeta.name}' is a ${type} column and cannot be written`);
+
         default:
             throw new Error(`Unknown column type: ${type}`);
     }
 }
 
+// Column types each dynamic default fits
+const dynamicDefaultTypes: Record<DynamicDefault, ColumnDef['type'][]> = {
+    now: ['date'],
+    first_tag: ['single_tag', 'multi_tag'],
+    counter: ['integer'],
+};
 
-// POST create a new row
-export function createRow(dbId: string, tableName: string, data: Record<string, any>) {
-    const { dbPath, metaPath } = getDbPaths(dbId);
-    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found`);
-    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for database '${dbId}' not found`);
+function isDynamicDefault(value: unknown): value is { dynamic: DynamicDefault } {
+    return typeof value === 'object' && value !== null && 'dynamic' in value;
+}
 
-    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+/**
+ * Checks a column default before it is stored: a fixed value must pass
+ * validateColumnValue (and is stored normalized), a dynamic one must fit the
+ * column's type.
+ */
+export function checkColumnDefault(colMeta: ColumnDef, value: ColumnDefault): ColumnDefault {
+    if (isDynamicDefault(value)) {
+        const types = dynamicDefaultTypes[value.dynamic];
+        if (!types) throw new Error(`Unknown dynamic default '${value.dynamic}' (use ${Object.keys(dynamicDefaultTypes).join(', ')})`);
+        if (!types.includes(colMeta.type)) {
+            throw new Error(`Dynamic default '${value.dynamic}' only applies to ${types.join(' / ')} columns`);
+        }
+        return { dynamic: value.dynamic };
+    }
+    if (value === null || typeof value === 'object' && !Array.isArray(value)) {
+        throw new Error(`Default must be a value of the column's type or { "dynamic": ... }`);
+    }
+    return validateColumnValue(colMeta, value);
+}
+
+/**
+ * The value a column's default gives a new row, not yet validated; undefined
+ * when there is none (no default, or first_tag with no tags registered).
+ */
+export function columnDefaultValue(db: DatabaseType, tableName: string, colName: string, colMeta: TableMeta['columns'][string]): any {
+    const value = colMeta.default;
+    if (value === undefined || value === null) return undefined;
+    if (!isDynamicDefault(value)) return value;
+
+    switch (value.dynamic) {
+        case 'now':
+            return Date.now();
+        case 'first_tag':
+            return colMeta.tags?.[0]?.name;
+        case 'counter': {
+            const { next } = db.prepare(`SELECT COALESCE(MAX(CAST("${colName}" AS INTEGER)), 0) + 1 AS next FROM "${tableName}"`)
+                .get() as { next: number };
+            return next;
+        }
+    }
+}
+
+/**
+ * Fills the column's default into every row where it is empty, in id order
+ * (a counter counts up from row to row). Returns the number of rows filled.
+ */
+export function backfillColumnDefault(db: DatabaseType, tableName: string, colName: string, tableMeta: TableMeta): number {
+    const colMeta = tableMeta.columns[colName];
+    const ids = (db.prepare(`SELECT id FROM "${tableName}" WHERE ${emptyValueSql(colName, colMeta.type)} ORDER BY id`)
+        .all() as Array<{ id: number }>).map(r => r.id);
+
+    let value = columnDefaultValue(db, tableName, colName, colMeta);
+    if (ids.length === 0 || value === undefined) return 0;
+    value = validateColumnValue({ ...colMeta, name: colName } as ColumnDef, value);
+    const counter = isDynamicDefault(colMeta.default) && colMeta.default.dynamic === 'counter';
+
+    const update = db.prepare(`UPDATE "${tableName}" SET "${colName}" = ? WHERE id = ?`);
+    db.transaction(() => {
+        for (const id of ids) {
+            update.run(value, id);
+            if (counter) value++;
+        }
+    })();
+    // Rebuilt from the table on next use
+    if (tableMeta.fullText) dropFullTextIndex(db, tableName);
+    return ids.length;
+}
+
+/**
+ * Checks a row (as it will be stored) against each column's `required` level.
+ *
+ *   'yes'      → throws if the column is empty and was written by this call
+ *                (`touched`); an untouched empty column only produces a warning
+ *   'soft yes' → never throws, produces a warning
+ *
+ * Pass `touched = null` on insert, where every column counts as written.
+ */
+function checkRequired(
+    columns: TableMeta['columns'],
+    row: Record<string, any>,
+    touched: Set<string> | null
+): RequiredWarning[] {
+    const missing: string[] = [];
+    const warnings: RequiredWarning[] = [];
+
+    for (const [colName, colMeta] of Object.entries(columns)) {
+        if (autoColumns.includes(colName)) continue;
+        const required = colMeta.required ?? 'no';
+        if (required === 'no') continue;
+        if (!isEmptyValue(colMeta.type, row[colName])) continue;
+
+        if (required === 'yes' && (touched === null || touched.has(colName))) {
+            missing.push(colName);
+        } else {
+            warnings.push({
+                column: colName,
+                required,
+                message: `Column '${colName}' is ${required === 'yes' ? 'required' : 'recommended'} but is empty`,
+            });
+        }
+    }
+
+    if (missing.length > 0) {
+        throw new Error(`Required column(s) cannot be empty: ${missing.join(', ')}`);
+    }
+    return warnings;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Connection-level helpers
+//
+// These run against an already-open database handle so several operations can
+// share one connection (and one transaction, see applyRowBatch). The exported
+// functions below open the database, call one helper, and close it again.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Verify table_ref IDs actually exist in their linked tables
+function verifyTableRefs(db: DatabaseType, tableMeta: TableMeta, data: Record<string, any>): void {
+    for (const [colName, colMeta] of Object.entries(tableMeta.columns)) {
+        if (colMeta.type !== 'table_ref' && colMeta.type !== 'table_ref_many') continue;
+        if (!(colName in data) || data[colName] === null || data[colName] === undefined) continue;
+        const linkedTable = colMeta.linkedTable;
+        if (!linkedTable) continue;
+
+        const ids: number[] = colMeta.type === 'table_ref' ? [data[colName]] : JSON.parse(data[colName]);
+        for (const id of ids) {
+            const exists = db.prepare(`SELECT 1 FROM "${linkedTable}" WHERE id = ?`).get(id);
+            if (!exists) throw new Error(`Row ID ${id} does not exist in table '${linkedTable}'`);
+        }
+    }
+}
+
+function readRow(db: DatabaseType, tableName: string, rowId: string | number): Record<string, any> {
+    const row = db.prepare(`SELECT * FROM "${tableName}" WHERE id = ?`).get(rowId);
+    if (!row) throw new Error(`Row with ID '${rowId}' not found`);
+    return row as Record<string, any>;
+}
+
+// A row as the endpoints return it: readRow with its computed columns filled in (see rowSource)
+function readComputedRow(db: DatabaseType, metadata: DatabaseMetadata, tableName: string, rowId: string | number): Record<string, any> {
+    const row = db.prepare(`SELECT * FROM ${rowSource(metadata, tableName)} WHERE id = ?`).get(rowId);
+    if (!row) throw new Error(`Row with ID '${rowId}' not found`);
+    return row as Record<string, any>;
+}
+
+function tableMetaOf(metadata: DatabaseMetadata, tableName: string): TableMeta {
     const tableMeta = metadata.tables?.[tableName];
     if (!tableMeta) throw new Error(`Table '${tableName}' not found`);
+    return tableMeta;
+}
+
+function withWarnings(row: Record<string, any>, warnings: RequiredWarning[]): Record<string, any> {
+    return warnings.length > 0 ? { ...row, warnings } : row;
+}
 
+/**
+ * Inserts a row. Exported for bulk importers that manage their own connection
+ * and transaction. `options.id` re-creates a row under a known id (used when a
+ * delete is reverted); `options.keepNulls` writes nulls without validation, for
+ * values read back from history or trash that were stored that way.
+ */
+export function insertRow(
+    db: DatabaseType,
+    tableName: string,
+    metadata: DatabaseMetadata,
+    data: Record<string, any>,
+    options: { id?: number; audit?: AuditContext; keepNulls?: boolean } = {}
+) {
+    const tableMeta = tableMetaOf(metadata, tableName);
     const normalizedData: Record<string, any> = {};
     for (const key of Object.keys(data)) {
         if (key === 'date_modified') continue;
@@ -138,9 +332,13 @@ export function createRow(dbId: string, tableName: string, data: Record<string,
         throw new Error(`Title is required and cannot be blank`);
     }
 
+    if (options.id !== undefined && db.prepare(`SELECT 1 FROM "${tableName}" WHERE id = ?`).get(options.id)) {
+        throw new Error(`Row with ID '${options.id}' already exists`);
+    }
+
     const now = Date.now();
     const rowData: Record<string, any> = {
-        id: undefined,
+        id: options.id,
         title: normalizedData.title,
         content: normalizedData.content,
         date_created: normalizedData.date_created ?? now,
@@ -151,41 +349,20 @@ export function createRow(dbId: string, tableName: string, data: Record<string,
     for (const [colName, colMeta] of Object.entries(tableMeta.columns)) {
         if (colName === "id") continue;
         if (colName in normalizedData) {
-            rowData[colName] = validateColumnValue(
+            rowData[colName] = normalizedData[colName] === null && options.keepNulls ? null : validateColumnValue(
                 { ...colMeta, name: colName } as ColumnDef,
                 normalizedData[colName]
             );
+        } else if (!(colName in rowData) && colMeta.default !== undefined) {
+            const value = columnDefaultValue(db, tableName, colName, colMeta);
+            if (value !== undefined) rowData[colName] = validateColumnValue({ ...colMeta, name: colName } as ColumnDef, value);
         } else if (!(colName in rowData)) {
             continue;
         }
     }
 
-    const db = new Database(dbPath);
-
-    // Verify table_ref IDs actually exist in their linked tables
-    for (const [colName, colMeta] of Object.entries(tableMeta.columns)) {
-        if (colMeta.type !== 'table_ref' && colMeta.type !== 'table_ref_many') continue;
-        if (!(colName in rowData) || rowData[colName] === null || rowData[colName] === undefined) continue;
-        const linkedTable = colMeta.linkedTable;
-        if (!linkedTable) continue;
-
-        if (colMeta.type === 'table_ref') {
-            const exists = db.prepare(`SELECT 1 FROM "${linkedTable}" WHERE id = ?`).get(rowData[colName]);
-            if (!exists) {
-                db.close();
-                throw new Error(`Row ID ${rowData[colName]} does not exist in table '${linkedTable}'`);
-            }
-        } else {
-            const ids: number[] = JSON.parse(rowData[colName]);
-            for (const id of ids) {
-                const exists = db.prepare(`SELECT 1 FROM "${linkedTable}" WHERE id = ?`).get(id);
-                if (!exists) {
-                    db.close();
-                    throw new Error(`Row ID ${id} does not exist in table '${linkedTable}'`);
-                }
-            }
-        }
-    }
+    const warnings = checkRequired(tableMeta.columns, rowData, null);
+    verifyTableRefs(db, tableMeta, rowData);
 
     const colNames = Object.keys(rowData).filter(k => rowData[k] !== undefined);
     const placeholders = colNames.map(() => '?').join(', ');
@@ -193,69 +370,53 @@ export function createRow(dbId: string, tableName: string, data: Record<string,
         `INSERT INTO "${tableName}" (${colNames.join(', ')}) VALUES (${placeholders})`
     );
     const info = stmt.run(colNames.map(k => rowData[k]));
-    db.close();
 
-    return getSingleRow(dbId, tableName, String(info.lastInsertRowid));
+    const row = readRow(db, tableName, Number(info.lastInsertRowid));
+    recordAudit(db, tableName, row.id, 'create', {}, row, options.audit);
+    syncFullTextRow(db, tableName, tableMeta, row.id);
+    return withWarnings(readComputedRow(db, metadata, tableName, row.id), warnings);
 }
 
-// GET a single row
-export function getSingleRow(dbId: string, tableName: string, rowId: string) {
-    const { dbPath } = getDbPaths(dbId);
-    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found`);
-
-    const db = new Database(dbPath);
-    const stmt = db.prepare(`SELECT * FROM "${tableName}" WHERE id = ?`);
-    const row = stmt.get(rowId);
-    db.close();
-
-    if (!row) throw new Error(`Row with ID '${rowId}' not found`);
-    return row;
-}
-
-// PATCH visibility of a row
-export function patchRowVisibility(dbId: string, tableName: string, rowId: string, hiddenValue: number) {
+function updateRowVisibility(
+    db: DatabaseType,
+    tableName: string,
+    metadata: DatabaseMetadata,
+    rowId: string,
+    hiddenValue: number,
+    audit: AuditContext = {}
+) {
+    const tableMeta = tableMetaOf(metadata, tableName);
     if (hiddenValue !== 0 && hiddenValue !== 1) {
         throw new Error('Invalid hidden value. Must be 0 or 1.');
     }
-
-    const { dbPath, metaPath } = getDbPaths(dbId);
-    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found`);
-    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for database '${dbId}' not found`);
-
-    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
-    const tableMeta = metadata.tables?.[tableName];
-    if (!tableMeta) throw new Error(`Table '${tableName}' not found`);
     if (!tableMeta.columns?.hidden || tableMeta.columns.hidden.type !== 'boolean') {
         throw new Error(`Table '${tableName}' does not have a boolean 'hidden' column`);
     }
 
-    const db = new Database(dbPath);
+    const current = readRow(db, tableName, rowId);
+
     const now = Date.now();
     const stmt = db.prepare(`
         UPDATE "${tableName}"
         SET hidden = ?, date_modified = ?
         WHERE id = ?
     `);
-    const result = stmt.run(hiddenValue, now, rowId);
-    db.close();
+    stmt.run(hiddenValue, now, rowId);
 
-    if (result.changes === 0) {
-        throw new Error(`Row with ID '${rowId}' not found`);
-    }
-
-    return getSingleRow(dbId, tableName, rowId);
+    const row = readRow(db, tableName, rowId);
+    recordAudit(db, tableName, row.id, 'visibility', current, row, audit);
+    return readComputedRow(db, metadata, tableName, row.id);
 }
 
-// PATCH Row data
-export function patchRow(dbId: string, tableName: string, rowId: string, data: Record<string, any>) {
-    const { dbPath, metaPath } = getDbPaths(dbId);
-    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found`);
-    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for database '${dbId}' not found`);
-
-    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
-    const tableMeta = metadata.tables?.[tableName];
-    if (!tableMeta) throw new Error(`Table '${tableName}' not found`);
-
+function updateRow(
+    db: DatabaseType,
+    tableName: string,
+    metadata: DatabaseMetadata,
+    rowId: string,
+    data: Record<string, any>,
+    options: { audit?: AuditContext; keepNulls?: boolean } = {}
+) {
+    const tableMeta = tableMetaOf(metadata, tableName);
     const normalizedData: Record<string, any> = {};
     for (const key of Object.keys(data)) {
         if (['id', 'date_modified', 'hidden'].includes(key)) continue;
@@ -267,6 +428,11 @@ export function patchRow(dbId: string, tableName: string, rowId: string, data: R
         if (!colMeta) {
             throw new Error(`Column '${colName}' does not exist in table '${tableName}'`);
         }
+        // Computed values are never written, not even a null
+        if (computedTypes.includes(colMeta.type)) {
+            throw new Error(`Column '${colName}' is a ${colMeta.type} column and cannot be written`);
+        }
+        if (value === null && options.keepNulls) continue;
         normalizedData[colName] = validateColumnValue(
             { ...colMeta, name: colName } as ColumnDef,
             normalizedData[colName]
@@ -277,29 +443,13 @@ export function patchRow(dbId: string, tableName: string, rowId: string, data: R
         throw new Error('Title cannot be blank');
     }
 
-    // Verify table_ref IDs actually exist in their linked tables
-    const patchDb = new Database(dbPath);
-    try {
-        for (const [colName, colMeta] of Object.entries(tableMeta.columns)) {
-            if (colMeta.type !== 'table_ref' && colMeta.type !== 'table_ref_many') continue;
-            if (!(colName in normalizedData) || normalizedData[colName] === null || normalizedData[colName] === undefined) continue;
-            const linkedTable = colMeta.linkedTable;
-            if (!linkedTable) continue;
-
-            if (colMeta.type === 'table_ref') {
-                const exists = patchDb.prepare(`SELECT 1 FROM "${linkedTable}" WHERE id = ?`).get(normalizedData[colName]);
-                if (!exists) throw new Error(`Row ID ${normalizedData[colName]} does not exist in table '${linkedTable}'`);
-            } else {
-                const ids: number[] = JSON.parse(normalizedData[colName]);
-                for (const id of ids) {
-                    const exists = patchDb.prepare(`SELECT 1 FROM "${linkedTable}" WHERE id = ?`).get(id);
-                    if (!exists) throw new Error(`Row ID ${id} does not exist in table '${linkedTable}'`);
-                }
-            }
-        }
-    } finally {
-        patchDb.close();
-    }
+    const current = readRow(db, tableName, rowId);
+    const warnings = checkRequired(
+        tableMeta.columns,
+        { ...current, ...normalizedData },
+        new Set(Object.keys(normalizedData))
+    );
+    verifyTableRefs(db, tableMeta, normalizedData);
 
     const setClauses: string[] = [];
     const values: any[] = [];
@@ -318,22 +468,107 @@ export function patchRow(dbId: string, tableName: string, rowId: string, data: R
 
     values.push(rowId);
 
-    const db = new Database(dbPath);
     const stmt = db.prepare(`
         UPDATE "${tableName}"
         SET ${setClauses.join(', ')}
         WHERE id = ?
     `);
     const result = stmt.run(...values);
-    db.close();
 
     if (result.changes === 0) {
         throw new Error(`Row with ID '${rowId}' not found`);
     }
 
-    return getSingleRow(dbId, tableName, rowId);
+    const row = readRow(db, tableName, rowId);
+    recordAudit(db, tableName, row.id, 'patch', current, row, options.audit);
+    syncFullTextRow(db, tableName, tableMeta, row.id);
+    return withWarnings(readComputedRow(db, metadata, tableName, row.id), warnings);
+}
+
+// Deletes a row into the table's trash, keeping the references the cascade clears
+function removeRow(db: DatabaseType, dbId: string, tableName: string, rowId: string, audit: AuditContext = {}): void {
+    const current = readRow(db, tableName, rowId);
+    db.prepare(`DELETE FROM "${tableName}" WHERE id = ?`).run(rowId);
+    recordAudit(db, tableName, current.id, 'delete', current, {}, audit);
+    removeFullTextRow(db, tableName, current.id);
+
+    // Null out any table_ref/table_ref_many columns across this DB that pointed to this row
+    const cleared = cascadeNullOnRowDelete(dbId, tableName, Number(rowId), db);
+    trashRow(db, tableName, current, cleared);
+}
+
+function readTableMeta(dbId: string, tableName: string): { dbPath: string; metadata: DatabaseMetadata; tableMeta: TableMeta } {
+    const { dbPath, metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for database '${dbId}' not found`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    return { dbPath, metadata, tableMeta: tableMetaOf(metadata, tableName) };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Single-row operations
+//
+// Writes run in a transaction so the row, its audit entry and any cascades
+// land together.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// POST create a new row
+export function createRow(dbId: string, tableName: string, data: Record<string, any>) {
+    const { dbPath, metadata } = readTableMeta(dbId, tableName);
+    const db = new Database(dbPath);
+    try {
+        return db.transaction(() => insertRow(db, tableName, metadata, data))();
+    } finally {
+        db.close();
+    }
+}
+
+// GET a single row, with its formula columns computed and, with `backlinks`, the rows referencing it
+export function getSingleRow(dbId: string, tableName: string, rowId: string, options: { backlinks?: boolean } = {}) {
+    const { dbPath, metadata } = readTableMeta(dbId, tableName);
+    const db = new Database(dbPath);
+    try {
+        const row = readComputedRow(db, metadata, tableName, rowId);
+        return options.backlinks ? { ...row, backlinks: findBacklinks(metadata, tableName, row.id, db) } : row;
+    } finally {
+        db.close();
+    }
+}
+
+// GET the rows of other tables that reference a row through table_ref / table_ref_many columns
+export function getRowBacklinks(dbId: string, tableName: string, rowId: string): Backlinks[] {
+    const { dbPath, metadata } = readTableMeta(dbId, tableName);
+    const db = new Database(dbPath);
+    try {
+        const row = readRow(db, tableName, rowId);
+        return findBacklinks(metadata, tableName, row.id, db);
+    } finally {
+        db.close();
+    }
 }
 
+// PATCH visibility of a row
+export function patchRowVisibility(dbId: string, tableName: string, rowId: string, hiddenValue: number) {
+    const { dbPath, metadata } = readTableMeta(dbId, tableName);
+    const db = new Database(dbPath);
+    try {
+        return db.transaction(() => updateRowVisibility(db, tableName, metadata, rowId, hiddenValue))();
+    } finally {
+        db.close();
+    }
+}
+
+// PATCH Row data
+export function patchRow(dbId: string, tableName: string, rowId: string, data: Record<string, any>) {
+    const { dbPath, metadata } = readTableMeta(dbId, tableName);
+    const db = new Database(dbPath);
+    try {
+        return db.transaction(() => updateRow(db, tableName, metadata, rowId, data))();
+    } finally {
+        db.close();
+    }
+}
 
 // DELETE a row
 export function deleteRow(dbId: string, tableName: string, rowId: string) {
@@ -341,12 +576,211 @@ export function deleteRow(dbId: string, tableName: string, rowId: string) {
     if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found`);
 
     const db = new Database(dbPath);
-    const stmt = db.prepare(`DELETE FROM "${tableName}" WHERE id = ?`);
-    const result = stmt.run(rowId);
-    db.close();
+    try {
+        db.transaction(() => removeRow(db, dbId, tableName, rowId))();
+    } finally {
+        db.close();
+    }
+}
 
-    if (result.changes === 0) throw new Error(`Row with ID '${rowId}' not found`);
+/**
+ * Undoes one audit entry by writing the entry's old values back through the
+ * normal validation path. The revert is itself recorded, with `revertOf`.
+ *
+ *   create      → the row is deleted
+ *   patch       → the changed columns get their old values back
+ *   visibility  → the old hidden flag is restored
+ *   delete      → the row is re-created under its original id; like a
+ *                 restore from the trash, its trash entry is removed and the
+ *                 table_ref links its delete cleared are put back
+ *
+ * Old values are known to have been stored, so nulls among them are written
+ * back without validation. Columns deleted since the entry was recorded are
+ * skipped and reported.
+ */
+export function revertAuditEntry(dbId: string, tableName: string, rowId: string, entryId: number) {
+    const { dbPath, metadata, tableMeta } = readTableMeta(dbId, tableName);
+    const db = new Database(dbPath);
+    try {
+        const entry = readAuditEntry(db, entryId);
+        if (!entry || entry.table !== tableName || entry.rowId !== Number(rowId)) {
+            throw new Error(`History entry '${entryId}' not found for row '${rowId}'`);
+        }
 
-    // Null out any table_ref/table_ref_many columns across this DB that pointed to this row
-    cascadeNullOnRowDelete(dbId, tableName, Number(rowId));
+        const audit: AuditContext = { revertOf: entry.id };
+        const skipped = Object.keys(entry.changes).filter(col => !tableMeta.columns[col]);
+        const oldValues: Record<string, any> = {};
+        for (const [col, change] of Object.entries(entry.changes)) {
+            if (tableMeta.columns[col]) oldValues[col] = change.old;
+        }
+
+        const row = db.transaction(() => {
+            switch (entry.action) {
+                case 'create':
+                    removeRow(db, dbId, tableName, rowId, audit);
+                    return null;
+                case 'delete': {
+                    const restored = insertRow(db, tableName, metadata, oldValues, { id: entry.rowId, audit, keepNulls: true });
+                    const trashed = readLatestTrashedRow(db, tableName, entry.rowId);
+                    if (trashed) {
+                        restoreClearedRefs(dbId, tableName, entry.rowId, trashed.refs, db);
+                        removeTrashedRow(db, trashed.trashId);
+                    }
+                    return restored;
+                }
+                case 'visibility':
+                    return updateRowVisibility(db, tableName, metadata, rowId, oldValues.hidden, audit);
+                case 'patch': {
+                    const { hidden, ...data } = oldValues;
+                    let patched = updateRow(db, tableName, metadata, rowId, data, { audit, keepNulls: true });
+                    if (hidden !== undefined) patched = updateRowVisibility(db, tableName, metadata, rowId, hidden, audit);
+                    return patched;
+                }
+            }
+        })();
+
+        return { reverted: entry.id, action: entry.action, row, skipped };
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Restores a trashed row under its original id, through the normal validation
+ * path, and puts back the table_ref links its delete cleared where possible.
+ * Columns deleted since are skipped and reported.
+ */
+export function restoreTrashedRow(dbId: string, tableName: string, trashId: number) {
+    const { dbPath, metadata, tableMeta } = readTableMeta(dbId, tableName);
+    const db = new Database(dbPath);
+    try {
+        const entry = readTrashedRow(db, tableName, trashId);
+        if (!entry) throw new Error(`Trashed row '${trashId}' not found in '${tableName}'`);
+
+        const skipped = Object.keys(entry.row).filter(col => !tableMeta.columns[col]);
+        const data: Record<string, any> = {};
+        for (const [col, value] of Object.entries(entry.row)) {
+            if (col !== 'id' && tableMeta.columns[col]) data[col] = value;
+        }
+
+        return db.transaction(() => {
+            const row = insertRow(db, tableName, metadata, data, { id: entry.rowId, audit: { cause: 'restore' }, keepNulls: true });
+            const relinked = restoreClearedRefs(dbId, tableName, entry.rowId, entry.refs, db);
+            removeTrashedRow(db, trashId);
+            return { restored: trashId, row, relinked, skipped };
+        })();
+    } finally {
+        db.close();
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Batch operations
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type RowBatchOperation =
+    | { op: 'create'; data: Record<string, any> }
+    | { op: 'patch'; id: number | string; data: Record<string, any> }
+    | { op: 'visibility'; id: number | string; hidden: boolean | number }
+    | { op: 'delete'; id: number | string };
+
+export interface RowBatchResult {
+    index: number;
+    op: RowBatchOperation['op'];
+    success: boolean;
+    id?: number;
+    row?: Record<string, any>;
+    error?: string;
+}
+
+/**
+ * Applies many row operations over a single connection inside one
+ * transaction. Metadata is read once for the whole batch.
+ *
+ *   atomic       – the first failing operation rolls back the whole batch;
+ *                  operations that had succeeded are reported as rolled back
+ *   best-effort  – each operation runs in its own savepoint; failures are
+ *                  reported and the rest of the batch still commits
+ */
+export function applyRowBatch(
+    dbId: string,
+    tableName: string,
+    operations: RowBatchOperation[],
+    mode: 'atomic' | 'best-effort' = 'atomic'
+): { mode: string; committed: boolean; succeeded: number; failed: number; results: RowBatchResult[] } {
+    const { dbPath, metadata } = readTableMeta(dbId, tableName);
+    const db = new Database(dbPath);
+    const results: RowBatchResult[] = [];
+
+    const applyOne = (operation: RowBatchOperation): RowBatchResult & { success: true } => {
+        const base = { op: operation.op, success: true as const, index: results.length };
+        switch (operation.op) {
+            case 'create': {
+                const row = insertRow(db, tableName, metadata, operation.data ?? {});
+                return { ...base, id: row.id, row };
+            }
+            case 'patch': {
+                // Rejected like on the single-row PATCH endpoint, rather than dropped by updateRow
+                const data = operation.data ?? {};
+                if ('id' in data || 'date_modified' in data || 'hidden' in data) {
+                    throw new Error("Cannot edit 'id', 'date_modified', or 'hidden' fields via this endpoint");
+                }
+                const row = updateRow(db, tableName, metadata, String(operation.id), data);
+                return { ...base, id: row.id, row };
+            }
+            case 'visibility': {
+                const hidden = operation.hidden === true ? 1 : operation.hidden === false ? 0 : operation.hidden;
+                const row = updateRowVisibility(db, tableName, metadata, String(operation.id), hidden);
+                return { ...base, id: row.id, row };
+            }
+            case 'delete':
+                removeRow(db, dbId, tableName, String(operation.id));
+                return { ...base, id: Number(operation.id) };
+            default: {
+                const unknown: never = operation;
+                throw new Error(`Unknown operation '${(unknown as { op: string }).op}'`);
+            }
+        }
+    };
+
+    let committed = true;
+    let operationFailed = false;
+    try {
+        const runBatch = db.transaction(() => {
+            for (const operation of operations) {
+                try {
+                    // Nested transaction → SAVEPOINT, so a failed op leaves no partial writes
+                    results.push(db.transaction(() => applyOne(operation))());
+                } catch (err) {
+                    results.push({ index: results.length, op: operation?.op, success: false, error: (err as Error).message });
+                    if (mode === 'atomic') {
+                        operationFailed = true;
+                        throw err;
+                    }
+                }
+            }
+        });
+
+        try {
+            runBatch();
+        } catch (err) {
+            // Anything else (a failed commit...) is not an operation's result
+            if (!operationFailed) throw err;
+            committed = false;
+            for (const r of results) {
+                if (!r.success) continue;
+                r.success = false;
+                r.error = 'Rolled back';
+                delete r.row;
+            }
+            for (const operation of operations.slice(results.length)) {
+                results.push({ index: results.length, op: operation.op, success: false, error: 'Not run' });
+            }
+        }
+    } finally {
+        db.close();
+    }
+
+    const succeeded = results.filter(r => r.success).length;
+    return { mode, committed, succeeded, failed: results.length - succeeded, results };
 }
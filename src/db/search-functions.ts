@@ -0,0 +1,154 @@
+/**
+ * Global search: runs one q= query (the same syntax as getTable) over every
+ * table of one database, or of every database.
+ *
+ * Hidden databases, tables and rows are skipped unless includeHidden is set.
+ * Each table returns at most `limit` hits (newest first) plus its total match
+ * count; each hit names the first field one of the query's terms matched.
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import type { DatabaseMetadata } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { userTablesSql } from '../utils/internal-tables';
+import { parseSearchTerms } from '../utils/search';
+import { listDatabases } from './database-functions';
+import { buildTableQuery, loadRefLookup, readTableColumns, registerSearchFunctions } from './table-functions';
+import { rowSource } from './formula-functions';
+
+type DatabaseType = InstanceType<typeof Database>;
+
+/** Hits returned per table unless `limit` says otherwise */
+export const SEARCH_HITS_PER_TABLE = 5;
+export const MAX_SEARCH_HITS_PER_TABLE = 50;
+
+export interface SearchHit {
+    id: number;
+    title: string;
+    /** First column a term of the query matched (title for bare terms) */
+    field: string | null;
+}
+
+export interface TableSearchResult {
+    table: string;
+    totalHits: number;
+    hits: SearchHit[];
+}
+
+export interface DatabaseSearchResult {
+    dbId: string;
+    displayName: string;
+    totalHits: number;
+    tables: TableSearchResult[];
+}
+
+export interface GlobalSearchOptions {
+    dbId?: string;
+    includeHidden?: boolean;
+    limit?: number;
+    timeZone?: string;
+}
+
+// Options with their defaults applied
+interface SearchSettings {
+    includeHidden: boolean;
+    limit: number;
+    timeZone?: string;
+}
+
+function searchTable(
+    db: DatabaseType,
+    metadata: DatabaseMetadata,
+    tableName: string,
+    query: string,
+    settings: SearchSettings
+): TableSearchResult {
+    const { includeHidden, limit, timeZone } = settings;
+    const columns = readTableColumns(db, metadata, tableName);
+    const { filters, params, orderBy } = buildTableQuery(db, tableName, columns, {
+        search: query,
+        hidden: includeHidden ? undefined : false,
+        timeZone,
+    });
+    const where = filters.length ? ` WHERE ${filters.join(' AND ')}` : '';
+    const source = rowSource(metadata, tableName);
+
+    // Which term matched: the first positive term whose own condition holds
+    const terms = parseSearchTerms(query, columns, loadRefLookup(db, columns), timeZone);
+    const fieldCase = terms.length
+        ? `CASE ${terms.map(t => `WHEN ${t.where} THEN '${t.field.replace(/'/g, "''")}'`).join(' ')} END`
+        : 'NULL';
+    const fieldParams = terms.flatMap(t => t.params);
+
+    const hits = db.prepare(`
+        SELECT id, title, ${fieldCase} AS field FROM ${source}${where}
+        ORDER BY ${orderBy} LIMIT ?
+    `).all(...fieldParams, ...params, limit) as SearchHit[];
+    const totalHits = (db.prepare(`SELECT COUNT(*) AS count FROM ${source}${where}`).get(...params) as { count: number }).count;
+
+    return { table: tableName, totalHits, hits };
+}
+
+function searchDatabase(
+    dbId: string,
+    metadata: DatabaseMetadata,
+    query: string,
+    settings: SearchSettings
+): DatabaseSearchResult {
+    const { dbPath } = getDbPaths(dbId);
+    const db = new Database(dbPath);
+    try {
+        registerSearchFunctions(db);
+        const tableNames = (db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND ${userTablesSql} ORDER BY name`)
+            .all() as { name: string }[]).map(row => row.name);
+
+        const tables = tableNames
+            .filter(name => settings.includeHidden || !metadata.tables?.[name]?.hidden)
+            .map(name => searchTable(db, metadata, name, query, settings))
+            .filter(result => result.totalHits > 0);
+
+        return {
+            dbId,
+            displayName: metadata.displayName,
+            totalHits: tables.reduce((sum, t) => sum + t.totalHits, 0),
+            tables,
+        };
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Searches every table of one database (options.dbId) or of all databases.
+ * Only databases and tables with at least one hit are returned.
+ */
+export function globalSearch(query: string, options: GlobalSearchOptions = {}) {
+    const settings: SearchSettings = {
+        includeHidden: options.includeHidden ?? false,
+        limit: Math.min(Math.max(options.limit ?? SEARCH_HITS_PER_TABLE, 1), MAX_SEARCH_HITS_PER_TABLE),
+        timeZone: options.timeZone,
+    };
+
+    let targets: Array<{ id: string; metadata: DatabaseMetadata }>;
+    if (options.dbId) {
+        const { dbPath, metaPath } = getDbPaths(options.dbId);
+        if (!fs.existsSync(dbPath)) throw new Error(`Database '${options.dbId}' not found.`);
+        if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${options.dbId}' not found.`);
+        targets = [{ id: options.dbId, metadata: JSON.parse(fs.readFileSync(metaPath, 'utf-8')) }];
+    } else {
+        targets = (listDatabases() as Array<{ id: string; metadata: DatabaseMetadata }>)
+            .filter(entry => settings.includeHidden || !entry.metadata.hidden);
+    }
+
+    const databases = targets
+        .map(({ id, metadata }) => searchDatabase(id, metadata, query, settings))
+        .filter(result => result.totalHits > 0);
+
+    return {
+        query,
+        limit: settings.limit,
+        totalHits: databases.reduce((sum, d) => sum + d.totalHits, 0),
+        databases,
+    };
+}
@@ -3,10 +3,24 @@ import path from 'path';
 import Database from 'better-sqlite3';
 import type { ColumnDef, DatabaseMetadata, Column, ColumnType } from '../types';
 import { columnTypeMap } from '../utils/type-mapping';
-import { parseSearchQuery, resolveFieldName, RefLookup } from '../utils/search';
+import { parseFullTextQuery, parseSearchQuery, resolveFieldName, QueryReport, RefLookup } from '../utils/search';
 import { normalizeName } from '../utils/normalize-name';
 import { getDbPaths } from '../utils/db-paths';
+import { emptyValueSql } from '../utils/empty-value';
+import { CursorValue, decodeCursor, encodeCursor } from '../utils/cursor';
+import { INTERNAL_PREFIX, isInternalTable } from '../utils/internal-tables';
 import { cascadeOnTableDelete, cascadeOnTableRename } from './tableref-functions';
+import { clearAuditTable, renameAuditTable } from './audit-functions';
+import { JournalOptions, recordSchemaOp } from './journal-functions';
+import { TableRefValues, renameRowTrashTable, trashTable } from './trash-functions';
+import { dropFullTextIndex, ensureFullTextIndex, fullTextColumns, fullTextFilter, readSnippets, renameFullTextIndex } from './fulltext-functions';
+import { applyViewColumns, findView } from './view-functions';
+import { rowSource } from './formula-functions';
+import { renameReferenceTable } from './lookup-functions';
+import { renameTagListTable } from './taglist-functions';
+import { autoColumns } from './row-functions';
+
+type DatabaseType = InstanceType<typeof Database>;
 
 // Create new table attached to database
 export function createTable(dbId: string, rawTableName: string): void {
@@ -15,6 +29,7 @@ export function createTable(dbId: string, rawTableName: string): void {
     if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
 
     const tableName = normalizeName(rawTableName);
+    if (isInternalTable(tableName)) throw new Error(`Table names starting with '${INTERNAL_PREFIX}' are reserved.`);
 
     const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
     if (!metadata.tables) metadata.tables = {};
@@ -80,6 +95,7 @@ export function copyTable(
 
     if (!targetMetadata.tables) targetMetadata.tables = {};
 
+    if (isInternalTable(newTableName)) throw new Error(`Table names starting with '${INTERNAL_PREFIX}' are reserved.`);
     if (targetMetadata.tables[newTableName]) {
         throw new Error(`Target table '${newTableName}' already exists in '${targetDbId}'.`);
     }
@@ -129,26 +145,22 @@ export function copyTable(
     }
 }
 
-// Gets specific table with rows
-export function getTable(
-    dbId: string,
-    tableName: string,
-    options?: {
-        offset?: number;
-        limit?: number;
-        hidden?: boolean;
-        search?: string;
-        sort?: string;
-    }
-) {
-    const { dbPath, metaPath } = getDbPaths(dbId);
-
-    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
-    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
-
-    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
-    const db = new Database(dbPath);
+export interface TableQueryOptions {
+    hidden?: boolean;
+    search?: string;
+    sort?: string;
+    /** How `search` is read: the query syntax (default) or the full-text index */
+    mode?: 'query' | 'fulltext';
+    /** IANA timezone whose day boundaries date terms use (default DEFAULT_TIME_ZONE) */
+    timeZone?: string;
+    /** Reject queries explain would warn about instead of guessing */
+    strict?: boolean;
+    /** Saved view whose q / s apply where search / sort are not given */
+    view?: string;
+}
 
+// Registers the SQL functions search queries rely on (REGEXP)
+export function registerSearchFunctions(db: DatabaseType): void {
     (db as any).function('REGEXP', (pattern: string, value: string) => {
         if (value === null) return 0;
         try {
@@ -157,12 +169,12 @@ export function getTable(
             return 0;
         }
     });
+}
 
-    const found = db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name = ?`).get(tableName);
-    if (!found) throw new Error(`Table '${tableName}' does not exist in '${dbId}'`);
-
+// Reads a table's columns from SQLite, annotated with their metadata
+export function readTableColumns(db: DatabaseType, metadata: DatabaseMetadata, tableName: string): ColumnDef[] {
     const columnInfo = db.prepare(`PRAGMA table_info(${tableName})`).all() as Column[];
-    const columns: ColumnDef[] = columnInfo.map((col) => {
+    return columnInfo.map((col) => {
         const metaCol = metadata.tables?.[tableName]?.columns?.[col.name];
         const isObj = typeof metaCol === 'object' && metaCol !== null;
         const colType: ColumnType = isObj
@@ -179,6 +191,7 @@ export function getTable(
         if (colType === 'single_tag' || colType === 'multi_tag') {
             result.tags = isObj && Array.isArray(metaCol.tags) ? metaCol.tags : [];
             result.tagLock = isObj ? metaCol.tagLock ?? false : false;
+            result.linkedList = isObj ? metaCol.linkedList ?? '' : '';
         }
         if (colType === 'custom' && isObj && metaCol.rule !== undefined) {
             result.rule = metaCol.rule;
@@ -186,106 +199,463 @@ export function getTable(
         if ((colType === 'table_ref' || colType === 'table_ref_many') && isObj) {
             result.linkedTable = metaCol.linkedTable ?? '';
         }
+        if (isObj && metaCol.default !== undefined) {
+            result.default = metaCol.default;
+        }
+        if (colType === 'formula' && isObj) {
+            result.formula = metaCol.formula ?? '';
+            if (metaCol.formulaError) result.formulaError = metaCol.formulaError;
+        }
+        if (isObj && metaCol.lookup) result.lookup = metaCol.lookup;
+        if (isObj && metaCol.rollup) result.rollup = metaCol.rollup;
         return result;
     });
+}
+
+// Build display-value lookup for any table_ref/table_ref_many columns
+// that have a display column configured (stored in visualization).
+export function loadRefLookup(db: DatabaseType, columns: ColumnDef[]): RefLookup {
+    const refLookup: RefLookup = new Map();
+    for (const col of columns) {
+        if ((col.type === 'table_ref' || col.type === 'table_ref_many')
+            && col.linkedTable && col.visualization) {
+            try {
+                const rows = db.prepare(
+                    `SELECT id, "${col.visualization}" AS display FROM "${col.linkedTable}"`
+                ).all() as Array<{ id: number; display: any }>;
+                refLookup.set(col.name, rows.map(r => ({
+                    id: r.id,
+                    display: r.display != null ? String(r.display) : '',
+                })));
+            } catch {
+                // Linked table missing or display column gone — skip silently
+            }
+        }
+    }
+    return refLookup;
+}
 
-    let filters: string[] = [];
-    let params: any[] = [];
+// SQL string literal (ORDER BY expressions take no bound parameters)
+function sqlLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
 
-    if (typeof options?.hidden === 'boolean') {
+/**
+ * What a column sorts by, per type:
+ *   table_ref / table_ref_many  the display column (visualization) of the
+ *                               linked row (the first one for _many)
+ *   link                        its displayName
+ *   single_tag                  the tag's position among registered tags
+ *   multi_tag                   the earliest registered position among its tags
+ *   anything else               the stored value
+ * Empty values sort as NULL; display values compare case-insensitively.
+ */
+function sortExpression(tableName: string, col: ColumnDef): string {
+    const ref = `"${tableName}"."${col.name}"`;
+
+    if ((col.type === 'table_ref' || col.type === 'table_ref_many') && col.linkedTable && col.visualization) {
+        const id = col.type === 'table_ref' ? ref : `json_extract(${ref}, '$[0]')`;
+        // Aliased so a table referring to itself still reads the outer row's value
+        return `(SELECT __ref."${col.visualization}" FROM "${col.linkedTable}" AS __ref WHERE __ref.id = ${id}) COLLATE NOCASE`;
+    }
+    if (col.type === 'table_ref_many') {
+        return `json_extract(${ref}, '$[0]')`;
+    }
+    if (col.type === 'link') {
+        return `(CASE WHEN json_valid(${ref}) THEN json_extract(${ref}, '$.displayName') ELSE ${ref} END) COLLATE NOCASE`;
+    }
+    if (col.type === 'single_tag' || col.type === 'multi_tag') {
+        const tags = (col.tags ?? []).map(t => t.name);
+        const present = col.type === 'single_tag'
+            ? (tag: string) => `${ref} = ${sqlLiteral(tag)}`
+            : (tag: string) => `instr(' ' || ${ref} || ' ', ${sqlLiteral(` ${tag} `)}) > 0`;
+        // Tags no longer registered sort after the registered ones
+        const cases = tags.map((tag, i) => `WHEN ${present(tag)} THEN ${i}`).join(' ');
+        return `(CASE WHEN ${emptyValueSql(col.name, col.type)} THEN NULL ${cases} ELSE ${tags.length} END)`;
+    }
+    return `"${col.name}"`;
+}
+
+/** One ORDER BY key; `nulls` is only set when s= asked for it */
+export interface SortKey {
+    expr: string;
+    desc: boolean;
+    nulls?: 'first' | 'last';
+}
+
+const RANDOM_SORT = 'RANDOM()';
+
+/**
+ * Sort keys for getTable's s= option: comma-separated keys, each
+ * `column[:asc|desc][:nullsfirst|nullslast]`, plus `rand` and (full-text
+ * searches only) `relevance`. Unknown columns sort by date_modified; without
+ * s= rows are newest first. `id` always comes last so the order is total,
+ * in the direction of the key before it.
+ */
+function buildSortKeys(tableName: string, columns: ColumnDef[], sort: string | undefined, relevance?: string): SortKey[] {
+    const keys: SortKey[] = [];
+    for (const key of (sort ?? '').split(',').map(k => k.trim()).filter(Boolean)) {
+        const [col, ...modifiers] = key.split(':').map(part => part.trim().toLowerCase());
+
+        if (col === 'rand') {
+            keys.push({ expr: RANDOM_SORT, desc: false });
+            continue;
+        }
+
+        let desc = col !== 'relevance';
+        let nulls: SortKey['nulls'];
+        for (const modifier of modifiers) {
+            if (modifier === 'asc' || modifier === 'desc') desc = modifier === 'desc';
+            else if (modifier === 'nullsfirst' || modifier === 'nulls_first') nulls = 'first';
+            else if (modifier === 'nullslast' || modifier === 'nulls_last') nulls = 'last';
+        }
+
+        if (col === 'relevance') {
+            // FTS5 rank is lower for better matches: best first unless :desc
+            if (relevance) keys.push({ expr: relevance, desc });
+            continue;
+        }
+
+        const resolved = resolveFieldName(col, columns);
+        const colDef = resolved ? columns.find(c => c.name === resolved) : undefined;
+        keys.push({ expr: colDef ? sortExpression(tableName, colDef) : 'date_modified', desc, nulls });
+    }
+
+    if (keys.length === 0) keys.push({ expr: 'date_modified', desc: true });
+    keys.push({ expr: 'id', desc: keys[keys.length - 1].desc });
+    return keys;
+}
+
+function orderByClause(keys: SortKey[]): string {
+    return keys
+        .map(k => `${k.expr} ${k.desc ? 'DESC' : 'ASC'}${k.nulls ? ` NULLS ${k.nulls.toUpperCase()}` : ''}`)
+        .join(', ');
+}
+
+/**
+ * Condition for the rows that come after the row whose sort-key values are
+ * `values` (keyset pagination). SQLite puts NULLs first in ascending order
+ * and last in descending order unless a key says otherwise.
+ */
+function keysetFilter(keys: SortKey[], values: CursorValue[]): { where: string; params: any[] } {
+    const alternatives: string[] = [];
+    const params: any[] = [];
+
+    keys.forEach((key, i) => {
+        const nullsFirst = key.nulls ? key.nulls === 'first' : !key.desc;
+        const value = values[i];
+        let after: string;
+        const afterParams: any[] = [];
+        if (value === null) {
+            if (!nullsFirst) return; // nothing sorts after trailing NULLs
+            after = `${key.expr} IS NOT NULL`;
+        } else {
+            after = `${key.expr} ${key.desc ? '<' : '>'} ?`;
+            afterParams.push(value);
+            if (!nullsFirst) after = `(${after} OR ${key.expr} IS NULL)`;
+        }
+
+        const equal = keys.slice(0, i).map((k, j) => (values[j] === null ? `${k.expr} IS NULL` : `${k.expr} = ?`));
+        alternatives.push(`(${[...equal, after].join(' AND ')})`);
+        params.push(...values.slice(0, i).filter(v => v !== null), ...afterParams);
+    });
+
+    return { where: alternatives.length ? `(${alternatives.join(' OR ')})` : '0', params };
+}
+
+/**
+ * Builds the WHERE conditions and ORDER BY clause for a row listing from
+ * getTable's hidden / search (q=) / sort (s=) / mode options. Shared by every
+ * endpoint that lists rows the way getTable does.
+ *
+ * With mode 'fulltext' the search goes through the table's full-text index
+ * (which `metadata` must have enabled), s=relevance ranks the matches, and
+ * the FTS5 expression is returned as `match` for snippets. A saved `view`
+ * (looked up in `metadata`) supplies the search and sort not given.
+ */
+export function buildTableQuery(
+    db: DatabaseType,
+    tableName: string,
+    columns: ColumnDef[],
+    options: TableQueryOptions = {},
+    metadata?: DatabaseMetadata
+): { filters: string[]; params: any[]; orderBy: string; sortKeys: SortKey[]; match?: string; report?: QueryReport } {
+    const filters: string[] = [];
+    const params: any[] = [];
+    let match: string | undefined;
+    let report: QueryReport | undefined;
+    let relevance: string | undefined;
+
+    if (options.view) {
+        const view = findView(metadata, tableName, options.view);
+        options = { ...options, search: options.search ?? view.q, sort: options.sort ?? view.s };
+    }
+
+    if (typeof options.hidden === 'boolean') {
         filters.push(`hidden = ?`);
         params.push(options.hidden ? 1 : 0);
     }
 
-    if (options?.search) {
-        // Build display-value lookup for any table_ref/table_ref_many columns
-        // that have a display column configured (stored in visualization).
-        const refLookup: RefLookup = new Map();
-        for (const col of columns) {
-            if ((col.type === 'table_ref' || col.type === 'table_ref_many')
-                && col.linkedTable && col.visualization) {
-                try {
-                    const rows = db.prepare(
-                        `SELECT id, "${col.visualization}" AS display FROM "${col.linkedTable}"`
-                    ).all() as Array<{ id: number; display: any }>;
-                    refLookup.set(col.name, rows.map(r => ({
-                        id: r.id,
-                        display: r.display != null ? String(r.display) : '',
-                    })));
-                } catch {
-                    // Linked table missing or display column gone — skip silently
-                }
-            }
+    if (options.search && options.mode === 'fulltext') {
+        const tableMeta = metadata?.tables?.[tableName];
+        if (!tableMeta?.fullText) throw new Error(`Full-text search is not enabled for table '${tableName}'`);
+        ensureFullTextIndex(db, tableName, tableMeta);
+
+        match = parseFullTextQuery(options.search, fullTextColumns(tableMeta), columns);
+        const fullText = fullTextFilter(tableName, match);
+        filters.push(fullText.where);
+        params.push(match);
+        relevance = fullText.relevance;
+    } else if (options.search) {
+        const searchResult = parseSearchQuery(options.search, columns, loadRefLookup(db, columns), options.timeZone);
+        report = searchResult.report;
+        if (options.strict && report.warnings.length > 0) {
+            throw new Error(`Invalid query: ${report.warnings.join('; ')}`);
         }
-        const searchResult = parseSearchQuery(options.search, columns, refLookup);
         filters.push(searchResult.where);
         params.push(...searchResult.params);
     }
 
-    let query = `SELECT * FROM ${tableName}`;
-    if (filters.length) {
-        query += ` WHERE ` + filters.join(' AND ');
+    const sortKeys = buildSortKeys(tableName, columns, options.sort, relevance);
+
+    return { filters, params, orderBy: orderByClause(sortKeys), sortKeys, match, report };
+}
+
+/** How getTable counts rows: not at all, estimated from a sample, or exactly */
+export type CountMode = 'none' | 'estimate' | 'exact';
+
+// Rows an estimated count samples; smaller tables are counted exactly
+const COUNT_SAMPLE_ROWS = 10000;
+
+/**
+ * Estimates how many rows match `filters` from a sample of about
+ * COUNT_SAMPLE_ROWS rows, whatever the table size. Rows are picked by a
+ * hash of their id rather than every n-th id, so data that repeats with
+ * insertion order does not skew the sample.
+ */
+function estimateMatches(db: DatabaseType, source: string, filters: string[], params: any[], totalRows: number): number {
+    const stride = Math.ceil(totalRows / COUNT_SAMPLE_ROWS);
+    const { sampled, matched } = db.prepare(`
+        SELECT COUNT(*) AS sampled, COALESCE(SUM(CASE WHEN ${filters.join(' AND ')} THEN 1 ELSE 0 END), 0) AS matched
+        FROM ${source} WHERE ((id * 1103515245 + 12345) >> 16) % ? = 0
+    `).get(...params, stride) as { sampled: number; matched: number };
+    return sampled ? Math.round(matched * totalRows / sampled) : 0;
+}
+
+/**
+ * Gets a table with its rows. Pages are read either by offset or, with
+ * `cursor`, after the last row of the previous page (keyset pagination,
+ * stable while rows change). With a limit, `nextCursor` points past the
+ * returned page, or is null on the last page and for s=rand. A saved
+ * `view` also sets the page size and the columns' visibility and order.
+ * Formula columns come computed (see rowSource).
+ */
+export function getTable(
+    dbId: string,
+    tableName: string,
+    options?: {
+        offset?: number;
+        limit?: number;
+        cursor?: string;
+        count?: CountMode;
+        hidden?: boolean;
+        search?: string;
+        sort?: string;
+        mode?: TableQueryOptions['mode'];
+        timeZone?: string;
+        strict?: boolean;
+        view?: string;
     }
+) {
+    const { dbPath, metaPath } = getDbPaths(dbId);
 
-    let sortCol = 'date_modified';
-    let sortDir = 'DESC';
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
 
-    if (options?.sort) {
-        const [col, dir] = options.sort.split(':');
-        if (col && col.toLowerCase() === 'rand') {
-            query += ` ORDER BY RANDOM()`;
-        } else {
-            if (col) {
-                const resolved = resolveFieldName(col, columns);
-                if (resolved) sortCol = resolved;
-            }
-            if (dir && ['asc', 'desc'].includes(dir.toLowerCase())) {
-                sortDir = dir.toUpperCase();
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const view = options?.view ? findView(metadata, tableName, options.view) : undefined;
+    const db = new Database(dbPath);
+    try {
+        registerSearchFunctions(db);
+
+        const found = db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name = ?`).get(tableName);
+        if (!found) throw new Error(`Table '${tableName}' does not exist in '${dbId}'`);
+
+        const columns = readTableColumns(db, metadata, tableName);
+        const source = rowSource(metadata, tableName);
+        const { filters, params, orderBy, sortKeys, match } = buildTableQuery(db, tableName, columns, options, metadata);
+        const resumable = !sortKeys.some(k => k.expr === RANDOM_SORT);
+
+        const pageFilters = [...filters];
+        const pageParams = [...params];
+        if (options?.cursor) {
+            if (!resumable) throw new Error('Invalid cursor: rows sorted with s=rand cannot be paged by cursor');
+            const keyset = keysetFilter(sortKeys, decodeCursor(options.cursor, orderBy, sortKeys.length));
+            pageFilters.push(keyset.where);
+            pageParams.push(...keyset.params);
+        }
+
+        let query = `SELECT * FROM ${source}`;
+        if (pageFilters.length) {
+            query += ` WHERE ` + pageFilters.join(' AND ');
+        }
+        query += ` ORDER BY ${orderBy}`;
+
+        // One row past the limit tells whether there is a next page
+        const limit = options?.limit ?? view?.pageSize;
+        const paged = typeof limit === 'number' && limit >= 0;
+        if (typeof limit === 'number') {
+            query += ` LIMIT ?`;
+            pageParams.push(paged ? limit + 1 : limit);
+            if (typeof options?.offset === 'number' && !options.cursor) {
+                query += ` OFFSET ?`;
+                pageParams.push(options.offset);
             }
-            query += ` ORDER BY ${sortCol} ${sortDir}`;
         }
-    } else {
-        query += ` ORDER BY ${sortCol} ${sortDir}`;
-    }
 
-    if (typeof options?.limit === 'number') {
-        query += ` LIMIT ?`;
-        params.push(options.limit);
-        if (typeof options?.offset === 'number') {
-            query += ` OFFSET ?`;
-            params.push(options.offset);
+        const rows = db.prepare(query).all(...pageParams) as Array<Record<string, any>>;
+        const hasMore = paged && rows.length > limit;
+        if (hasMore) rows.pop();
+
+        let nextCursor: string | null = null;
+        if (hasMore && resumable) {
+            const last = db.prepare(`SELECT ${sortKeys.map((k, i) => `${k.expr} AS k${i}`).join(', ')} FROM ${source} WHERE id = ?`)
+                .get(rows[rows.length - 1].id) as Record<string, CursorValue>;
+            nextCursor = encodeCursor(orderBy, sortKeys.map((_, i) => last[`k${i}`]));
         }
-    }
 
-    const rows = db.prepare(query).all(...params);
-    const hidden = metadata.tables?.[tableName]?.hidden ?? false;
+        const hidden = metadata.tables?.[tableName]?.hidden ?? false;
+
+        // Counts ignore the cursor and the limit
+        const count = options?.count ?? 'exact';
+        let totalRows: number | null = null;
+        let filteredRows: number | null = null;
+        if (count !== 'none') {
+            type CountRow = { count: number };
+            totalRows = (db.prepare(`SELECT COUNT(*) AS count FROM ${tableName}`).get() as CountRow).count;
+            if (filters.length === 0) {
+                filteredRows = totalRows;
+            } else if (count === 'exact' || totalRows <= COUNT_SAMPLE_ROWS) {
+                filteredRows = (db.prepare(`SELECT COUNT(*) AS count FROM ${source} WHERE ${filters.join(' AND ')}`).get(...params) as CountRow).count;
+            } else {
+                filteredRows = estimateMatches(db, source, filters, params, totalRows);
+            }
+        }
 
-    type CountRow = { count: number };
+        // Full-text matches come with highlighted snippets per row
+        const highlights = match !== undefined && metadata.tables?.[tableName]
+            ? readSnippets(db, tableName, metadata.tables[tableName], match, rows.map(r => r.id))
+            : undefined;
+
+        return {
+            name: tableName,
+            hidden,
+            columns: view ? applyViewColumns(columns, view) : columns,
+            rows,
+            totalRows,
+            filteredRows,
+            count,
+            nextCursor,
+            ...(view && { view: options!.view }),
+            ...(highlights && { highlights }),
+        };
+    } finally {
+        db.close();
+    }
+}
 
-    const totalRows = (db.prepare(`SELECT COUNT(*) AS count FROM ${tableName}`).get() as CountRow).count;
+/**
+ * Explains how getTable would read a query: the parsed tree, the column and
+ * type each field resolved to, the generated SQL with its params, and
+ * warnings for unknown fields, ignored operators and fallbacks. With
+ * mode=fulltext the FTS5 expression is returned instead of a tree.
+ */
+export function explainTableQuery(dbId: string, tableName: string, options: TableQueryOptions) {
+    const { dbPath, metaPath } = getDbPaths(dbId);
 
-    const filteredRowsParams = [...params];
-    if (typeof options?.limit === 'number') filteredRowsParams.pop();
-    if (typeof options?.offset === 'number') filteredRowsParams.pop();
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
 
-    let filteredRowsQuery = `SELECT COUNT(*) AS count FROM ${tableName}`;
-    if (filters.length) filteredRowsQuery += ` WHERE ` + filters.join(' AND ');
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const db = new Database(dbPath);
+    try {
+        const found = db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name = ?`).get(tableName);
+        if (!found) throw new Error(`Table '${tableName}' not found in '${dbId}'`);
+
+        const columns = readTableColumns(db, metadata, tableName);
+        const { filters, params, orderBy, match, report } = buildTableQuery(db, tableName, columns, { ...options, strict: false }, metadata);
+
+        let sql = `SELECT * FROM ${rowSource(metadata, tableName)}`;
+        if (filters.length) sql += ` WHERE ` + filters.join(' AND ');
+        sql += ` ORDER BY ${orderBy}`;
+
+        return {
+            table: tableName,
+            query: options.search ?? '',
+            mode: options.mode ?? 'query',
+            ...(match !== undefined
+                ? { match }
+                : { tree: report?.tree ?? null, fallback: report?.fallback ?? false, fields: report?.fields ?? [] }),
+            where: filters.join(' AND ') || '1',
+            sql,
+            params,
+            warnings: report?.warnings ?? [],
+        };
+    } finally {
+        db.close();
+    }
+}
 
-    const filteredRows = (db.prepare(filteredRowsQuery).get(...filteredRowsParams) as CountRow).count;
+/**
+ * Lists existing rows that violate each column's `required` level.
+ * Only columns set to 'yes' or 'soft yes' are reported; system columns are
+ * filled automatically and skipped.
+ */
+export function getRequiredReport(dbId: string, tableName: string) {
+    const { dbPath, metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
 
-    db.close();
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const tableMeta = metadata.tables?.[tableName];
+    if (!tableMeta) throw new Error(`Table '${tableName}' not found in metadata.`);
 
-    return { name: tableName, hidden, columns, rows, totalRows, filteredRows };
+    const db = new Database(dbPath);
+    try {
+        const columns = Object.entries(tableMeta.columns)
+            .filter(([colName, colMeta]) =>
+                !autoColumns.includes(colName) && (colMeta.required === 'yes' || colMeta.required === 'soft yes'))
+            .map(([colName, colMeta]) => {
+                const rows = db.prepare(
+                    `SELECT id, title FROM "${tableName}" WHERE ${emptyValueSql(colName, colMeta.type)} ORDER BY id`
+                ).all() as Array<{ id: number; title: string | null }>;
+                return {
+                    column: colName,
+                    type: colMeta.type,
+                    required: colMeta.required as 'yes' | 'soft yes',
+                    count: rows.length,
+                    rows,
+                };
+            });
+
+        const totalRows = (db.prepare(`SELECT COUNT(*) AS count FROM "${tableName}"`).get() as { count: number }).count;
+        const violatingIds = new Set(columns.flatMap(c => c.rows.map(r => r.id)));
+
+        return { table: tableName, totalRows, violatingRows: violatingIds.size, columns };
+    } finally {
+        db.close();
+    }
 }
 
 // Renames table
-export function renameTable(dbId: string, oldName: string, newRawName: string): void {
+export function renameTable(dbId: string, oldName: string, newRawName: string, options: JournalOptions = {}): void {
     const { dbPath, metaPath } = getDbPaths(dbId);
 
     if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
     if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
 
     const newName = normalizeName(newRawName);
+    if (isInternalTable(newName)) throw new Error(`Table names starting with '${INTERNAL_PREFIX}' are reserved.`);
     const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
 
     if (!metadata.tables?.[oldName]) {
@@ -297,10 +667,16 @@ export function renameTable(dbId: string, oldName: string, newRawName: string):
 
     const db = new Database(dbPath);
     db.exec(`ALTER TABLE ${oldName} RENAME TO ${newName};`);
+    renameAuditTable(db, oldName, newName);
+    renameRowTrashTable(db, oldName, newName);
+    renameFullTextIndex(db, oldName, newName);
+    recordSchemaOp(db, { op: 'rename_table', oldName, newName }, options);
     db.close();
 
     metadata.tables[newName] = metadata.tables[oldName];
     delete metadata.tables[oldName];
+    renameReferenceTable(metadata, oldName, newName);
+    renameTagListTable(metadata, oldName, newName);
     metadata.modifiedAt = new Date().toISOString();
     fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
 
@@ -323,20 +699,55 @@ export function setTableVisibility(dbId: string, tableName: string, hidden: bool
     fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
 }
 
-// Deletes specific table
-export function deleteTable(dbId: string, tableName: string): void {
+/**
+ * Deletes a table into the trash, together with the table_ref values the
+ * delete nulls in other tables, so it can be restored (or the delete undone).
+ */
+export function deleteTable(dbId: string, tableName: string, options: JournalOptions = {}): void {
     const { dbPath, metaPath } = getDbPaths(dbId);
 
     if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
     if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
 
+    const before: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const tableMeta = before.tables?.[tableName];
+
+    // Values the cascade below is about to null, kept for undo
+    const refs: TableRefValues[] = [];
+    const db = new Database(dbPath);
+    try {
+        for (const [tName, tMeta] of Object.entries(before.tables ?? {})) {
+            if (tName === tableName) continue;
+            for (const [cName, cDef] of Object.entries(tMeta.columns ?? {})) {
+                if (cDef.linkedTable !== tableName) continue;
+                if (cDef.type !== 'table_ref' && cDef.type !== 'table_ref_many') continue;
+                const values = (db.prepare(`SELECT id, "${cName}" AS value FROM "${tName}" WHERE "${cName}" IS NOT NULL`)
+                    .all() as Array<{ id: number; value: any }>)
+                    .map(r => [r.id, r.value] as [number, any]);
+                refs.push({ table: tName, column: cName, values });
+            }
+        }
+    } finally {
+        db.close();
+    }
+
     // Null out & clear linkedTable on any table_ref columns pointing to this table
     // Must run before the table is dropped so the UPDATE statements still work
     cascadeOnTableDelete(dbId, tableName);
 
-    const db = new Database(dbPath);
-    db.exec(`DROP TABLE IF EXISTS ${tableName};`);
-    db.close();
+    const conn = new Database(dbPath);
+    try {
+        dropFullTextIndex(conn, tableName);
+        if (!tableMeta) {
+            conn.exec(`DROP TABLE IF EXISTS ${tableName};`);
+            clearAuditTable(conn, tableName);
+        } else {
+            const trashId = trashTable(conn, dbId, tableName, tableMeta, refs);
+            recordSchemaOp(conn, { op: 'delete_table', table: tableName, trashId }, options);
+        }
+    } finally {
+        conn.close();
+    }
 
     const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
     if (metadata.tables && metadata.tables[tableName]) {
@@ -2,6 +2,9 @@ import fs from 'fs';
 import Database from 'better-sqlite3';
 import type { DatabaseMetadata } from '../types';
 import { getDbPaths } from '../utils/db-paths';
+import { recordAudit } from './audit-functions';
+
+type DatabaseType = InstanceType<typeof Database>;
 
 /**
  * Sets the target table for a table_ref or table_ref_many column.
@@ -31,23 +34,38 @@ export function setTableRefTarget(
     fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
 }
 
+// A reference to a deleted row that a cascade removed
+export interface ClearedRef {
+    table: string;
+    column: string;
+    rowId: number;
+}
+
 /**
  * When a row is deleted, null out all table_ref/table_ref_many columns across
- * all tables in the same DB that held a reference to that row's ID.
+ * all tables in the same DB that held a reference to that row's ID. Each
+ * changed row gets a 'patch' audit entry with cause 'cascade'.
+ *
+ * Returns the references it removed, so a restore can put them back.
+ *
+ * Pass `conn` to run on an already-open connection (e.g. inside a batch
+ * transaction); it is left open.
  */
 export function cascadeNullOnRowDelete(
     dbId: string,
     deletedTable: string,
-    deletedRowId: number
-): void {
+    deletedRowId: number,
+    conn?: DatabaseType
+): ClearedRef[] {
     const { dbPath, metaPath } = getDbPaths(dbId);
-    if (!fs.existsSync(metaPath) || !fs.existsSync(dbPath)) return;
+    if (!fs.existsSync(metaPath) || !fs.existsSync(dbPath)) return [];
 
     const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
-    if (!metadata.tables) return;
+    if (!metadata.tables) return [];
 
-    const db = new Database(dbPath);
+    const db = conn ?? new Database(dbPath);
     const now = Date.now();
+    const cleared: ClearedRef[] = [];
 
     try {
         for (const [tName, tMeta] of Object.entries(metadata.tables)) {
@@ -56,30 +74,137 @@ export function cascadeNullOnRowDelete(
                 if (cDef.linkedTable !== deletedTable) continue;
 
                 if (cDef.type === 'table_ref') {
-                    db.prepare(
-                        `UPDATE "${tName}" SET "${cName}" = NULL, date_modified = ? WHERE "${cName}" = ?`
-                    ).run(now, deletedRowId);
+                    const rows = db.prepare(
+                        `SELECT * FROM "${tName}" WHERE "${cName}" = ?`
+                    ).all(deletedRowId) as Array<Record<string, any>>;
+
+                    for (const row of rows) {
+                        db.prepare(
+                            `UPDATE "${tName}" SET "${cName}" = NULL, date_modified = ? WHERE id = ?`
+                        ).run(now, row.id);
+                        recordAudit(db, tName, row.id, 'patch', row, { ...row, [cName]: null }, { cause: 'cascade' });
+                        cleared.push({ table: tName, column: cName, rowId: row.id });
+                    }
                 } else if (cDef.type === 'table_ref_many') {
                     // Parse each row's JSON array and filter out the deleted ID
                     const rows = db.prepare(
-                        `SELECT id, "${cName}" FROM "${tName}" WHERE "${cName}" IS NOT NULL AND "${cName}" != ''`
-                    ).all() as Array<{ id: number; [key: string]: any }>;
+                        `SELECT * FROM "${tName}" WHERE "${cName}" IS NOT NULL AND "${cName}" != ''`
+                    ).all() as Array<Record<string, any>>;
 
                     for (const row of rows) {
                         let ids: number[];
                         try { ids = JSON.parse(row[cName]); } catch { continue; }
+                        if (!ids.includes(deletedRowId)) continue;
                         const filtered = ids.filter(id => id !== deletedRowId);
                         const newVal = filtered.length > 0 ? JSON.stringify(filtered) : null;
                         db.prepare(
                             `UPDATE "${tName}" SET "${cName}" = ?, date_modified = ? WHERE id = ?`
                         ).run(newVal, now, row.id);
+                        recordAudit(db, tName, row.id, 'patch', row, { ...row, [cName]: newVal }, { cause: 'cascade' });
+                        cleared.push({ table: tName, column: cName, rowId: row.id });
                     }
                 }
             }
         }
     } finally {
-        db.close();
+        if (!conn) db.close();
+    }
+
+    return cleared;
+}
+
+// The rows of one table_ref / table_ref_many column that reference a row
+export interface Backlinks {
+    table: string;
+    column: string;
+    type: 'table_ref' | 'table_ref_many';
+    rows: Array<{ id: number; title: string | null }>;
+}
+
+/**
+ * Finds the rows that reference row `rowId` of `tableName`: the same
+ * table_ref / table_ref_many columns cascadeNullOnRowDelete walks, grouped by
+ * table and column, oldest rows first. Columns with no such rows are left out.
+ * Runs on `conn`, left open.
+ */
+export function findBacklinks(
+    metadata: DatabaseMetadata,
+    tableName: string,
+    rowId: number,
+    conn: DatabaseType
+): Backlinks[] {
+    const backlinks: Backlinks[] = [];
+
+    for (const [tName, tMeta] of Object.entries(metadata.tables ?? {})) {
+        if (!tMeta.columns) continue;
+        for (const [cName, cDef] of Object.entries(tMeta.columns)) {
+            if (cDef.linkedTable !== tableName) continue;
+            if (cDef.type !== 'table_ref' && cDef.type !== 'table_ref_many') continue;
+
+            const where = cDef.type === 'table_ref'
+                ? `"${cName}" = ?`
+                : `EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid("${cName}") THEN "${cName}" ELSE '[]' END) WHERE value = ?)`;
+            const rows = conn.prepare(
+                `SELECT id, title FROM "${tName}" WHERE ${where} ORDER BY id`
+            ).all(rowId) as Backlinks['rows'];
+
+            if (rows.length > 0) backlinks.push({ table: tName, column: cName, type: cDef.type, rows });
+        }
+    }
+
+    return backlinks;
+}
+
+/**
+ * Puts back references that cascadeNullOnRowDelete removed, once the row they
+ * pointed to is restored. A reference is skipped when its column is gone or
+ * now links elsewhere, or when a table_ref cell has been set since. Each
+ * changed row gets a 'patch' audit entry with cause 'restore'.
+ *
+ * Returns how many references were put back. Runs on `conn`, left open.
+ */
+export function restoreClearedRefs(
+    dbId: string,
+    restoredTable: string,
+    restoredRowId: number,
+    refs: ClearedRef[],
+    conn: DatabaseType
+): number {
+    const { metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(metaPath)) return 0;
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+
+    const now = Date.now();
+    let restored = 0;
+
+    for (const ref of refs) {
+        const cDef = metadata.tables?.[ref.table]?.columns?.[ref.column];
+        if (!cDef || cDef.linkedTable !== restoredTable) continue;
+
+        const row = conn.prepare(`SELECT * FROM "${ref.table}" WHERE id = ?`).get(ref.rowId) as Record<string, any> | undefined;
+        if (!row) continue;
+
+        let newVal: any;
+        if (cDef.type === 'table_ref') {
+            if (row[ref.column] !== null) continue;
+            newVal = restoredRowId;
+        } else if (cDef.type === 'table_ref_many') {
+            let ids: number[] = [];
+            try { ids = row[ref.column] ? JSON.parse(row[ref.column]) : []; } catch { continue; }
+            if (ids.includes(restoredRowId)) continue;
+            newVal = JSON.stringify([...ids, restoredRowId].sort((a, b) => a - b));
+        } else {
+            continue;
+        }
+
+        conn.prepare(
+            `UPDATE "${ref.table}" SET "${ref.column}" = ?, date_modified = ? WHERE id = ?`
+        ).run(newVal, now, ref.rowId);
+        recordAudit(conn, ref.table, ref.rowId, 'patch', row, { ...row, [ref.column]: newVal }, { cause: 'restore' });
+        restored++;
     }
+
+    return restored;
 }
 
 /**
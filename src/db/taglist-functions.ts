@@ -0,0 +1,208 @@
+/**
+ * GlobalTagList helpers: database-level named lists of tag values that can be
+ * synced from a source column and bound to any number of tag columns.
+ *
+ * Lists live in the database metadata under `globalTagLists`. A tag column is
+ * bound to a list through its `linkedList` field; while bound, the column is
+ * tag-locked and its `tags[]` are replaced every time the list is synced.
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import type { DatabaseMetadata, GlobalTagList, TagDef } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { normalizeName } from '../utils/normalize-name';
+
+const syncableTypes = ['string', 'single_tag', 'multi_tag'];
+
+function readMetadata(dbId: string): { metaPath: string; metadata: DatabaseMetadata } {
+    const { metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    return { metaPath, metadata };
+}
+
+/**
+ * Replaces a column's tags[] with the list values. Tag names are normalized
+ * the same way registerTag does; descriptions of tags that survive are kept.
+ */
+function applyListToColumn(
+    column: { tags?: TagDef[] },
+    list: GlobalTagList
+): void {
+    const existing = new Map((column.tags ?? []).map(t => [t.name, t.description]));
+    const names = Array.from(new Set(list.values.map(v => normalizeName(v)).filter(Boolean)));
+    column.tags = names.map(name => ({ name, description: existing.get(name) ?? '' }));
+}
+
+// Lists all GlobalTagLists in a database
+export function listGlobalTagLists(dbId: string): GlobalTagList[] {
+    const { metadata } = readMetadata(dbId);
+    return metadata.globalTagLists ?? [];
+}
+
+// Gets a single GlobalTagList
+export function getGlobalTagList(dbId: string, listId: string): GlobalTagList {
+    const { metadata } = readMetadata(dbId);
+    const list = metadata.globalTagLists?.find(l => l.id === listId);
+    if (!list) throw new Error(`GlobalTagList '${listId}' not found.`);
+    return list;
+}
+
+/**
+ * Creates or updates the GlobalTagList sourced from tableName.columnName.
+ *
+ *   single_tag / multi_tag → the column's registered tag names
+ *   string                 → every unique non-null value in the table
+ *
+ * A list already sourced from the same table + column is updated in place
+ * (same id). Every tag column linked to the list gets its tags[] refreshed.
+ */
+export function syncGlobalTagList(
+    dbId: string,
+    tableName: string,
+    columnName: string,
+    name?: string
+): GlobalTagList {
+    const { dbPath } = getDbPaths(dbId);
+    const { metaPath, metadata } = readMetadata(dbId);
+
+    const column = metadata.tables?.[tableName]?.columns?.[columnName];
+    if (!column) throw new Error(`Column '${columnName}' not found in table '${tableName}'.`);
+    if (!syncableTypes.includes(column.type))
+        throw new Error(`Column '${columnName}' must be string, single_tag, or multi_tag to sync a GlobalTagList.`);
+
+    let values: string[];
+    if (column.type === 'string') {
+        if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+        const db = new Database(dbPath);
+        try {
+            const rows = db.prepare(
+                `SELECT DISTINCT "${columnName}" AS value FROM "${tableName}" WHERE "${columnName}" IS NOT NULL`
+            ).all() as Array<{ value: any }>;
+            values = rows.map(r => String(r.value).trim()).filter(v => v !== '');
+        } finally {
+            db.close();
+        }
+    } else {
+        values = (column.tags ?? []).map(t => t.name);
+    }
+    values = Array.from(new Set(values)).sort();
+
+    const now = new Date().toISOString();
+    metadata.globalTagLists ??= [];
+    let list = metadata.globalTagLists.find(
+        l => l.sourceTable === tableName && l.sourceColumn === columnName
+    );
+
+    if (list) {
+        list.values = values;
+        if (name) list.name = name;
+        list.modifiedAt = now;
+    } else {
+        list = {
+            id: `${tableName}_${columnName}_${Date.now()}`,
+            name: name || `${tableName}.${columnName}`,
+            sourceTable: tableName,
+            sourceColumn: columnName,
+            values,
+            createdAt: now,
+            modifiedAt: now,
+        };
+        metadata.globalTagLists.push(list);
+    }
+
+    // Propagate into every column bound to this list
+    for (const tMeta of Object.values(metadata.tables ?? {})) {
+        for (const cDef of Object.values(tMeta.columns ?? {})) {
+            if (cDef.linkedList === list.id) applyListToColumn(cDef, list);
+        }
+    }
+
+    metadata.modifiedAt = now;
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+    return list;
+}
+
+// Follows a table rename in the sources of the database's lists
+export function renameTagListTable(metadata: DatabaseMetadata, oldName: string, newName: string): void {
+    for (const list of metadata.globalTagLists ?? []) {
+        if (list.sourceTable === oldName) list.sourceTable = newName;
+    }
+}
+
+// Follows a column rename in the sources of the database's lists
+export function renameTagListColumn(metadata: DatabaseMetadata, tableName: string, oldName: string, newName: string): void {
+    for (const list of metadata.globalTagLists ?? []) {
+        if (list.sourceTable === tableName && list.sourceColumn === oldName) list.sourceColumn = newName;
+    }
+}
+
+/**
+ * Deletes a GlobalTagList. Columns linked to it are unlinked first; their
+ * tags remain as the last-synced values.
+ */
+export function deleteGlobalTagList(dbId: string, listId: string): void {
+    const { metaPath, metadata } = readMetadata(dbId);
+    const lists = metadata.globalTagLists ?? [];
+    if (!lists.some(l => l.id === listId)) throw new Error(`GlobalTagList '${listId}' not found.`);
+
+    for (const tMeta of Object.values(metadata.tables ?? {})) {
+        for (const cDef of Object.values(tMeta.columns ?? {})) {
+            if (cDef.linkedList === listId) {
+                cDef.linkedList = '';
+                cDef.tagLock = false;
+            }
+        }
+    }
+
+    metadata.globalTagLists = lists.filter(l => l.id !== listId);
+    metadata.modifiedAt = new Date().toISOString();
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+}
+
+/**
+ * Binds a single_tag / multi_tag column to a GlobalTagList: sets tagLock and
+ * replaces the column's tags[] with the list values.
+ */
+export function linkColumnToList(
+    dbId: string,
+    tableName: string,
+    columnName: string,
+    listId: string
+): void {
+    const { metaPath, metadata } = readMetadata(dbId);
+    const col = metadata.tables?.[tableName]?.columns?.[columnName];
+    if (!col) throw new Error(`Column '${columnName}' not found in table '${tableName}'.`);
+    if (col.type !== 'single_tag' && col.type !== 'multi_tag')
+        throw new Error(`Only single_tag / multi_tag columns can be linked to a GlobalTagList.`);
+
+    const list = metadata.globalTagLists?.find(l => l.id === listId);
+    if (!list) throw new Error(`GlobalTagList '${listId}' not found.`);
+
+    col.linkedList = list.id;
+    col.tagLock = true;
+    applyListToColumn(col, list);
+
+    metadata.modifiedAt = new Date().toISOString();
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+}
+
+/**
+ * Unbinds a tag column from its GlobalTagList and releases the tag lock.
+ * Tags remain as the last-synced values.
+ */
+export function unlinkColumnFromList(dbId: string, tableName: string, columnName: string): void {
+    const { metaPath, metadata } = readMetadata(dbId);
+    const col = metadata.tables?.[tableName]?.columns?.[columnName];
+    if (!col) throw new Error(`Column '${columnName}' not found in table '${tableName}'.`);
+    if (col.type !== 'single_tag' && col.type !== 'multi_tag')
+        throw new Error(`Only single_tag / multi_tag columns can be linked to a GlobalTagList.`);
+    if (!col.linkedList) throw new Error(`Column '${columnName}' is not linked to a GlobalTagList.`);
+
+    col.linkedList = '';
+    col.tagLock = false;
+
+    metadata.modifiedAt = new Date().toISOString();
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+}
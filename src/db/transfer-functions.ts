@@ -34,6 +34,9 @@ import type { ColumnDef, ColumnType, DatabaseMetadata } from '../types';
 import { getDbPaths } from '../utils/db-paths';
 import { normalizeName } from '../utils/normalize-name';
 import { columnTypeMap } from '../utils/type-mapping';
+import { recordAudit } from './audit-functions';
+import { dropFullTextIndex, syncFullTextRow } from './fulltext-functions';
+import { columnDefaultValue, validateColumnValue } from './row-functions';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -62,6 +65,29 @@ export interface CopyRowsResult {
     errors: string[];
 }
 
+export interface ConversionFailure {
+    rowId: number;
+    value: any;
+    reason: string;
+}
+
+export interface ColumnConversionReport {
+    column: string;
+    fromType: ColumnType;
+    toType: ColumnType;
+    dryRun: boolean;
+    /** Rows holding a non-null value before conversion */
+    total: number;
+    /** Rows whose value survived conversion */
+    converted: number;
+    /** Rows whose value could not be converted (stored as null) */
+    failed: ConversionFailure[];
+    /** Tags registered on the column from the converted values */
+    registeredTags: string[];
+    /** Dry run only: before/after for the first rows */
+    preview?: Array<{ rowId: number; before: any; after: any }>;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Compatibility matrix
 // ─────────────────────────────────────────────────────────────────────────────
@@ -123,11 +149,16 @@ function compatibilityLevel(sourceType: ColumnType, targetType: ColumnType): Com
  * @param sourceColumns  Columns from the source table
  * @param targetColumns  Columns from the target table
  * @param overrides      Manual pinning: { targetColumnName: sourceColumnName }
+ * @param options        requireNameMatch: skip step 5, so a target column is
+ *                       only matched by name (exact or fuzzy) or override;
+ *                       stringByName: in step 3, a string target takes a
+ *                       same-named source of any type (string_catch)
  */
 export function buildColumnMapping(
     sourceColumns: ColumnDef[],
     targetColumns: ColumnDef[],
-    overrides: Record<string, string> = {}
+    overrides: Record<string, string> = {},
+    options: { requireNameMatch?: boolean; stringByName?: boolean } = {}
 ): ColumnMappingEntry[] {
     const systemCols = new Set(['id', 'hidden', 'date_created', 'date_modified']);
 
@@ -164,7 +195,8 @@ export function buildColumnMapping(
         }
 
         // 3. Exact name + compatible type
-        if (exactMatch && areTypesCompatible(exactMatch.type, target.type)) {
+        const stringCatch = options.stringByName && target.type === 'string';
+        if (exactMatch && (areTypesCompatible(exactMatch.type, target.type) || stringCatch)) {
             return {
                 targetColumn: target.name,
                 targetType: target.type,
@@ -192,7 +224,7 @@ export function buildColumnMapping(
         }
 
         // 5. First compatible type regardless of name
-        const typeMatch = sourceColumns.find(
+        const typeMatch = !options.requireNameMatch && sourceColumns.find(
             s => !systemCols.has(s.name) && areTypesCompatible(s.type, target.type)
         );
         if (typeMatch) {
@@ -224,7 +256,8 @@ export function buildColumnMapping(
 
 /**
  * Copies rows from sourceTable to targetTable, mapping values between columns
- * according to the provided columnMapping.
+ * according to the provided columnMapping. Target columns with no source
+ * column get their default, if they have one.
  *
  * @param sourceDbId       ID of the source database
  * @param sourceTableName  Name of the source table
@@ -280,6 +313,10 @@ export function copyRows(
                 targetCols.push(m.targetColumn);
             }
         }
+        // Target columns nothing maps to get their default, if they have one
+        const defaultCols = new Set(Object.keys(tgtTableMeta.columns)
+            .filter(col => tgtTableMeta.columns[col].default !== undefined && !targetCols.includes(col)));
+        targetCols.push(...defaultCols);
 
         const insertCols = targetCols.filter(c => c !== 'id');
         const placeholders = insertCols.map(() => '?').join(', ');
@@ -297,13 +334,21 @@ export function copyRows(
                         if (col === 'date_created') return row.date_created ?? now;
                         if (col === 'date_modified') return now;
                         if (col === 'hidden') return 0;
+                        if (defaultCols.has(col)) {
+                            const colMeta = tgtTableMeta.columns[col];
+                            const value = columnDefaultValue(tgtDb, targetTableName, col, colMeta);
+                            return value === undefined ? null : validateColumnValue({ ...colMeta, name: col } as ColumnDef, value);
+                        }
                         const srcCol = tgtMappingLookup.get(col);
                         if (!srcCol) return null;
                         const srcVal = row[srcCol];
                         if (srcVal === undefined || srcVal === null) return null;
                         return coerceValue(srcVal, tgtTableMeta.columns[col]?.type ?? 'string');
                     });
-                    insertStmt.run(...values);
+                    const info = insertStmt.run(...values);
+                    const inserted = tgtDb.prepare(`SELECT * FROM "${targetTableName}" WHERE id = ?`).get(info.lastInsertRowid);
+                    recordAudit(tgtDb, targetTableName, inserted.id, 'create', {}, inserted, { cause: 'copy' });
+                    syncFullTextRow(tgtDb, targetTableName, tgtTableMeta, inserted.id);
                     result.copied++;
                 } catch (err: any) {
                     result.skipped++;
@@ -397,6 +442,9 @@ export function copyColumn(
 
         updateMany();
 
+        // Overwritten values are not in the full-text index; it is rebuilt on next use
+        if (existsInMeta) dropFullTextIndex(tgtDb, targetTableName);
+
         // 3. Update target metadata
         const colCount = Object.keys(tgtTableMeta.columns).length;
         tgtTableMeta.columns[finalTargetCol] = {
@@ -411,6 +459,76 @@ export function copyColumn(
     }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Single-value conversion (used by column retyping)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Converts one stored value from sourceType to targetType, following the
+ * same compatibility matrix and coercion rules as copyRows / copyColumn.
+ *
+ * A string target accepts anything as its text, the string_catch rule.
+ * Otherwise it is strict, unlike coerceValue: anything
+ * coerceValue would silently drop, zero, clamp or truncate (non-numeric
+ * strings, 42 into a rating, 3.7 into an integer, multiple tags into
+ * single_tag, invalid link JSON) throws, so callers can report it per row.
+ */
+export function convertColumnValue(value: any, sourceType: ColumnType, targetType: ColumnType): any {
+    if (value === null || value === undefined) return null;
+    if (sourceType === targetType) return value;
+    if (targetType === 'string') return String(value);
+    if (!areTypesCompatible(sourceType, targetType)) {
+        throw new Error(`${sourceType} values cannot be converted to ${targetType}`);
+    }
+
+    if (typeof value === 'string' && value.trim() === '') return null;
+
+    switch (targetType) {
+        case 'single_tag':
+        case 'multi_tag': {
+            const raw = String(value);
+            // A whole string becomes one single_tag; otherwise split into tags
+            const parts = sourceType === 'string' && targetType === 'single_tag'
+                ? [raw]
+                : raw.split(sourceType === 'string' ? /[\s,]+/ : /\s+/);
+            const tags = Array.from(new Set(parts.map(p => normalizeName(p)).filter(Boolean))).sort();
+            if (targetType === 'single_tag' && tags.length > 1) {
+                throw new Error(`Value holds ${tags.length} tags; single_tag accepts one`);
+            }
+            return tags.length > 0 ? tags.join(' ') : null;
+        }
+
+        case 'link': {
+            try {
+                const parsed = JSON.parse(String(value));
+                if (typeof parsed?.displayName !== 'string' || typeof parsed?.url !== 'string') throw new Error();
+            } catch {
+                throw new Error(`'${value}' is not a valid link object {displayName, url}`);
+            }
+            return String(value);
+        }
+
+        case 'integer':
+        case 'float':
+        case 'rating':
+        case 'advanced_rating':
+        case 'date':
+        case 'boolean': {
+            if (typeof value !== 'boolean' && isNaN(Number(value))) {
+                throw new Error(`'${value}' is not a valid ${targetType}`);
+            }
+            const coerced = coerceValue(value, targetType);
+            if (coerced !== Number(value)) {
+                throw new Error(`'${value}' would become ${coerced} as ${targetType}`);
+            }
+            return coerced;
+        }
+
+        default:
+            return coerceValue(value, targetType);
+    }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Internal helpers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,521 @@
+/**
+ * Trash bin: deleted rows, tables and databases are kept until they are
+ * restored, purged, or older than the auto-purge age.
+ *
+ *   rows       the internal __row_trash table of their database, with the
+ *              table_ref links the delete cleared
+ *   tables     trash/table_{name}_{timestamp}/ — the table in its own SQLite
+ *              file (with its history and trashed rows) and its metadata
+ *   databases  trash/database_{dbId}_{timestamp}/ — the whole folder, moved
+ *
+ * The trash folder sits next to backup/. Expired items are purged lazily,
+ * whenever the trash is listed or something new is put in it.
+ *
+ * Restoring a row is done by row-functions (restoreTrashedRow), which
+ * re-inserts it through the normal validation path.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { DatabaseMetadata } from '../types';
+import { DB_FOLDER, TRASH_FOLDER, getDbPaths, getTrashPaths } from '../utils/db-paths';
+import { ROW_TRASH_TABLE } from '../utils/internal-tables';
+import { clearAuditTable, copyAuditTable } from './audit-functions';
+import type { ClearedRef } from './tableref-functions';
+
+type DatabaseType = InstanceType<typeof Database>;
+type TableMeta = NonNullable<DatabaseMetadata['tables']>[string];
+
+export interface TrashSettings {
+    /** Days an item stays in the trash; 0 keeps items until purged by hand */
+    autoPurgeDays: number;
+}
+
+export type TrashKind = 'table' | 'database';
+
+// table_ref values another table held to a deleted table
+export interface TableRefValues {
+    table: string;
+    column: string;
+    values: Array<[number, any]>;
+}
+
+export interface TrashManifest {
+    id: string;
+    kind: TrashKind;
+    dbId: string;
+    /** Table name, or the database display name */
+    name: string;
+    deletedAt: string;
+    /** Tables only */
+    tableMeta?: TableMeta;
+    refs?: TableRefValues[];
+    rowCount?: number;
+}
+
+export interface TrashItem {
+    id: string;
+    kind: TrashKind;
+    dbId: string;
+    name: string;
+    deletedAt: string;
+    /** When auto-purge will remove the item (null if it never will) */
+    expiresAt: string | null;
+    rowCount?: number;
+}
+
+export interface TrashedRow {
+    trashId: number;
+    rowId: number;
+    title: string | null;
+    /** Milliseconds since epoch, like date_created / date_modified */
+    deletedAt: number;
+    expiresAt: number | null;
+    row: Record<string, any>;
+    refs: ClearedRef[];
+}
+
+const defaultSettings: TrashSettings = { autoPurgeDays: 30 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ensureTrashFolder() {
+    if (!fs.existsSync(TRASH_FOLDER)) {
+        fs.mkdirSync(TRASH_FOLDER, { recursive: true });
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Settings
+// ─────────────────────────────────────────────────────────────────────────────
+
+function settingsPath(): string {
+    return path.join(TRASH_FOLDER, 'settings.json');
+}
+
+export function getTrashSettings(): TrashSettings {
+    if (!fs.existsSync(settingsPath())) return { ...defaultSettings };
+    return { ...defaultSettings, ...JSON.parse(fs.readFileSync(settingsPath(), 'utf-8')) };
+}
+
+export function updateTrashSettings(settings: Partial<TrashSettings>): TrashSettings {
+    const { autoPurgeDays } = settings;
+    if (autoPurgeDays !== undefined && (typeof autoPurgeDays !== 'number' || !Number.isFinite(autoPurgeDays) || autoPurgeDays < 0)) {
+        throw new Error('autoPurgeDays must be a number of days, 0 or more');
+    }
+
+    ensureTrashFolder();
+    const next = { ...getTrashSettings(), ...(autoPurgeDays !== undefined ? { autoPurgeDays } : {}) };
+    fs.writeFileSync(settingsPath(), JSON.stringify(next, null, 2), 'utf-8');
+    return next;
+}
+
+// Time (ms) after which something deleted at `deletedAt` is purged, or null
+function expiryOf(deletedAt: number, settings: TrashSettings): number | null {
+    return settings.autoPurgeDays > 0 ? deletedAt + settings.autoPurgeDays * DAY_MS : null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Trash folder (tables and databases)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function newTrashId(kind: TrashKind, name: string): string {
+    let timestamp = Date.now();
+    while (fs.existsSync(getTrashPaths(`${kind}_${name}_${timestamp}`).folderPath)) timestamp++;
+    return `${kind}_${name}_${timestamp}`;
+}
+
+function readManifest(trashId: string): TrashManifest {
+    const { manifestPath } = getTrashPaths(trashId);
+    if (path.basename(trashId) !== trashId || !fs.existsSync(manifestPath)) {
+        throw new Error(`Trash item '${trashId}' not found.`);
+    }
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+}
+
+function writeManifest(manifest: TrashManifest): void {
+    fs.writeFileSync(getTrashPaths(manifest.id).manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+}
+
+// Moves a folder, copying when source and target are on different devices
+function moveFolder(from: string, to: string): void {
+    try {
+        fs.renameSync(from, to);
+    } catch (err: any) {
+        if (err.code !== 'EXDEV') throw err;
+        fs.cpSync(from, to, { recursive: true });
+        fs.rmSync(from, { recursive: true, force: true });
+    }
+}
+
+function toItem(manifest: TrashManifest, settings: TrashSettings): TrashItem {
+    const expiresAt = expiryOf(Date.parse(manifest.deletedAt), settings);
+    return {
+        id: manifest.id,
+        kind: manifest.kind,
+        dbId: manifest.dbId,
+        name: manifest.name,
+        deletedAt: manifest.deletedAt,
+        expiresAt: expiresAt === null ? null : new Date(expiresAt).toISOString(),
+        ...(manifest.rowCount !== undefined ? { rowCount: manifest.rowCount } : {}),
+    };
+}
+
+function readAllManifests(): TrashManifest[] {
+    if (!fs.existsSync(TRASH_FOLDER)) return [];
+    return fs.readdirSync(TRASH_FOLDER, { withFileTypes: true })
+        .filter(e => e.isDirectory() && fs.existsSync(getTrashPaths(e.name).manifestPath))
+        .map(e => readManifest(e.name));
+}
+
+export function trashItemExists(trashId: string): boolean {
+    return path.basename(trashId) === trashId && fs.existsSync(getTrashPaths(trashId).manifestPath);
+}
+
+// Purges every trash item older than the auto-purge age; returns their ids
+export function purgeExpiredTrash(): string[] {
+    const settings = getTrashSettings();
+    const now = Date.now();
+    const purged: string[] = [];
+    for (const manifest of readAllManifests()) {
+        const expiresAt = expiryOf(Date.parse(manifest.deletedAt), settings);
+        if (expiresAt !== null && expiresAt <= now) {
+            fs.rmSync(getTrashPaths(manifest.id).folderPath, { recursive: true, force: true });
+            purged.push(manifest.id);
+        }
+    }
+    return purged;
+}
+
+// GET the deleted tables and databases, newest first (optionally of one database)
+export function listTrash(dbId?: string): { autoPurgeDays: number; items: TrashItem[] } {
+    purgeExpiredTrash();
+    const settings = getTrashSettings();
+    const items = readAllManifests()
+        .filter(m => !dbId || m.dbId === dbId)
+        .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+        .map(m => toItem(m, settings));
+    return { autoPurgeDays: settings.autoPurgeDays, items };
+}
+
+// Permanently deletes one trash item
+export function purgeTrashItem(trashId: string): void {
+    readManifest(trashId);
+    fs.rmSync(getTrashPaths(trashId).folderPath, { recursive: true, force: true });
+}
+
+// Permanently deletes every trash item; returns how many there were
+export function emptyTrash(): number {
+    const manifests = readAllManifests();
+    for (const manifest of manifests) {
+        fs.rmSync(getTrashPaths(manifest.id).folderPath, { recursive: true, force: true });
+    }
+    return manifests.length;
+}
+
+// Points trashed tables of a renamed database at its new id
+export function retargetTrash(oldDbId: string, newDbId: string): void {
+    for (const manifest of readAllManifests()) {
+        if (manifest.kind !== 'table' || manifest.dbId !== oldDbId) continue;
+        writeManifest({ ...manifest, dbId: newDbId });
+    }
+}
+
+/**
+ * Moves a table out of an open database into the trash: its rows, history
+ * and trashed rows go to the item's own SQLite file, then the table is
+ * dropped. `refs` are the table_ref values other tables held to it.
+ * Returns the trash id.
+ */
+export function trashTable(
+    db: DatabaseType,
+    dbId: string,
+    tableName: string,
+    tableMeta: TableMeta,
+    refs: TableRefValues[]
+): string {
+    purgeExpiredTrash();
+    ensureTrashFolder();
+
+    const id = newTrashId('table', tableName);
+    const { folderPath, tablePath } = getTrashPaths(id);
+    const createSql = (db.prepare(`SELECT sql FROM sqlite_master WHERE type='table' AND name = ?`).get(tableName) as { sql: string } | undefined)?.sql;
+    if (!createSql) throw new Error(`Table '${tableName}' not found.`);
+
+    fs.mkdirSync(folderPath, { recursive: true });
+    try {
+        const trashDb = new Database(tablePath);
+        trashDb.exec(createSql);
+        trashDb.close();
+
+        db.prepare(`ATTACH DATABASE ? AS trash`).run(tablePath);
+        try {
+            db.transaction(() => {
+                db.exec(`INSERT INTO trash."${tableName}" SELECT * FROM main."${tableName}"`);
+                copyAuditTable(db, tableName, 'main', 'trash');
+                copyRowTrash(db, tableName, 'main', 'trash');
+            })();
+        } finally {
+            db.exec(`DETACH DATABASE trash`);
+        }
+
+        const { count } = db.prepare(`SELECT COUNT(*) AS count FROM "${tableName}"`).get() as { count: number };
+        writeManifest({ id, kind: 'table', dbId, name: tableName, deletedAt: new Date().toISOString(), tableMeta, refs, rowCount: count });
+
+        db.transaction(() => {
+            db.exec(`DROP TABLE "${tableName}"`);
+            clearAuditTable(db, tableName);
+            clearRowTrash(db, tableName);
+        })();
+    } catch (err) {
+        fs.rmSync(folderPath, { recursive: true, force: true });
+        throw err;
+    }
+
+    return id;
+}
+
+/**
+ * Puts a trashed table back into its database, with its metadata, history
+ * and trashed rows. table_ref columns that pointed to it are linked again,
+ * and their values are restored in cells that are still empty.
+ */
+export function restoreTrashedTable(trashId: string): { dbId: string; table: string; rows: number; restoredRefs: number } {
+    const manifest = readManifest(trashId);
+    if (manifest.kind !== 'table' || !manifest.tableMeta) throw new Error(`Trash item '${trashId}' is not a table.`);
+
+    const { dbPath, metaPath } = getDbPaths(manifest.dbId);
+    if (!fs.existsSync(dbPath) || !fs.existsSync(metaPath)) throw new Error(`Database '${manifest.dbId}' not found.`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const tableName = manifest.name;
+    if (metadata.tables?.[tableName]) throw new Error(`Table '${tableName}' already exists in '${manifest.dbId}'.`);
+
+    const db = new Database(dbPath);
+    let restoredRefs = 0;
+    try {
+        db.prepare(`ATTACH DATABASE ? AS trash`).run(getTrashPaths(trashId).tablePath);
+        try {
+            const { sql } = db.prepare(`SELECT sql FROM trash.sqlite_master WHERE type='table' AND name = ?`).get(tableName) as { sql: string };
+            db.transaction(() => {
+                db.exec(sql);
+                db.exec(`INSERT INTO main."${tableName}" SELECT * FROM trash."${tableName}"`);
+                copyAuditTable(db, tableName, 'trash', 'main');
+                copyRowTrash(db, tableName, 'trash', 'main');
+
+                for (const ref of manifest.refs ?? []) {
+                    const colDef = metadata.tables?.[ref.table]?.columns?.[ref.column];
+                    if (!colDef || (colDef.type !== 'table_ref' && colDef.type !== 'table_ref_many')) continue;
+                    if (colDef.linkedTable && colDef.linkedTable !== tableName) continue;
+                    colDef.linkedTable = tableName;
+
+                    // Only fill cells nobody has set since the delete
+                    const update = db.prepare(`UPDATE "${ref.table}" SET "${ref.column}" = ? WHERE id = ? AND "${ref.column}" IS NULL`);
+                    for (const [rowId, value] of ref.values) restoredRefs += update.run(value, rowId).changes;
+                }
+            })();
+        } finally {
+            db.exec(`DETACH DATABASE trash`);
+        }
+    } finally {
+        db.close();
+    }
+
+    metadata.tables = metadata.tables ?? {};
+    metadata.tables[tableName] = manifest.tableMeta;
+    metadata.modifiedAt = new Date().toISOString();
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+
+    fs.rmSync(getTrashPaths(trashId).folderPath, { recursive: true, force: true });
+    return { dbId: manifest.dbId, table: tableName, rows: manifest.rowCount ?? 0, restoredRefs };
+}
+
+// Moves a whole database folder into the trash; returns the trash id
+export function trashDatabase(dbId: string): string {
+    const { folderPath, metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(folderPath)) throw new Error(`Database '${dbId}' does not exist.`);
+
+    purgeExpiredTrash();
+    ensureTrashFolder();
+
+    const displayName = fs.existsSync(metaPath)
+        ? (JSON.parse(fs.readFileSync(metaPath, 'utf-8')) as DatabaseMetadata).displayName
+        : dbId;
+    const id = newTrashId('database', dbId);
+    const { folderPath: itemPath } = getTrashPaths(id);
+
+    fs.mkdirSync(itemPath, { recursive: true });
+    try {
+        moveFolder(folderPath, path.join(itemPath, dbId));
+        writeManifest({ id, kind: 'database', dbId, name: displayName, deletedAt: new Date().toISOString() });
+    } catch (err) {
+        if (!fs.existsSync(folderPath) && fs.existsSync(path.join(itemPath, dbId))) {
+            moveFolder(path.join(itemPath, dbId), folderPath);
+        }
+        fs.rmSync(itemPath, { recursive: true, force: true });
+        throw err;
+    }
+    return id;
+}
+
+// Moves a trashed database back under its original id
+export function restoreTrashedDatabase(trashId: string): { dbId: string } {
+    const manifest = readManifest(trashId);
+    if (manifest.kind !== 'database') throw new Error(`Trash item '${trashId}' is not a database.`);
+
+    const target = path.join(DB_FOLDER, manifest.dbId);
+    if (fs.existsSync(target)) throw new Error(`Database '${manifest.dbId}' already exists.`);
+
+    const { folderPath } = getTrashPaths(trashId);
+    moveFolder(path.join(folderPath, manifest.dbId), target);
+    fs.rmSync(folderPath, { recursive: true, force: true });
+    return { dbId: manifest.dbId };
+}
+
+// Restores a trashed table or database
+export function restoreTrashItem(trashId: string) {
+    const manifest = readManifest(trashId);
+    const restored = manifest.kind === 'table'
+        ? restoreTrashedTable(trashId)
+        : restoreTrashedDatabase(trashId);
+    return { id: trashId, kind: manifest.kind, name: manifest.name, ...restored };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Row trash
+// ─────────────────────────────────────────────────────────────────────────────
+
+function ensureRowTrash(db: DatabaseType, schema = 'main'): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS ${schema}.${ROW_TRASH_TABLE} (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            table_name TEXT NOT NULL,
+            row_id INTEGER NOT NULL,
+            data TEXT NOT NULL,
+            refs TEXT NOT NULL,
+            deleted_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS ${schema}.${ROW_TRASH_TABLE}_table ON ${ROW_TRASH_TABLE} (table_name, deleted_at);
+    `);
+}
+
+function hasRowTrash(db: DatabaseType, schema = 'main'): boolean {
+    return !!db.prepare(`SELECT 1 FROM ${schema}.sqlite_master WHERE type='table' AND name = ?`).get(ROW_TRASH_TABLE);
+}
+
+function toTrashedRow(row: any, settings: TrashSettings): TrashedRow {
+    const data = JSON.parse(row.data);
+    return {
+        trashId: row.id,
+        rowId: row.row_id,
+        title: data.title ?? null,
+        deletedAt: row.deleted_at,
+        expiresAt: expiryOf(row.deleted_at, settings),
+        row: data,
+        refs: JSON.parse(row.refs),
+    };
+}
+
+function purgeExpiredRows(db: DatabaseType, settings: TrashSettings): void {
+    if (settings.autoPurgeDays <= 0 || !hasRowTrash(db)) return;
+    db.prepare(`DELETE FROM ${ROW_TRASH_TABLE} WHERE deleted_at <= ?`).run(Date.now() - settings.autoPurgeDays * DAY_MS);
+}
+
+function copyRowTrash(db: DatabaseType, tableName: string, from: string, to: string): void {
+    if (!hasRowTrash(db, from)) return;
+    ensureRowTrash(db, to);
+    db.prepare(`INSERT OR IGNORE INTO ${to}.${ROW_TRASH_TABLE} SELECT * FROM ${from}.${ROW_TRASH_TABLE} WHERE table_name = ?`).run(tableName);
+}
+
+function clearRowTrash(db: DatabaseType, tableName: string): number {
+    if (!hasRowTrash(db)) return 0;
+    return db.prepare(`DELETE FROM ${ROW_TRASH_TABLE} WHERE table_name = ?`).run(tableName).changes;
+}
+
+/**
+ * Keeps a deleted row on an open connection, with the references the delete
+ * cleared. Expired rows of the database are purged on the way.
+ */
+export function trashRow(db: DatabaseType, tableName: string, row: Record<string, any>, refs: ClearedRef[]): void {
+    ensureRowTrash(db);
+    purgeExpiredRows(db, getTrashSettings());
+    db.prepare(`
+        INSERT INTO ${ROW_TRASH_TABLE} (table_name, row_id, data, refs, deleted_at)
+        VALUES (?, ?, ?, ?, ?)
+    `).run(tableName, row.id, JSON.stringify(row), JSON.stringify(refs), Date.now());
+}
+
+// Reads one trashed row on an open connection (null if missing)
+export function readTrashedRow(db: DatabaseType, tableName: string, trashId: number): TrashedRow | null {
+    if (!hasRowTrash(db)) return null;
+    const row = db.prepare(`SELECT * FROM ${ROW_TRASH_TABLE} WHERE id = ? AND table_name = ?`).get(trashId, tableName);
+    return row ? toTrashedRow(row, getTrashSettings()) : null;
+}
+
+// The most recently trashed copy of a row, on an open connection (null if none)
+export function readLatestTrashedRow(db: DatabaseType, tableName: string, rowId: number): TrashedRow | null {
+    if (!hasRowTrash(db)) return null;
+    const row = db.prepare(`SELECT * FROM ${ROW_TRASH_TABLE} WHERE table_name = ? AND row_id = ? ORDER BY id DESC LIMIT 1`)
+        .get(tableName, rowId);
+    return row ? toTrashedRow(row, getTrashSettings()) : null;
+}
+
+export function removeTrashedRow(db: DatabaseType, trashId: number): void {
+    db.prepare(`DELETE FROM ${ROW_TRASH_TABLE} WHERE id = ?`).run(trashId);
+}
+
+// Moves a renamed table's trashed rows to its new name
+export function renameRowTrashTable(db: DatabaseType, oldName: string, newName: string): void {
+    if (!hasRowTrash(db)) return;
+    db.prepare(`UPDATE ${ROW_TRASH_TABLE} SET table_name = ? WHERE table_name = ?`).run(newName, oldName);
+}
+
+// Rewrites a renamed column's key inside trashed rows
+export function renameRowTrashColumn(db: DatabaseType, tableName: string, oldName: string, newName: string): void {
+    if (!hasRowTrash(db)) return;
+    const oldPath = `$."${oldName}"`;
+    const newPath = `$."${newName}"`;
+    db.prepare(`
+        UPDATE ${ROW_TRASH_TABLE}
+        SET data = json_set(json_remove(data, ?), ?, json_extract(data, ?))
+        WHERE table_name = ? AND json_type(data, ?) IS NOT NULL
+    `).run(oldPath, newPath, oldPath, tableName, oldPath);
+}
+
+function openTrashDb(dbId: string): DatabaseType {
+    const { dbPath } = getDbPaths(dbId);
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    return new Database(dbPath);
+}
+
+// GET a table's trashed rows, newest first
+export function listTrashedRows(dbId: string, tableName: string): { autoPurgeDays: number; rows: TrashedRow[] } {
+    const settings = getTrashSettings();
+    const db = openTrashDb(dbId);
+    try {
+        if (!hasRowTrash(db)) return { autoPurgeDays: settings.autoPurgeDays, rows: [] };
+        purgeExpiredRows(db, settings);
+        const rows: TrashedRow[] = db.prepare(`SELECT * FROM ${ROW_TRASH_TABLE} WHERE table_name = ? ORDER BY id DESC`)
+            .all(tableName)
+            .map((row: any) => toTrashedRow(row, settings));
+        return { autoPurgeDays: settings.autoPurgeDays, rows };
+    } finally {
+        db.close();
+    }
+}
+
+// Permanently deletes one trashed row, or all of a table's when no id is given; returns the count
+export function purgeTrashedRows(dbId: string, tableName: string, trashId?: number): number {
+    const db = openTrashDb(dbId);
+    try {
+        if (trashId === undefined) return clearRowTrash(db, tableName);
+        const purged = hasRowTrash(db)
+            ? db.prepare(`DELETE FROM ${ROW_TRASH_TABLE} WHERE id = ? AND table_name = ?`).run(trashId, tableName).changes
+            : 0;
+        if (purged === 0) throw new Error(`Trashed row '${trashId}' not found in '${tableName}'.`);
+        return purged;
+    } finally {
+        db.close();
+    }
+}
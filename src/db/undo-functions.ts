@@ -0,0 +1,231 @@
+/**
+ * Undo / redo of journaled schema operations (see journal-functions.ts).
+ *
+ * Undo rebuilds what the operation removed — SQLite structure, data and the
+ * meta.json entry — from the journal payload. Redo simply runs the original
+ * operation again, which re-records its payload on the same entry.
+ *
+ * Operations are undone newest first. Anything done outside the journal in
+ * the meantime (e.g. a new column with the same name) makes an undo fail with
+ * a clear error instead of overwriting it.
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import type { ColumnType, DatabaseMetadata } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { columnTypeMap } from '../utils/type-mapping';
+import { renameAuditColumn } from './audit-functions';
+import { deleteColumn, updateColumnNameOrType } from './column-functions';
+import { SchemaJournalEntry, SchemaOpPayload, markJournalEntry, readJournalEnds } from './journal-functions';
+import { deleteTable, renameTable } from './table-functions';
+import { renameRowTrashColumn, restoreTrashedTable, trashItemExists } from './trash-functions';
+import { convertColumnValue } from './transfer-functions';
+import { renameViewColumn, restoreViewColumn } from './view-functions';
+import { checkFormulaColumns, renameFormulaColumn } from './formula-functions';
+import { renameReferenceColumn } from './lookup-functions';
+import { renameTagListColumn } from './taglist-functions';
+
+type DatabaseType = InstanceType<typeof Database>;
+
+export interface SchemaOpSummary {
+    id: number;
+    op: SchemaJournalEntry['op'];
+    description: string;
+}
+
+function summarize(entry: SchemaJournalEntry): SchemaOpSummary {
+    return { id: entry.id, op: entry.op, description: entry.description };
+}
+
+function openJournalDb(dbId: string): { db: DatabaseType; metaPath: string } {
+    const { dbPath, metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+    return { db: new Database(dbPath), metaPath };
+}
+
+function writeMeta(metaPath: string, metadata: DatabaseMetadata): void {
+    metadata.modifiedAt = new Date().toISOString();
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+}
+
+// Puts a deleted column back, with its values and its place in the column order
+function undoDeleteColumn(db: DatabaseType, metadata: DatabaseMetadata, entryId: number, p: Extract<SchemaOpPayload, { op: 'delete_column' }>): void {
+    const columns = metadata.tables?.[p.table]?.columns;
+    if (!columns) throw new Error(`Table '${p.table}' no longer exists.`);
+    if (columns[p.column]) throw new Error(`Column '${p.column}' already exists in '${p.table}'.`);
+
+    db.transaction(() => {
+        db.prepare(`ALTER TABLE "${p.table}" ADD COLUMN "${p.column}" ${p.sqlType}`).run();
+        const update = db.prepare(`UPDATE "${p.table}" SET "${p.column}" = ? WHERE id = ?`);
+        for (const [id, value] of p.values) update.run(value, id);
+        markJournalEntry(db, entryId, 'undone');
+    })();
+
+    const index = typeof p.def.index === 'number' ? p.def.index : -1;
+    if (index >= 0) {
+        for (const colDef of Object.values(columns)) {
+            if (typeof colDef.index === 'number' && colDef.index >= index) colDef.index++;
+        }
+    }
+    columns[p.column] = p.def;
+    restoreViewColumn(metadata.tables![p.table], p.column, p.views ?? []);
+    checkFormulaColumns(metadata);
+}
+
+/**
+ * Reverses a rename and/or type change. After a type change the old values
+ * come from the journal; rows added since are converted back where possible
+ * and left empty otherwise.
+ */
+function undoUpdateColumn(db: DatabaseType, metadata: DatabaseMetadata, entryId: number, p: Extract<SchemaOpPayload, { op: 'update_column' }>): void {
+    const columns = metadata.tables?.[p.table]?.columns;
+    if (!columns) throw new Error(`Table '${p.table}' no longer exists.`);
+    const current = columns[p.newName];
+    if (!current) throw new Error(`Column '${p.newName}' no longer exists in '${p.table}'.`);
+    if (p.oldName !== p.newName && columns[p.oldName])
+        throw new Error(`Column '${p.oldName}' already exists in '${p.table}'.`);
+
+    db.transaction(() => {
+        if (p.values) {
+            const fromType = current.type as ColumnType;
+            const toType = p.oldDef.type as ColumnType;
+            const previous = new Map(p.values);
+            const tempName = `__undo_${p.newName}`;
+            const rows = db.prepare(`SELECT id, "${p.newName}" AS value FROM "${p.table}"`).all() as Array<{ id: number; value: any }>;
+
+            db.prepare(`ALTER TABLE "${p.table}" RENAME COLUMN "${p.newName}" TO "${tempName}"`).run();
+            db.prepare(`ALTER TABLE "${p.table}" ADD COLUMN "${p.oldName}" ${columnTypeMap[toType]}`).run();
+            const update = db.prepare(`UPDATE "${p.table}" SET "${p.oldName}" = ? WHERE id = ?`);
+            for (const row of rows) {
+                let value: any = previous.has(row.id) ? previous.get(row.id) : null;
+                if (!previous.has(row.id) && row.value !== null) {
+                    try {
+                        value = convertColumnValue(row.value, fromType, toType);
+                    } catch {
+                        value = null;
+                    }
+                }
+                if (value !== null) update.run(value, row.id);
+            }
+            db.prepare(`ALTER TABLE "${p.table}" DROP COLUMN "${tempName}"`).run();
+        } else if (p.oldName !== p.newName) {
+            db.prepare(`ALTER TABLE "${p.table}" RENAME COLUMN "${p.newName}" TO "${p.oldName}"`).run();
+        }
+        if (p.oldName !== p.newName) {
+            renameAuditColumn(db, p.table, p.newName, p.oldName);
+            renameRowTrashColumn(db, p.table, p.newName, p.oldName);
+        }
+        markJournalEntry(db, entryId, 'undone');
+    })();
+
+    if (p.oldName !== p.newName) {
+        renameViewColumn(metadata.tables![p.table], p.newName, p.oldName);
+        renameFormulaColumn(metadata.tables![p.table], p.newName, p.oldName);
+        renameReferenceColumn(metadata, p.table, p.newName, p.oldName);
+        renameTagListColumn(metadata, p.table, p.newName, p.oldName);
+    }
+
+    // Position and visibility may have changed since; keep them
+    delete columns[p.newName];
+    columns[p.oldName] = { ...p.oldDef, index: current.index, hidden: current.hidden };
+}
+
+// Next entry to undo or redo
+function readJournalEnd(dbId: string, end: 'undo' | 'redo'): SchemaJournalEntry | null {
+    const { db } = openJournalDb(dbId);
+    try {
+        return readJournalEnds(db)[end];
+    } finally {
+        db.close();
+    }
+}
+
+// Marks an entry undone after an undo that went through another module
+function markUndone(dbId: string, entryId: number): void {
+    const { db } = openJournalDb(dbId);
+    try {
+        markJournalEntry(db, entryId, 'undone');
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Undoes the latest done schema operation of a database.
+ * Throws 'Nothing to undo' when the journal has no done entry.
+ */
+export function undoSchemaOp(dbId: string): { undone: SchemaOpSummary; restoredValues?: number; restoredRefs?: number } {
+    const entry = readJournalEnd(dbId, 'undo');
+    if (!entry) throw new Error('Nothing to undo');
+    const p = entry.payload;
+
+    // A table rename goes through renameTable so table_ref links follow it
+    if (p.op === 'rename_table') {
+        renameTable(dbId, p.newName, p.oldName, { skipJournal: true });
+        markUndone(dbId, entry.id);
+        return { undone: summarize(entry) };
+    }
+
+    // A deleted table comes back out of the trash
+    if (p.op === 'delete_table') {
+        if (!trashItemExists(p.trashId)) throw new Error(`Table '${p.table}' is no longer in the trash.`);
+        const { restoredRefs } = restoreTrashedTable(p.trashId);
+        markUndone(dbId, entry.id);
+        return { undone: summarize(entry), restoredRefs };
+    }
+
+    const { db, metaPath } = openJournalDb(dbId);
+    try {
+        const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+        let extra: { restoredValues?: number } = {};
+
+        if (p.op === 'delete_column') {
+            undoDeleteColumn(db, metadata, entry.id, p);
+            extra = { restoredValues: p.values.length };
+        } else {
+            undoUpdateColumn(db, metadata, entry.id, p);
+            if (p.values) extra = { restoredValues: p.values.length };
+        }
+
+        writeMeta(metaPath, metadata);
+        return { undone: summarize(entry), ...extra };
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Redoes the earliest undone schema operation by running it again.
+ * Throws 'Nothing to redo' when nothing has been undone.
+ */
+export function redoSchemaOp(dbId: string): { redone: SchemaOpSummary } {
+    const entry = readJournalEnd(dbId, 'redo');
+    if (!entry) throw new Error('Nothing to redo');
+
+    const p = entry.payload;
+    const options = { redoOf: entry.id };
+    switch (p.op) {
+        case 'delete_column':
+            deleteColumn(dbId, p.table, p.column, options);
+            break;
+        case 'update_column':
+            updateColumnNameOrType(
+                dbId,
+                p.table,
+                p.oldName,
+                p.newName,
+                p.newDef.type !== p.oldDef.type ? p.newDef.type : undefined,
+                options
+            );
+            break;
+        case 'delete_table':
+            deleteTable(dbId, p.table, options);
+            break;
+        case 'rename_table':
+            renameTable(dbId, p.oldName, p.newName, options);
+            break;
+    }
+    return { redone: summarize(entry) };
+}
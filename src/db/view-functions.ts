@@ -0,0 +1,235 @@
+/**
+ * Saved views: named combinations of a q= filter, an s= sort, per-column
+ * visibility / order overrides and a page size, stored per table in
+ * meta.json (`tables[name].views`).
+ *
+ * getTable applies one with `view=`. Views live in the table's metadata, so
+ * they follow renameTable and copyTable; column renames rewrite them and
+ * column deletes drop what referred to the column (see renameViewColumn and
+ * dropViewColumn), which undoing the delete puts back (restoreViewColumn).
+ */
+
+import fs from 'fs';
+import type { ColumnDef, DatabaseMetadata, SavedView } from '../types';
+import { getDbPaths } from '../utils/db-paths';
+import { queryUsesField, renameQueryField } from '../utils/search';
+
+type TableMeta = NonNullable<DatabaseMetadata['tables']>[string];
+
+// What dropViewColumn removed from one view, kept so an undo can put it back
+export interface DroppedViewColumn {
+    view: string;
+    /** The s= string before its keys on the column were removed */
+    s?: string;
+    override?: NonNullable<SavedView['columns']>[string];
+    /** Whether the delete marked the view's q broken */
+    brokeQuery?: boolean;
+}
+
+export interface ViewInput {
+    name?: string;
+    q?: string;
+    s?: string;
+    columns?: SavedView['columns'];
+    pageSize?: number;
+}
+
+function readMeta(dbId: string, tableName: string): { metadata: DatabaseMetadata; tableMeta: TableMeta; metaPath: string } {
+    const { dbPath, metaPath } = getDbPaths(dbId);
+    if (!fs.existsSync(dbPath)) throw new Error(`Database '${dbId}' not found.`);
+    if (!fs.existsSync(metaPath)) throw new Error(`Metadata for '${dbId}' not found.`);
+
+    const metadata: DatabaseMetadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const tableMeta = metadata.tables?.[tableName];
+    if (!tableMeta) throw new Error(`Table '${tableName}' not found.`);
+    return { metadata, tableMeta, metaPath };
+}
+
+function writeMeta(metaPath: string, metadata: DatabaseMetadata): void {
+    metadata.modifiedAt = new Date().toISOString();
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+}
+
+// Checks a view's fields against the table; throws on the first bad one
+function validateView(tableMeta: TableMeta, input: ViewInput): void {
+    if (input.q !== undefined && typeof input.q !== 'string') throw new Error('"q" must be a string');
+    if (input.s !== undefined && typeof input.s !== 'string') throw new Error('"s" must be a string');
+    if (input.pageSize !== undefined && (!Number.isInteger(input.pageSize) || input.pageSize < 1)) {
+        throw new Error('"pageSize" must be a positive integer');
+    }
+    if (input.columns !== undefined) {
+        if (typeof input.columns !== 'object' || input.columns === null || Array.isArray(input.columns)) {
+            throw new Error('"columns" must map column names to { hidden, index }');
+        }
+        for (const [name, override] of Object.entries(input.columns)) {
+            if (!tableMeta.columns[name]) throw new Error(`Column '${name}' does not exist in this table`);
+            if (typeof override !== 'object' || override === null) throw new Error(`Override of '${name}' must be an object`);
+            if (override.hidden !== undefined && typeof override.hidden !== 'boolean') {
+                throw new Error(`"hidden" of '${name}' must be a boolean`);
+            }
+            if (override.index !== undefined && (!Number.isInteger(override.index) || override.index < 0)) {
+                throw new Error(`"index" of '${name}' must be a non-negative integer`);
+            }
+        }
+    }
+}
+
+function viewEntry(name: string, view: SavedView) {
+    return { name, ...view };
+}
+
+// Lists a table's saved views, by name
+export function listViews(dbId: string, tableName: string) {
+    const { tableMeta } = readMeta(dbId, tableName);
+    return Object.entries(tableMeta.views ?? {})
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, view]) => viewEntry(name, view));
+}
+
+export function getView(dbId: string, tableName: string, name: string) {
+    const { tableMeta } = readMeta(dbId, tableName);
+    const view = tableMeta.views?.[name];
+    if (!view) throw new Error(`View '${name}' not found in '${tableName}'.`);
+    return viewEntry(name, view);
+}
+
+export function createView(dbId: string, tableName: string, input: ViewInput) {
+    const { metadata, tableMeta, metaPath } = readMeta(dbId, tableName);
+    const name = input.name?.trim();
+    if (!name) throw new Error('Missing or invalid "name"');
+    if (tableMeta.views?.[name]) throw new Error(`View '${name}' already exists in '${tableName}'.`);
+    validateView(tableMeta, input);
+
+    const now = new Date().toISOString();
+    const view: SavedView = {
+        ...(input.q !== undefined && { q: input.q }),
+        ...(input.s !== undefined && { s: input.s }),
+        ...(input.columns !== undefined && { columns: input.columns }),
+        ...(input.pageSize !== undefined && { pageSize: input.pageSize }),
+        createdAt: now,
+        modifiedAt: now,
+    };
+    tableMeta.views = { ...tableMeta.views, [name]: view };
+    writeMeta(metaPath, metadata);
+    return viewEntry(name, view);
+}
+
+/**
+ * Changes the given fields of a view (`name` renames it). A field set to
+ * null is removed from the view.
+ */
+export function updateView(dbId: string, tableName: string, name: string, changes: { [K in keyof ViewInput]: ViewInput[K] | null }) {
+    const { metadata, tableMeta, metaPath } = readMeta(dbId, tableName);
+    const view = tableMeta.views?.[name];
+    if (!tableMeta.views || !view) throw new Error(`View '${name}' not found in '${tableName}'.`);
+
+    const newName = changes.name?.trim() ?? name;
+    if (!newName) throw new Error('Missing or invalid "name"');
+    if (newName !== name && tableMeta.views[newName]) throw new Error(`View '${newName}' already exists in '${tableName}'.`);
+
+    const { name: _, ...fields } = changes;
+    const set = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== null && value !== undefined));
+    validateView(tableMeta, set);
+
+    const updated: SavedView = { ...view, ...set, modifiedAt: new Date().toISOString() };
+    for (const [field, value] of Object.entries(fields)) {
+        if (value === null) delete updated[field as keyof ViewInput & keyof SavedView];
+    }
+    // A new q replaces the one that used a deleted column
+    if (fields.q !== undefined) delete updated.qError;
+
+    delete tableMeta.views[name];
+    tableMeta.views[newName] = updated;
+    writeMeta(metaPath, metadata);
+    return viewEntry(newName, updated);
+}
+
+export function deleteView(dbId: string, tableName: string, name: string): void {
+    const { metadata, tableMeta, metaPath } = readMeta(dbId, tableName);
+    if (!tableMeta.views?.[name]) throw new Error(`View '${name}' not found in '${tableName}'.`);
+    delete tableMeta.views[name];
+    writeMeta(metaPath, metadata);
+}
+
+// The view getTable was asked for; an unknown or broken view is an invalid request
+export function findView(metadata: DatabaseMetadata | undefined, tableName: string, name: string): SavedView {
+    const view = metadata?.tables?.[tableName]?.views?.[name];
+    if (!view) throw new Error(`Invalid view: '${name}' is not a view of '${tableName}'`);
+    if (view.qError) throw new Error(`Invalid view: '${name}' ${view.qError}`);
+    return view;
+}
+
+// Columns as a view shows them: its visibility / order overrides applied
+export function applyViewColumns(columns: ColumnDef[], view: SavedView): ColumnDef[] {
+    return columns.map(col => ({ ...col, ...view.columns?.[col.name] }));
+}
+
+// Rewrites the keys of an s= string on column `name`; null drops a key
+function mapSortKeys(sort: string, name: string, replace: (key: string[]) => string[] | null): string {
+    return sort
+        .split(',')
+        .map(key => key.trim().split(':'))
+        .map(parts => (parts[0].toLowerCase() === name.toLowerCase() ? replace(parts) : parts))
+        .filter((parts): parts is string[] => parts !== null && parts[0] !== '')
+        .map(parts => parts.join(':'))
+        .join(',');
+}
+
+// Follows a column rename in every view of the table
+export function renameViewColumn(tableMeta: TableMeta, oldName: string, newName: string): void {
+    for (const view of Object.values(tableMeta.views ?? {})) {
+        if (view.q) view.q = renameQueryField(view.q, oldName, newName);
+        if (view.s) view.s = mapSortKeys(view.s, oldName, ([, ...modifiers]) => [newName, ...modifiers]);
+        if (view.columns?.[oldName]) {
+            view.columns[newName] = view.columns[oldName];
+            delete view.columns[oldName];
+        }
+    }
+}
+
+function brokenQueryError(name: string): string {
+    return `filters on deleted column '${name}'`;
+}
+
+/**
+ * Removes a deleted column from every view of the table: its override and
+ * its sort keys. A view whose q filters on the column is marked broken
+ * (`qError`) rather than left to search title instead. Returns what was
+ * removed, per view, for restoreViewColumn.
+ */
+export function dropViewColumn(tableMeta: TableMeta, name: string): DroppedViewColumn[] {
+    const dropped: DroppedViewColumn[] = [];
+    for (const [viewName, view] of Object.entries(tableMeta.views ?? {})) {
+        const entry: DroppedViewColumn = { view: viewName };
+        if (view.s) {
+            const s = mapSortKeys(view.s, name, () => null);
+            if (s !== view.s) entry.s = view.s;
+            view.s = s;
+        }
+        if (view.columns?.[name]) {
+            entry.override = view.columns[name];
+            delete view.columns[name];
+        }
+        if (view.q && !view.qError && queryUsesField(view.q, name)) {
+            view.qError = brokenQueryError(name);
+            entry.brokeQuery = true;
+        }
+        if (Object.keys(entry).length > 1) dropped.push(entry);
+    }
+    return dropped;
+}
+
+/**
+ * Puts back what dropViewColumn removed once the column is restored. Sort
+ * keys come back only if the view's sort is unchanged since, and only the
+ * broken mark the delete set is cleared.
+ */
+export function restoreViewColumn(tableMeta: TableMeta, name: string, dropped: DroppedViewColumn[]): void {
+    for (const entry of dropped) {
+        const view = tableMeta.views?.[entry.view];
+        if (!view) continue;
+        if (entry.s !== undefined && (view.s ?? '') === mapSortKeys(entry.s, name, () => null)) view.s = entry.s;
+        if (entry.override && !view.columns?.[name]) view.columns = { ...view.columns, [name]: entry.override };
+        if (entry.brokeQuery && view.qError === brokenQueryError(name)) delete view.qError;
+    }
+}
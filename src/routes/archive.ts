@@ -0,0 +1,51 @@
+import express from 'express';
+import multer from 'multer';
+import { exportArchive, importArchive } from '../db/archive-functions';
+
+const router = express.Router();
+
+// Archives are read straight from memory; nothing is written until validated
+const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_ARCHIVE_SIZE } });
+
+// Download a database (SQLite file, metadata and Gallery) as one .atomcrud archive
+router.get('/:dbId/archive', async (req, res) => {
+    const { dbId } = req.params;
+
+    try {
+        const { fileName, buffer } = await exportArchive(dbId);
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        res.send(buffer);
+    } catch (err) {
+        const message = (err as Error).message;
+        res.status(message.includes('not found') ? 404 : 500).json({ error: 'Failed to archive database', detail: message });
+    }
+});
+
+// Restore a .atomcrud archive (multipart field "file") as a new database
+router.post('/import/archive', (req, res, next) => {
+    upload.single('file')(req, res, err => {
+        if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+            return res.status(413).json({ error: `Archive is larger than ${MAX_ARCHIVE_SIZE / (1024 * 1024)} MB` });
+        }
+        next(err);
+    });
+}, async (req, res) => {
+    if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded. Send the archive under the field name "file".' });
+    }
+    const { name } = req.body ?? {};
+    if (name !== undefined && (typeof name !== 'string' || name.trim() === '')) {
+        return res.status(400).json({ error: '"name" must be a non-empty string' });
+    }
+
+    try {
+        const result = await importArchive(req.file.buffer, name);
+        res.status(201).json({ message: 'Database imported', ...result });
+    } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+    }
+});
+
+export default router;
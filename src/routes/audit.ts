@@ -0,0 +1,75 @@
+import express from 'express';
+import { AuditAction, getRowHistory, getTableHistory } from '../db/audit-functions';
+import { revertAuditEntry } from '../db/row-functions';
+
+const router = express.Router({ mergeParams: true });
+
+const auditActions: AuditAction[] = ['create', 'patch', 'visibility', 'delete'];
+
+// Accepts a millisecond timestamp or anything Date.parse understands
+function parseTime(value: unknown): number | undefined | null {
+    if (value === undefined || value === '') return undefined;
+    if (typeof value !== 'string') return null;
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return isNaN(time) ? null : time;
+}
+
+// GET the change history of one row, newest first
+router.get('/:dbId/table/:tableName/row/:rowId/history', (req, res) => {
+    const { dbId, tableName, rowId } = req.params;
+
+    try {
+        const entries = getRowHistory(dbId, tableName, Number(rowId));
+        res.json({ table: tableName, rowId: Number(rowId), entries });
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to fetch row history', detail: String(err) });
+    }
+});
+
+// GET the change feed of a whole table (?from=&to=&action=&limit=&offset=)
+router.get('/:dbId/table/:tableName/history', (req, res) => {
+    const { dbId, tableName } = req.params;
+    const { action, limit, offset } = req.query;
+
+    const from = parseTime(req.query.from);
+    const to = parseTime(req.query.to);
+    if (from === null || to === null) {
+        return res.status(400).json({ error: '"from" and "to" must be ISO dates or millisecond timestamps' });
+    }
+    if (action !== undefined && !auditActions.includes(action as AuditAction)) {
+        return res.status(400).json({ error: `"action" must be one of: ${auditActions.join(', ')}` });
+    }
+
+    try {
+        const feed = getTableHistory(dbId, tableName, {
+            from,
+            to,
+            action: action as AuditAction | undefined,
+            limit: limit ? parseInt(limit as string, 10) : undefined,
+            offset: offset ? parseInt(offset as string, 10) : undefined,
+        });
+        res.json({ table: tableName, ...feed });
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to fetch table history', detail: String(err) });
+    }
+});
+
+// POST revert a row to its state before the given history entry
+router.post('/:dbId/table/:tableName/row/:rowId/history/:entryId/revert', (req, res) => {
+    const { dbId, tableName, rowId, entryId } = req.params;
+
+    const id = Number(entryId);
+    if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ error: 'Invalid history entry id' });
+    }
+
+    try {
+        const result = revertAuditEntry(dbId, tableName, rowId, id);
+        res.json(result);
+    } catch (err) {
+        const message = (err as Error).message;
+        res.status(message.includes('not found') ? 404 : 400).json({ error: message });
+    }
+});
+
+export default router;
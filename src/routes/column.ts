@@ -1,22 +1,31 @@
 import express from 'express';
-import { createColumn, deleteColumn, getAllColumns, getSingleColumn, moveColumnIndex, registerTag, swapColumnIndex, unregisterTag, updateColumnNameOrType, updateColumnRequired, updateColumnRule, updateColumnVisibility, updateColumnVisualization, updateTagLock } from '../db/column-functions';
+import { createColumn, deleteColumn, getAllColumns, getSingleColumn, moveColumnIndex, registerTag, swapColumnIndex, unregisterTag, updateColumnDefault, updateColumnFormula, updateColumnNameOrType, updateColumnRequired, updateColumnRule, updateColumnVisibility, updateColumnVisualization, updateTagLock } from '../db/column-functions';
 import { setTableRefTarget } from '../db/tableref-functions';
+import { linkColumnToList, unlinkColumnFromList } from '../db/taglist-functions';
 
 const router = express.Router({ mergeParams: true });
 
 // POST create a new column
 router.post('/:dbId/table/:tableName/column', (req, res) => {
     const { dbId, tableName } = req.params;
-    const { name, type, hidden, index, visualization } = req.body;
+    const { name, type, hidden, index, visualization, default: defaultValue, backfill, formula, lookup, rollup } = req.body;
 
     if (!name || !type) {
         return res.status(400).json({ error: 'Missing name or type in request body' });
     }
+    if (backfill !== undefined && typeof backfill !== 'boolean') {
+        return res.status(400).json({ error: '"backfill" must be a boolean' });
+    }
+    if (type === 'formula' && typeof formula !== 'string') {
+        return res.status(400).json({ error: 'Formula columns need a "formula" expression' });
+    }
 
     try {
-        const newCol = createColumn(dbId, tableName, name, type, hidden ?? false, index, visualization);
+        const newCol = createColumn(dbId, tableName, name, type, hidden ?? false, index, visualization, { default: defaultValue, backfill, formula, lookup, rollup });
         res.status(201).json(newCol);
     } catch (err) {
+        const message = (err as Error).message;
+        if (/^Invalid (formula|lookup|rollup|default)/.test(message)) return res.status(400).json({ error: message });
         res.status(500).json({ error: 'Failed to create column', detail: String(err) });
     }
 });
@@ -44,17 +53,20 @@ router.get('/:dbId/table/:tableName/column/:columnName', (req, res) => {
     }
 });
 
-// PATCH rename or type change
+// PATCH rename or type change (dryRun previews a type conversion without writing)
 router.patch('/:dbId/table/:tableName/column/:columnName', (req, res) => {
     const { dbId, tableName, columnName } = req.params;
-    const { newName, newType } = req.body;
+    const { newName, newType, dryRun } = req.body;
 
     if (!newName && !newType) {
         return res.status(400).json({ error: 'Must provide newName or newType in body' });
     }
+    if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+        return res.status(400).json({ error: 'dryRun must be a boolean' });
+    }
 
     try {
-        const updated = updateColumnNameOrType(dbId, tableName, columnName, newName, newType);
+        const updated = updateColumnNameOrType(dbId, tableName, columnName, newName, newType, { dryRun });
         res.json(updated);
     } catch (err) {
         res.status(400).json({ error: (err as Error).message });
@@ -158,6 +170,43 @@ router.patch('/:dbId/table/:tableName/column/:columnName/rule', (req, res) => {
     }
 });
 
+// PATCH set or remove (null) a column's default, optionally filling empty cells
+router.patch('/:dbId/table/:tableName/column/:columnName/default', (req, res) => {
+    const { dbId, tableName, columnName } = req.params;
+    const { default: defaultValue, backfill } = req.body;
+
+    if (defaultValue === undefined) {
+        return res.status(400).json({ error: 'Missing "default" (use null to remove it)' });
+    }
+    if (backfill !== undefined && typeof backfill !== 'boolean') {
+        return res.status(400).json({ error: '"backfill" must be a boolean' });
+    }
+
+    try {
+        res.json(updateColumnDefault(dbId, tableName, columnName, defaultValue, backfill));
+    } catch (err) {
+        const message = (err as Error).message;
+        res.status(message.includes('not found') ? 404 : 400).json({ error: message });
+    }
+});
+
+// PATCH replace the expression of a formula column
+router.patch('/:dbId/table/:tableName/column/:columnName/formula', (req, res) => {
+    const { dbId, tableName, columnName } = req.params;
+    const { formula } = req.body;
+
+    if (typeof formula !== 'string') {
+        return res.status(400).json({ error: 'Missing "formula" (a string expression)' });
+    }
+
+    try {
+        res.json(updateColumnFormula(dbId, tableName, columnName, formula));
+    } catch (err) {
+        const message = (err as Error).message;
+        res.status(message.includes('not found') ? 404 : 400).json({ error: message });
+    }
+});
+
 // PATCH set target table for a table_ref / table_ref_many column
 router.patch('/:dbId/table/:tableName/column/:columnName/tableref', (req, res) => {
     const { dbId, tableName, columnName } = req.params;
@@ -190,6 +239,32 @@ router.patch('/:dbId/table/:tableName/column/:columnName/taglock', (req, res) =>
     }
 });
 
+// POST link a tag column to a GlobalTagList
+router.post('/:dbId/table/:tableName/column/:columnName/link', (req, res) => {
+    const { dbId, tableName, columnName } = req.params;
+    const { listId } = req.body;
+    if (!listId || typeof listId !== 'string') {
+        return res.status(400).json({ error: '"listId" must be a non-empty string' });
+    }
+    try {
+        linkColumnToList(dbId, tableName, columnName, listId);
+        res.json({ success: true });
+    } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+    }
+});
+
+// POST unlink a tag column from its GlobalTagList
+router.post('/:dbId/table/:tableName/column/:columnName/unlink', (req, res) => {
+    const { dbId, tableName, columnName } = req.params;
+    try {
+        unlinkColumnFromList(dbId, tableName, columnName);
+        res.json({ success: true });
+    } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+    }
+});
+
 // PATCH set visualization hint on any column
 router.patch('/:dbId/table/:tableName/column/:columnName/visualization', (req, res) => {
     const { dbId, tableName, columnName } = req.params;
@@ -0,0 +1,78 @@
+/**
+ * Import routes: load rows into an existing table from external files.
+ *
+ * CSV import endpoint:
+ *   POST /api/database/:dbId/table/:tableName/import/csv
+ *   Multipart field "file" (or JSON body { csv }), plus optional
+ *   mapping, createMissing, delimiter
+ *   Returns: { imported, skipped, errors, columns }
+ */
+
+import express from 'express';
+import multer from 'multer';
+import { importCsv } from '../db/import-functions';
+
+const router = express.Router({ mergeParams: true });
+
+// CSV files are parsed straight from memory; nothing is written to disk
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 50 * 1024 * 1024 } });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV import
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/database/:dbId/table/:tableName/import/csv
+ *
+ * Imports a CSV file (first line is the header) into :tableName. Column types
+ * are inferred from the data; headers are matched to existing columns by name
+ * and unmatched headers become new columns.
+ *
+ * Body (multipart/form-data or JSON):
+ *   file           file     – the CSV file (multipart only)
+ *   csv            string   – CSV text (JSON alternative to "file")
+ *   mapping        object   – optional { targetColumn: csvHeader } pin map
+ *                             (a JSON string when sent as a form field)
+ *   createMissing  boolean  – create columns for unmatched headers (default true)
+ *   delimiter      string   – single-character field delimiter (default ',')
+ *
+ * Response:
+ *   { imported, skipped, errors: string[], columns: CsvColumnPlan[] }
+ */
+router.post('/:dbId/table/:tableName/import/csv', upload.single('file'), (req, res) => {
+    const { dbId, tableName } = req.params as Record<string, string>;
+    const body = req.body ?? {};
+
+    const csvText = req.file ? req.file.buffer.toString('utf-8') : body.csv;
+    if (typeof csvText !== 'string' || csvText.trim() === '') {
+        return res.status(400).json({ error: 'Missing CSV data: upload a "file" or send "csv" text' });
+    }
+
+    let mapping = body.mapping ?? {};
+    if (typeof mapping === 'string') {
+        try {
+            mapping = JSON.parse(mapping);
+        } catch {
+            return res.status(400).json({ error: '"mapping" must be valid JSON' });
+        }
+    }
+    if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+        return res.status(400).json({ error: '"mapping" must be an object of { targetColumn: csvHeader }' });
+    }
+
+    const delimiter = body.delimiter ?? ',';
+    if (typeof delimiter !== 'string' || delimiter.length !== 1 || delimiter === '"') {
+        return res.status(400).json({ error: '"delimiter" must be a single character other than a quote' });
+    }
+
+    const createMissing = !(body.createMissing === false || body.createMissing === 'false');
+
+    try {
+        const result = importCsv(dbId, tableName, csvText, { delimiter, mapping, createMissing });
+        res.json(result);
+    } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+    }
+});
+
+export default router;
@@ -0,0 +1,47 @@
+import express from 'express';
+import { listSchemaJournal } from '../db/journal-functions';
+import { redoSchemaOp, undoSchemaOp } from '../db/undo-functions';
+
+const router = express.Router({ mergeParams: true });
+
+// Maps undo/redo failures: empty journal → 409, missing database → 404, conflicts → 400
+function sendJournalError(res: express.Response, err: unknown) {
+    const message = (err as Error).message;
+    const status = message.startsWith('Nothing to') ? 409 : message.includes('not found') ? 404 : 400;
+    res.status(status).json({ error: message });
+}
+
+// GET the schema journal of a database, newest first
+router.get('/:dbId/journal', (req, res) => {
+    const { dbId } = req.params;
+
+    try {
+        res.json(listSchemaJournal(dbId));
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to fetch schema journal', detail: String(err) });
+    }
+});
+
+// POST undo the latest schema operation
+router.post('/:dbId/undo', (req, res) => {
+    const { dbId } = req.params;
+
+    try {
+        res.json(undoSchemaOp(dbId));
+    } catch (err) {
+        sendJournalError(res, err);
+    }
+});
+
+// POST redo the last undone schema operation
+router.post('/:dbId/redo', (req, res) => {
+    const { dbId } = req.params;
+
+    try {
+        res.json(redoSchemaOp(dbId));
+    } catch (err) {
+        sendJournalError(res, err);
+    }
+});
+
+export default router;
@@ -1,5 +1,5 @@
 import express from 'express';
-import { getSingleRow, createRow, deleteRow, patchRowVisibility, patchRow } from '../db/row-functions';
+import { getSingleRow, getRowBacklinks, createRow, deleteRow, patchRowVisibility, patchRow, applyRowBatch } from '../db/row-functions';
 
 const router = express.Router({ mergeParams: true });
 
@@ -20,18 +20,63 @@ router.post('/:dbId/table/:tableName/row', (req, res) => {
     }
 });
 
-// GET a single row by ID
+// POST apply many create / patch / visibility / delete operations in one transaction
+router.post('/:dbId/table/:tableName/row/batch', (req, res) => {
+    const { dbId, tableName } = req.params;
+    const { operations, mode = 'atomic' } = req.body;
+
+    if (!Array.isArray(operations) || operations.length === 0) {
+        return res.status(400).json({ error: '"operations" must be a non-empty array' });
+    }
+    if (mode !== 'atomic' && mode !== 'best-effort') {
+        return res.status(400).json({ error: '"mode" must be "atomic" or "best-effort"' });
+    }
+    const validOps = ['create', 'patch', 'visibility', 'delete'];
+    const badIndex = operations.findIndex((o: any) =>
+        !o || !validOps.includes(o.op) || (o.op !== 'create' && (o.id === undefined || o.id === null))
+    );
+    if (badIndex !== -1) {
+        return res.status(400).json({ error: `Invalid operation at index ${badIndex}: needs "op" (${validOps.join(', ')}) and "id" unless creating` });
+    }
+
+    try {
+        const result = applyRowBatch(dbId, tableName, operations, mode);
+        res.status(result.committed ? 200 : 409).json(result);
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to apply row batch', detail: String(err) });
+    }
+});
+
+// GET a single row by ID (?expand=backlinks adds the rows referencing it)
 router.get('/:dbId/table/:tableName/row/:rowId', (req, res) => {
     const { dbId, tableName, rowId } = req.params;
+    const { expand } = req.query;
+
+    const expansions = typeof expand === 'string' && expand !== '' ? expand.split(',') : [];
+    if (expand !== undefined && (typeof expand !== 'string' || expansions.some(e => e !== 'backlinks'))) {
+        return res.status(400).json({ error: '"expand" only supports "backlinks"' });
+    }
 
     try {
-        const row = getSingleRow(dbId, tableName, rowId);
+        const row = getSingleRow(dbId, tableName, rowId, { backlinks: expansions.includes('backlinks') });
         res.json(row);
     } catch (err) {
         res.status(500).json({ error: 'Failed to get row', detail: String(err) });
     }
 });
 
+// GET the rows that reference a row through table_ref / table_ref_many columns
+router.get('/:dbId/table/:tableName/row/:rowId/backlinks', (req, res) => {
+    const { dbId, tableName, rowId } = req.params;
+
+    try {
+        const backlinks = getRowBacklinks(dbId, tableName, rowId);
+        res.json({ table: tableName, rowId: Number(rowId), backlinks });
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to get row backlinks', detail: String(err) });
+    }
+});
+
 // PATCH row visibility
 router.patch('/:dbId/table/:tableName/row/:rowId/visibility', (req, res) => {
     const { dbId, tableName, rowId } = req.params;
@@ -0,0 +1,36 @@
+import express from 'express';
+import { globalSearch } from '../db/search-functions';
+import { isValidTimeZone } from '../utils/date-range';
+
+const router = express.Router();
+
+// Search every table of one database (?dbId=) or of all databases
+router.get('/', (req, res) => {
+    const { q, dbId, includeHidden, limit, tz } = req.query;
+
+    if (!q || typeof q !== 'string' || !q.trim()) {
+        return res.status(400).json({ error: 'Missing or invalid "q"' });
+    }
+    const limitNum = limit !== undefined ? parseInt(limit as string, 10) : undefined;
+    if (limitNum !== undefined && (isNaN(limitNum) || limitNum < 1)) {
+        return res.status(400).json({ error: '"limit" must be a positive integer' });
+    }
+    if (tz !== undefined && (typeof tz !== 'string' || !isValidTimeZone(tz))) {
+        return res.status(400).json({ error: '"tz" must be an IANA timezone such as "Europe/Paris"' });
+    }
+
+    try {
+        res.json(globalSearch(q, {
+            dbId: dbId as string | undefined,
+            includeHidden: includeHidden === 'true',
+            limit: limitNum,
+            timeZone: tz,
+        }));
+    } catch (err) {
+        const message = (err as Error).message;
+        if (message.includes('not found')) return res.status(404).json({ error: message });
+        res.status(500).json({ error: 'Failed to search', detail: String(err) });
+    }
+});
+
+export default router;
@@ -1,5 +1,20 @@
 import express from 'express';
-import { copyTable, createTable, deleteTable, getTable, renameTable, setTableVisibility } from '../db/table-functions';
+import { Readable, pipeline } from 'stream';
+import { exportTable, exportFormats, ExportFormat, TableExport } from '../db/export-functions';
+import {
+    copyTable,
+    createTable,
+    deleteTable,
+    explainTableQuery,
+    getRequiredReport,
+    getTable,
+    renameTable,
+    setTableVisibility,
+    TableQueryOptions,
+} from '../db/table-functions';
+import { setFullTextIndex } from '../db/fulltext-functions';
+import { aggregateTable, tableFacets } from '../db/aggregate-functions';
+import { isValidTimeZone } from '../utils/date-range';
 
 const router = express.Router({ mergeParams: true });
 
@@ -39,7 +54,29 @@ router.post('/:sourceDbId/table/:sourceTableName/copy', (req, res) => {
 // Get rows of a table in a specific database
 router.get('/:dbId/table/:tableName', (req, res) => {
     const { dbId, tableName } = req.params;
-    const { offset, limit, hidden, q, s } = req.query;
+    const { offset, limit, cursor, count, facets, view, hidden, q, s, mode, tz, strict } = req.query;
+
+    if (mode !== undefined && mode !== 'query' && mode !== 'fulltext') {
+        return res.status(400).json({ error: '"mode" must be "query" or "fulltext"' });
+    }
+    if (tz !== undefined && (typeof tz !== 'string' || !isValidTimeZone(tz))) {
+        return res.status(400).json({ error: '"tz" must be an IANA timezone such as "Europe/Paris"' });
+    }
+    if (count !== undefined && count !== 'none' && count !== 'estimate' && count !== 'exact') {
+        return res.status(400).json({ error: '"count" must be "none", "estimate" or "exact"' });
+    }
+    if (cursor !== undefined && typeof cursor !== 'string') {
+        return res.status(400).json({ error: 'Invalid "cursor"' });
+    }
+    if (cursor !== undefined && offset !== undefined) {
+        return res.status(400).json({ error: 'Use either "offset" or "cursor", not both' });
+    }
+    if (facets !== undefined && typeof facets !== 'string') {
+        return res.status(400).json({ error: 'Invalid "facets"' });
+    }
+    if (view !== undefined && typeof view !== 'string') {
+        return res.status(400).json({ error: 'Invalid "view"' });
+    }
 
     const offsetNum = offset ? parseInt(offset as string, 10) : undefined;
     const limitNum = limit ? parseInt(limit as string, 10) : undefined;
@@ -48,18 +85,174 @@ router.get('/:dbId/table/:tableName', (req, res) => {
     if (hidden === 'true') hiddenFlag = true;
     else if (hidden === 'false') hiddenFlag = false;
 
+    const query: TableQueryOptions = {
+        hidden: hiddenFlag,
+        search: q as string | undefined,
+        sort: s as string | undefined,
+        mode,
+        timeZone: tz,
+        strict: strict === 'true',
+        view
+    };
+
     try {
-        const table = getTable(dbId, tableName, {
-            offset: offsetNum,
-            limit: limitNum,
+        const table = getTable(dbId, tableName, { ...query, offset: offsetNum, limit: limitNum, cursor, count });
+        // Value counts over the filtered rows, for a sidebar next to them
+        const facetCounts = facets ? tableFacets(dbId, tableName, facets.split(','), query) : undefined;
+        res.json({ table: tableName, ...table, ...(facetCounts && { facets: facetCounts }) });
+    } catch (err) {
+        const message = (err as Error).message;
+        if (['Invalid query', 'Invalid cursor', 'Invalid facets', 'Invalid view'].some(prefix => message.startsWith(prefix))) {
+            return res.status(400).json({ error: message });
+        }
+        res.status(500).json({ error: 'Failed to fetch table rows', detail: String(err) });
+    }
+});
+
+// Explains how a q= query is read: parse tree, resolved columns, SQL and warnings
+router.get('/:dbId/table/:tableName/query/explain', (req, res) => {
+    const { dbId, tableName } = req.params;
+    const { hidden, q, s, mode, tz } = req.query;
+
+    if (typeof q !== 'string') {
+        return res.status(400).json({ error: 'Missing or invalid "q"' });
+    }
+    if (mode !== undefined && mode !== 'query' && mode !== 'fulltext') {
+        return res.status(400).json({ error: '"mode" must be "query" or "fulltext"' });
+    }
+    if (tz !== undefined && (typeof tz !== 'string' || !isValidTimeZone(tz))) {
+        return res.status(400).json({ error: '"tz" must be an IANA timezone such as "Europe/Paris"' });
+    }
+
+    try {
+        res.json(explainTableQuery(dbId, tableName, {
+            hidden: hidden === 'true' ? true : hidden === 'false' ? false : undefined,
+            search: q,
+            sort: s as string | undefined,
+            mode,
+            timeZone: tz,
+        }));
+    } catch (err) {
+        const message = (err as Error).message;
+        res.status(message.includes('not found') ? 404 : 400).json({ error: message });
+    }
+});
+
+// Metrics over the rows a q= query selects, optionally grouped by a column
+router.get('/:dbId/table/:tableName/aggregate', (req, res) => {
+    const { dbId, tableName } = req.params;
+    const { groupBy, metrics, hidden, q, mode, tz, strict } = req.query;
+
+    if (groupBy !== undefined && typeof groupBy !== 'string') {
+        return res.status(400).json({ error: 'Invalid "groupBy"' });
+    }
+    if (metrics !== undefined && typeof metrics !== 'string') {
+        return res.status(400).json({ error: 'Invalid "metrics"' });
+    }
+    if (mode !== undefined && mode !== 'query' && mode !== 'fulltext') {
+        return res.status(400).json({ error: '"mode" must be "query" or "fulltext"' });
+    }
+    if (tz !== undefined && (typeof tz !== 'string' || !isValidTimeZone(tz))) {
+        return res.status(400).json({ error: '"tz" must be an IANA timezone such as "Europe/Paris"' });
+    }
+
+    try {
+        res.json(aggregateTable(dbId, tableName, {
+            groupBy: groupBy || undefined,
+            metrics: metrics ? metrics.split(',') : undefined,
+            hidden: hidden === 'true' ? true : hidden === 'false' ? false : undefined,
+            search: q as string | undefined,
+            mode,
+            timeZone: tz,
+            strict: strict === 'true',
+        }));
+    } catch (err) {
+        const message = (err as Error).message;
+        if (message.includes('not found')) return res.status(404).json({ error: message });
+        if (/^Invalid (aggregate|query)/.test(message)) return res.status(400).json({ error: message });
+        res.status(500).json({ error: 'Failed to aggregate table', detail: message });
+    }
+});
+
+// Turns the table's full-text index on or off
+router.patch('/:dbId/table/:tableName/fulltext', (req, res) => {
+    const { dbId, tableName } = req.params;
+    const { enabled } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: '"enabled" must be a boolean' });
+    }
+
+    try {
+        const result = setFullTextIndex(dbId, tableName, enabled);
+        res.json({ success: true, ...result });
+    } catch (err) {
+        const message = (err as Error).message;
+        res.status(message.includes('not found') ? 404 : 500).json({ error: 'Failed to update full-text index', detail: message });
+    }
+});
+
+// Lists rows violating each column's required setting
+router.get('/:dbId/table/:tableName/required', (req, res) => {
+    const { dbId, tableName } = req.params;
+
+    try {
+        const report = getRequiredReport(dbId, tableName);
+        res.json(report);
+    } catch (err) {
+        const message = (err as Error).message;
+        res.status(message.includes('not found') ? 404 : 500).json({ error: 'Failed to build required report', detail: message });
+    }
+});
+
+// Content types for each export format
+const exportContentTypes: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    tsv: 'text/tab-separated-values; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Streams the table's rows as a csv / tsv / json / ndjson download (same q, s, hidden as above)
+router.get('/:dbId/table/:tableName/export', (req, res) => {
+    const { dbId, tableName } = req.params;
+    const { format = 'csv', hidden, q, s, tz, skipHiddenColumns, richText = 'html' } = req.query;
+
+    if (!exportFormats.includes(format as ExportFormat)) {
+        return res.status(400).json({ error: `"format" must be one of: ${exportFormats.join(', ')}` });
+    }
+    if (richText !== 'html' && richText !== 'markdown') {
+        return res.status(400).json({ error: '"richText" must be "html" or "markdown"' });
+    }
+    if (tz !== undefined && (typeof tz !== 'string' || !isValidTimeZone(tz))) {
+        return res.status(400).json({ error: '"tz" must be an IANA timezone such as "Europe/Paris"' });
+    }
+
+    let hiddenFlag: boolean | undefined;
+    if (hidden === 'true') hiddenFlag = true;
+    else if (hidden === 'false') hiddenFlag = false;
+
+    let exported: TableExport;
+    try {
+        exported = exportTable(dbId, tableName, {
+            format: format as ExportFormat,
             hidden: hiddenFlag,
             search: q as string | undefined,
-            sort: s as string | undefined
+            sort: s as string | undefined,
+            timeZone: tz,
+            skipHiddenColumns: skipHiddenColumns === 'true',
+            richText,
         });
-        res.json({ table: tableName, ...table });
     } catch (err) {
-        res.status(500).json({ error: 'Failed to fetch table rows', detail: String(err) });
+        return res.status(500).json({ error: 'Failed to export table', detail: String(err) });
     }
+
+    res.setHeader('Content-Type', exportContentTypes[format as ExportFormat]);
+    res.setHeader('Content-Disposition', `attachment; filename="${tableName}.${format}"`);
+
+    // Headers are already sent if the stream fails, so the response is just cut short
+    res.on('close', exported.close);
+    pipeline(Readable.from(exported.chunks), res, () => {});
 });
 
 
@@ -0,0 +1,59 @@
+import express from 'express';
+import { deleteGlobalTagList, getGlobalTagList, listGlobalTagLists, syncGlobalTagList } from '../db/taglist-functions';
+
+const router = express.Router({ mergeParams: true });
+
+// GET all GlobalTagLists of a database
+router.get('/:dbId/taglist', (req, res) => {
+    const { dbId } = req.params;
+    try {
+        const lists = listGlobalTagLists(dbId);
+        res.json(lists);
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to get tag lists', detail: String(err) });
+    }
+});
+
+// GET a single GlobalTagList
+router.get('/:dbId/taglist/:listId', (req, res) => {
+    const { dbId, listId } = req.params;
+    try {
+        const list = getGlobalTagList(dbId, listId);
+        res.json(list);
+    } catch (err) {
+        res.status(404).json({ error: (err as Error).message });
+    }
+});
+
+// POST create or update a GlobalTagList from a source column
+router.post('/:dbId/taglist/sync', (req, res) => {
+    const { dbId } = req.params;
+    const { tableName, columnName, name } = req.body;
+
+    if (!tableName || typeof tableName !== 'string' || !columnName || typeof columnName !== 'string') {
+        return res.status(400).json({ error: 'Missing or invalid "tableName" or "columnName"' });
+    }
+    if (name !== undefined && typeof name !== 'string') {
+        return res.status(400).json({ error: '"name" must be a string' });
+    }
+
+    try {
+        const list = syncGlobalTagList(dbId, tableName, columnName, name);
+        res.json(list);
+    } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+    }
+});
+
+// DELETE a GlobalTagList (linked columns are unlinked first)
+router.delete('/:dbId/taglist/:listId', (req, res) => {
+    const { dbId, listId } = req.params;
+    try {
+        deleteGlobalTagList(dbId, listId);
+        res.json({ success: true });
+    } catch (err) {
+        res.status(404).json({ error: (err as Error).message });
+    }
+});
+
+export default router;
@@ -0,0 +1,147 @@
+import express from 'express';
+import {
+    emptyTrash,
+    getTrashSettings,
+    listTrash,
+    listTrashedRows,
+    purgeTrashItem,
+    purgeTrashedRows,
+    restoreTrashItem,
+    updateTrashSettings,
+} from '../db/trash-functions';
+import { restoreTrashedRow } from '../db/row-functions';
+
+const router = express.Router({ mergeParams: true });
+
+// Missing items → 404, everything else (name taken, failed validation) → 400
+function sendTrashError(res: express.Response, err: unknown) {
+    const message = (err as Error).message;
+    res.status(message.includes('not found') ? 404 : 400).json({ error: message });
+}
+
+// ─── Deleted tables and databases ───────────────────────────────────────────
+
+// GET the trash (?dbId= limits it to one database's tables)
+router.get('/trash', (req, res) => {
+    const { dbId } = req.query;
+
+    try {
+        res.json(listTrash(typeof dbId === 'string' && dbId ? dbId : undefined));
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to list trash', detail: String(err) });
+    }
+});
+
+// GET the auto-purge age
+router.get('/trash/settings', (_req, res) => {
+    try {
+        res.json(getTrashSettings());
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to read trash settings', detail: String(err) });
+    }
+});
+
+// PUT the auto-purge age ({ autoPurgeDays }, 0 never purges)
+router.put('/trash/settings', (req, res) => {
+    const { autoPurgeDays } = req.body ?? {};
+    if (autoPurgeDays === undefined) {
+        return res.status(400).json({ error: 'Missing autoPurgeDays in request body' });
+    }
+
+    try {
+        res.json(updateTrashSettings({ autoPurgeDays }));
+    } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+    }
+});
+
+// POST restore a deleted table or database
+router.post('/trash/:trashId/restore', (req, res) => {
+    const { trashId } = req.params;
+
+    try {
+        res.json(restoreTrashItem(trashId));
+    } catch (err) {
+        sendTrashError(res, err);
+    }
+});
+
+// DELETE one trash item permanently
+router.delete('/trash/:trashId', (req, res) => {
+    const { trashId } = req.params;
+
+    try {
+        purgeTrashItem(trashId);
+        res.status(204).send();
+    } catch (err) {
+        sendTrashError(res, err);
+    }
+});
+
+// DELETE everything in the trash permanently
+router.delete('/trash', (_req, res) => {
+    try {
+        res.json({ purged: emptyTrash() });
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to empty trash', detail: String(err) });
+    }
+});
+
+// ─── Deleted rows ───────────────────────────────────────────────────────────
+
+// GET a table's trashed rows, newest first
+router.get('/:dbId/table/:tableName/trash', (req, res) => {
+    const { dbId, tableName } = req.params;
+
+    try {
+        res.json({ table: tableName, ...listTrashedRows(dbId, tableName) });
+    } catch (err) {
+        res.status(500).json({ error: 'Failed to list trashed rows', detail: String(err) });
+    }
+});
+
+// POST restore a trashed row under its original id
+router.post('/:dbId/table/:tableName/trash/:trashId/restore', (req, res) => {
+    const { dbId, tableName, trashId } = req.params;
+
+    const id = Number(trashId);
+    if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ error: 'Invalid trash id' });
+    }
+
+    try {
+        res.json(restoreTrashedRow(dbId, tableName, id));
+    } catch (err) {
+        sendTrashError(res, err);
+    }
+});
+
+// DELETE one trashed row permanently
+router.delete('/:dbId/table/:tableName/trash/:trashId', (req, res) => {
+    const { dbId, tableName, trashId } = req.params;
+
+    const id = Number(trashId);
+    if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ error: 'Invalid trash id' });
+    }
+
+    try {
+        purgeTrashedRows(dbId, tableName, id);
+        res.status(204).send();
+    } catch (err) {
+        sendTrashError(res, err);
+    }
+});
+
+// DELETE all of a table's trashed rows permanently
+router.delete('/:dbId/table/:tableName/trash', (req, res) => {
+    const { dbId, tableName } = req.params;
+
+    try {
+        res.json({ purged: purgeTrashedRows(dbId, tableName) });
+    } catch (err) {
+        sendTrashError(res, err);
+    }
+});
+
+export default router;
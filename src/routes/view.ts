@@ -0,0 +1,76 @@
+import express from 'express';
+import { createView, deleteView, getView, listViews, updateView } from '../db/view-functions';
+
+const router = express.Router({ mergeParams: true });
+
+// Maps view failures: missing database / table / view → 404, name taken → 409, bad fields → 400
+function viewErrorStatus(message: string): number {
+    return message.includes('not found') ? 404 : message.includes('already exists') ? 409 : 400;
+}
+
+// GET all saved views of a table
+router.get('/:dbId/table/:tableName/views', (req, res) => {
+    const { dbId, tableName } = req.params;
+    try {
+        res.json(listViews(dbId, tableName));
+    } catch (err) {
+        res.status(404).json({ error: (err as Error).message });
+    }
+});
+
+// GET a single saved view
+router.get('/:dbId/table/:tableName/views/:viewName', (req, res) => {
+    const { dbId, tableName, viewName } = req.params;
+    try {
+        res.json(getView(dbId, tableName, viewName));
+    } catch (err) {
+        res.status(404).json({ error: (err as Error).message });
+    }
+});
+
+// POST save a new view
+router.post('/:dbId/table/:tableName/views', (req, res) => {
+    const { dbId, tableName } = req.params;
+    const { name, q, s, columns, pageSize } = req.body;
+
+    if (!name || typeof name !== 'string') {
+        return res.status(400).json({ error: 'Missing or invalid "name"' });
+    }
+
+    try {
+        res.status(201).json(createView(dbId, tableName, { name, q, s, columns, pageSize }));
+    } catch (err) {
+        const message = (err as Error).message;
+        res.status(viewErrorStatus(message)).json({ error: message });
+    }
+});
+
+// PATCH change or rename a view (null removes a field)
+router.patch('/:dbId/table/:tableName/views/:viewName', (req, res) => {
+    const { dbId, tableName, viewName } = req.params;
+    const { name, q, s, columns, pageSize } = req.body;
+
+    if (name !== undefined && typeof name !== 'string') {
+        return res.status(400).json({ error: '"name" must be a string' });
+    }
+
+    try {
+        res.json(updateView(dbId, tableName, viewName, { name, q, s, columns, pageSize }));
+    } catch (err) {
+        const message = (err as Error).message;
+        res.status(viewErrorStatus(message)).json({ error: message });
+    }
+});
+
+// DELETE a saved view
+router.delete('/:dbId/table/:tableName/views/:viewName', (req, res) => {
+    const { dbId, tableName, viewName } = req.params;
+    try {
+        deleteView(dbId, tableName, viewName);
+        res.json({ success: true });
+    } catch (err) {
+        res.status(404).json({ error: (err as Error).message });
+    }
+});
+
+export default router;
@@ -12,7 +12,40 @@ export type ColumnType =
     | 'link'            // display name + url object
     | 'custom'          // validated by regex in metadata
     | 'table_ref'       // foreign key to one row in another table (stored as INTEGER row id)
-    | 'table_ref_many'; // foreign keys to multiple rows in another table (stored as JSON array of ints)
+    | 'table_ref_many'  // foreign keys to multiple rows in another table (stored as JSON array of ints)
+    | 'formula'         // computed from the row's other columns (expression in metadata)
+    | 'lookup'          // a column of the row a table_ref points to
+    | 'rollup';         // an aggregate over referenced or referencing rows
+
+/**
+ * Defaults computed per row: `now` (date columns), `first_tag` (the first
+ * registered tag of a tag column) and `counter` (integer columns: the
+ * highest value so far + 1).
+ */
+export type DynamicDefault = 'now' | 'first_tag' | 'counter';
+
+/** A column's default: a fixed value of the column's type, or a dynamic one */
+export type ColumnDefault = string | number | { dynamic: DynamicDefault };
+
+/** A lookup column shows `field` of the row its table_ref column `via` points to */
+export interface LookupDef {
+    via: string;
+    field: string;
+}
+
+export type RollupFunction = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'concat';
+
+/**
+ * A rollup column aggregates `field` over related rows: the rows its own
+ * table_ref / table_ref_many column `via` points to or, with `table`, the rows
+ * of that table whose column `via` points back to the row.
+ */
+export interface RollupDef {
+    via: string;
+    table?: string;
+    field?: string; // optional for count
+    fn: RollupFunction;
+}
 
 export interface ColumnDef {
     name: string;
@@ -23,8 +56,14 @@ export interface ColumnDef {
     rule?: string;         // for custom
     visualization?: string; // front-end display hint / display column name for table_ref
     tagLock?: boolean;     // for single_tag / multi_tag: prevents adding/removing tags when true
+    linkedList?: string;   // for single_tag / multi_tag: id of the GlobalTagList this column is bound to
     linkedTable?: string;  // for table_ref / table_ref_many: target table name within this database
     required?: 'yes' | 'soft yes' | 'no';
+    default?: ColumnDefault; // filled into new rows that leave the column out
+    formula?: string;      // for formula: the expression (see utils/formula.ts)
+    formulaError?: string; // for formula: why it cannot be computed (it reads as null)
+    lookup?: LookupDef;    // for lookup
+    rollup?: RollupDef;    // for rollup
 }
 
 export interface Column {
@@ -40,6 +79,29 @@ export interface TagDef {
     description: string;
 }
 
+export interface GlobalTagList {
+    id: string;            // {tableName}_{columnName}_{timestamp}
+    name: string;
+    sourceTable: string;
+    sourceColumn: string;
+    values: string[];
+    createdAt: string;
+    modifiedAt: string;
+}
+
+/** A named way of looking at a table (see view-functions.ts) */
+export interface SavedView {
+    q?: string;
+    s?: string;
+    /** Per-column overrides of the table's own visibility and order */
+    columns?: { [columnName: string]: { hidden?: boolean; index?: number } };
+    pageSize?: number;
+    /** Set while q filters on a deleted column; the view cannot be applied until q changes */
+    qError?: string;
+    createdAt: string;
+    modifiedAt: string;
+}
+
 export interface DatabaseMetadata {
     id: string;
     displayName: string;
@@ -50,6 +112,10 @@ export interface DatabaseMetadata {
     tables?: {
         [tableName: string]: {
             hidden: boolean;
+            /** Maintain an FTS5 index for full-text search (mode=fulltext) */
+            fullText?: boolean;
+            /** Saved views by name */
+            views?: { [viewName: string]: SavedView };
             columns: {
                 [columnName: string]: {
                     type: ColumnType;
@@ -59,10 +125,17 @@ export interface DatabaseMetadata {
                     rule?: string;
                     visualization?: string;
                     tagLock?: boolean;
+                    linkedList?: string;
                     linkedTable?: string;
                     required?: 'yes' | 'soft yes' | 'no';
+                    default?: ColumnDefault;
+                    formula?: string;
+                    formulaError?: string;
+                    lookup?: LookupDef;
+                    rollup?: RollupDef;
                 };
             };
         };
     };
+    globalTagLists?: GlobalTagList[];
 }
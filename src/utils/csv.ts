@@ -0,0 +1,69 @@
+/**
+ * Minimal RFC 4180 CSV reader and writer.
+ *
+ * The reader handles quoted fields, escaped quotes (""), embedded delimiters
+ * and line breaks inside quotes, CRLF / LF line endings, and a leading UTF-8
+ * BOM. The writer quotes only the fields that need it.
+ */
+
+export function parseCsv(text: string, delimiter = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    for (; i < text.length; i++) {
+        const ch = text[i];
+
+        if (inQuotes) {
+            if (ch === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += ch;
+            }
+            continue;
+        }
+
+        if (ch === '"' && field === '') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Drop blank lines (a single empty field)
+    return rows.filter(r => !(r.length === 1 && r[0] === ''));
+}
+
+// Quotes a field if it contains the delimiter, a quote, or a line break
+export function formatCsvField(value: string, delimiter = ','): string {
+    if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+}
+
+// Formats one CSV line, terminated with CRLF
+export function formatCsvRow(fields: string[], delimiter = ','): string {
+    return fields.map(f => formatCsvField(f, delimiter)).join(delimiter) + '\r\n';
+}
@@ -0,0 +1,35 @@
+/**
+ * Opaque cursors for keyset pagination: the sort-key values of the last row
+ * of a page (its id last), tagged with the ORDER BY they were read under so
+ * a cursor is not reused with another sort.
+ */
+
+import crypto from 'crypto';
+
+export type CursorValue = string | number | null;
+
+function sortTag(orderBy: string): string {
+    return crypto.createHash('sha1').update(orderBy).digest('base64url').slice(0, 10);
+}
+
+export function encodeCursor(orderBy: string, values: CursorValue[]): string {
+    return Buffer.from(JSON.stringify({ s: sortTag(orderBy), v: values })).toString('base64url');
+}
+
+/**
+ * Reads a cursor made by encodeCursor for the same ORDER BY and number of
+ * keys; throws `Invalid cursor` otherwise.
+ */
+export function decodeCursor(cursor: string, orderBy: string, keyCount: number): CursorValue[] {
+    let decoded: any;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+        throw new Error('Invalid cursor: not a cursor returned as nextCursor');
+    }
+    const valid = decoded && Array.isArray(decoded.v) && decoded.v.length === keyCount
+        && decoded.v.every((v: unknown) => v === null || typeof v === 'string' || typeof v === 'number');
+    if (!valid) throw new Error('Invalid cursor: not a cursor returned as nextCursor');
+    if (decoded.s !== sortTag(orderBy)) throw new Error('Invalid cursor: the sort order changed since it was issued');
+    return decoded.v;
+}
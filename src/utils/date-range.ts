@@ -0,0 +1,144 @@
+/**
+ * Resolves the date terms of search queries to [start, end) millisecond
+ * ranges of whole days, in a given IANA timezone:
+ *
+ *   2024-03-15                      that day
+ *   today, yesterday                that day
+ *   -7d, -2w, -3m, -1y              from that many days/weeks/months/years ago
+ *                                   through the end of today
+ *   this_week, last_week            Monday to Sunday
+ *   this_month, last_month
+ *   this_year, last_year
+ *
+ * dateBucket names the day, week, month or year an instant falls in, for
+ * grouping. The default timezone is ATOMCRUD_TIMEZONE, or the server's own.
+ */
+
+export const DEFAULT_TIME_ZONE = process.env.ATOMCRUD_TIMEZONE ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export interface DateRange {
+    start: number;
+    end: number;
+}
+
+// A calendar day; month is 1–12. Out-of-range days/months roll over.
+interface Day {
+    year: number;
+    month: number;
+    day: number;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Offset of `timeZone` from UTC at instant `ms`, in milliseconds
+function zoneOffset(ms: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric',
+        hour: 'numeric', minute: 'numeric', second: 'numeric',
+    }).formatToParts(new Date(ms));
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+// Normalizes rolled-over dates (e.g. March 0 → February 28/29)
+function normalize(day: Day): Day {
+    const d = new Date(Date.UTC(day.year, day.month - 1, day.day));
+    return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function addDays(day: Day, days: number): Day {
+    return normalize({ ...day, day: day.day + days });
+}
+
+// Instant at which `day` starts in `timeZone` (checked twice for DST changes)
+export function startOfDay(day: Day, timeZone: string): number {
+    const { year, month, day: date } = normalize(day);
+    const wallClock = Date.UTC(year, month - 1, date);
+    let ms = wallClock - zoneOffset(wallClock, timeZone);
+    ms = wallClock - zoneOffset(ms, timeZone);
+    return ms;
+}
+
+// The calendar day it is in `timeZone` at instant `now`
+function dayAt(now: number, timeZone: string): Day {
+    const d = new Date(now + zoneOffset(now, timeZone));
+    return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function mondayOf(day: Day): Day {
+    const weekday = (new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay() + 6) % 7;
+    return addDays(day, -weekday);
+}
+
+function span(from: Day, to: Day, timeZone: string): DateRange {
+    return { start: startOfDay(from, timeZone), end: startOfDay(to, timeZone) };
+}
+
+/**
+ * Resolves one date term to the range of days it covers, or null if the term
+ * is not a date. `now` is only there for tests.
+ */
+export function resolveDateTerm(term: string, timeZone: string = DEFAULT_TIME_ZONE, now: number = Date.now()): DateRange | null {
+    const t = term.trim().replace(/^\\/, '').toLowerCase();
+
+    const absolute = t.match(/^(\d{4})[\/-](\d{1,2})[\/-](\d{1,2})$/);
+    if (absolute) {
+        const day = { year: Number(absolute[1]), month: Number(absolute[2]), day: Number(absolute[3]) };
+        return span(day, addDays(day, 1), timeZone);
+    }
+
+    const today = dayAt(now, timeZone);
+    const tomorrow = addDays(today, 1);
+
+    const relative = t.match(/^-(\d+)([dwmy])$/);
+    if (relative) {
+        const n = Number(relative[1]);
+        const from = relative[2] === 'd' ? addDays(today, -n)
+            : relative[2] === 'w' ? addDays(today, -7 * n)
+            : relative[2] === 'm' ? normalize({ ...today, month: today.month - n })
+            : normalize({ ...today, year: today.year - n });
+        return span(from, tomorrow, timeZone);
+    }
+
+    const monday = mondayOf(today);
+    const firstOfMonth = { ...today, day: 1 };
+    const firstOfYear = { year: today.year, month: 1, day: 1 };
+
+    switch (t) {
+        case 'today': return span(today, tomorrow, timeZone);
+        case 'yesterday': return span(addDays(today, -1), today, timeZone);
+        case 'this_week': return span(monday, addDays(monday, 7), timeZone);
+        case 'last_week': return span(addDays(monday, -7), monday, timeZone);
+        case 'this_month': return span(firstOfMonth, { ...firstOfMonth, month: firstOfMonth.month + 1 }, timeZone);
+        case 'last_month': return span({ ...firstOfMonth, month: firstOfMonth.month - 1 }, firstOfMonth, timeZone);
+        case 'this_year': return span(firstOfYear, { ...firstOfYear, year: firstOfYear.year + 1 }, timeZone);
+        case 'last_year': return span({ ...firstOfYear, year: firstOfYear.year - 1 }, firstOfYear, timeZone);
+    }
+    return null;
+}
+
+export type DateBucket = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * The bucket instant `ms` falls in, in `timeZone`: 2024-03-15 (day),
+ * 2024-03-11 (week, named by its Monday), 2024-03 (month) or 2024 (year).
+ */
+export function dateBucket(ms: number, bucket: DateBucket, timeZone: string = DEFAULT_TIME_ZONE): string {
+    const day = bucket === 'week' ? mondayOf(dayAt(ms, timeZone)) : dayAt(ms, timeZone);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    switch (bucket) {
+        case 'year': return String(day.year);
+        case 'month': return `${day.year}-${pad(day.month)}`;
+        default: return `${day.year}-${pad(day.month)}-${pad(day.day)}`;
+    }
+}
@@ -3,6 +3,7 @@ import path from 'path';
 
 export const DB_FOLDER = process.env.ATOMCRUD_TEST_DB_FOLDER ?? path.resolve('./databases');
 export const BACKUP_FOLDER = process.env.ATOMCRUD_TEST_BACKUP_FOLDER ?? path.resolve('./backup');
+export const TRASH_FOLDER = process.env.ATOMCRUD_TEST_TRASH_FOLDER ?? path.resolve('./trash');
 
 if (!fs.existsSync(DB_FOLDER)) {
     fs.mkdirSync(DB_FOLDER, { recursive: true });
@@ -52,3 +53,24 @@ export function getBackupPaths(backupName: string) {
     const galleryPath = path.join(folderPath, 'Gallery');
     return { folderPath, safeName, dbPath, metaPath, galleryPath };
 }
+
+/**
+ * Given a trash item id (format: {kind}_{name}_{timestamp}),
+ * derives the paths of the files it keeps.
+ *
+ * Structure on disk:
+ *   trash/
+ *     settings.json                   <- auto-purge age
+ *     table_{tableName}_{timestamp}/  <- a deleted table
+ *       trash.json                    <- what was deleted, from where, and when
+ *       table.sqlite                  <- the table, its history and trashed rows
+ *     database_{dbId}_{timestamp}/    <- a deleted database
+ *       trash.json
+ *       {dbId}/                       <- the database folder, moved as-is
+ */
+export function getTrashPaths(trashId: string) {
+    const folderPath = path.join(TRASH_FOLDER, trashId);
+    const manifestPath = path.join(folderPath, 'trash.json');
+    const tablePath = path.join(folderPath, 'table.sqlite');
+    return { folderPath, manifestPath, tablePath };
+}
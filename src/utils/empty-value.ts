@@ -0,0 +1,57 @@
+import { ColumnType } from '../types/types';
+
+// Values TipTap produces for an editor with no content
+const emptyRichText = ['', '<p></p>'];
+
+/**
+ * Returns true if a stored value counts as "empty" for the given column type.
+ * Numeric types (including boolean 0) are only empty when null.
+ */
+export function isEmptyValue(type: ColumnType, value: any): boolean {
+    if (value === null || value === undefined) return true;
+
+    switch (type) {
+        case 'rich_text':
+            return typeof value === 'string' && emptyRichText.includes(value.trim());
+
+        case 'table_ref_many':
+            if (Array.isArray(value)) return value.length === 0;
+            return typeof value === 'string' && ['', '[]'].includes(value.trim());
+
+        case 'string':
+        case 'custom':
+        case 'single_tag':
+        case 'multi_tag':
+        case 'link':
+            return typeof value === 'string' && value.trim() === '';
+
+        default:
+            return false;
+    }
+}
+
+/**
+ * SQL counterpart of isEmptyValue: a condition that is true when the column
+ * holds an empty value for its type.
+ */
+export function emptyValueSql(colName: string, type: ColumnType): string {
+    const col = `"${colName}"`;
+
+    switch (type) {
+        case 'rich_text':
+            return `(${col} IS NULL OR TRIM(${col}) IN ('', '<p></p>'))`;
+
+        case 'table_ref_many':
+            return `(${col} IS NULL OR TRIM(${col}) IN ('', '[]'))`;
+
+        case 'string':
+        case 'custom':
+        case 'single_tag':
+        case 'multi_tag':
+        case 'link':
+            return `(${col} IS NULL OR TRIM(${col}) = '')`;
+
+        default:
+            return `${col} IS NULL`;
+    }
+}
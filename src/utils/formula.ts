@@ -0,0 +1,273 @@
+/**
+ * Formula expressions: computed from the other columns of the same row and
+ * compiled to SQL, so a formula column is searched and sorted like a stored
+ * one.
+ *
+ *   rating * 2
+ *   days_between(date_created, now())
+ *   concat(title, ' - ', status)
+ *   if(done, 'Yes', 'No')
+ *
+ * Operators: + - * / (division is never integer division), = != < <= > >=,
+ * and / or / not, parentheses. Literals: numbers, 'text' or "text" (a quote
+ * is doubled inside), true, false, null. Columns are referenced by name, or
+ * as [name] when the name is not a plain word.
+ */
+
+import { normalizeName } from './normalize-name';
+
+interface Token {
+    kind: 'number' | 'string' | 'name' | 'op' | 'end';
+    text: string;
+    start: number;
+    end: number;
+}
+
+const tokenPatterns: Array<[Token['kind'], RegExp]> = [
+    ['number', /^(?:\d+(?:\.\d+)?|\.\d+)/],
+    ['string', /^(?:'(?:[^']|'')*'|"(?:[^"]|"")*")/],
+    ['name', /^(?:[A-Za-z_][A-Za-z0-9_]*|\[[^\]]+\])/],
+    ['op', /^(?:<=|>=|!=|<>|==|[-+*/=<>(),])/],
+];
+
+const keywords = new Set(['and', 'or', 'not', 'true', 'false', 'null']);
+
+const comparisons: Record<string, string> = {
+    '=': '=', '==': '=', '!=': '<>', '<>': '<>', '<': '<', '<=': '<=', '>': '>', '>=': '>=',
+};
+
+// Current time in ms, like stored dates
+const NOW_SQL = `CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER)`;
+
+const DAY_MS = 86400000;
+
+const functions: Record<string, { args: [number, number]; sql: (args: string[]) => string }> = {
+    now: { args: [0, 0], sql: () => NOW_SQL },
+    days_between: { args: [2, 2], sql: ([from, to]) => `CAST((${to} - ${from}) / ${DAY_MS} AS INTEGER)` },
+    concat: { args: [1, Infinity], sql: args => `(${args.map(a => `COALESCE(${a}, '')`).join(' || ')})` },
+    if: { args: [2, 3], sql: ([cond, then, otherwise = 'NULL']) => `(CASE WHEN ${cond} THEN ${then} ELSE ${otherwise} END)` },
+    coalesce: { args: [2, Infinity], sql: args => `COALESCE(${args.join(', ')})` },
+    round: { args: [1, 2], sql: ([value, digits = '0']) => `ROUND(${value}, ${digits})` },
+    abs: { args: [1, 1], sql: ([value]) => `ABS(${value})` },
+    min: { args: [2, Infinity], sql: args => `MIN(${args.join(', ')})` },
+    max: { args: [2, Infinity], sql: args => `MAX(${args.join(', ')})` },
+    lower: { args: [1, 1], sql: ([value]) => `LOWER(${value})` },
+    upper: { args: [1, 1], sql: ([value]) => `UPPER(${value})` },
+    trim: { args: [1, 1], sql: ([value]) => `TRIM(${value})` },
+    len: { args: [1, 1], sql: ([value]) => `LENGTH(${value})` },
+};
+
+function fail(message: string, token?: Token): never {
+    throw new Error(`Invalid formula: ${message}${token ? ` at position ${token.start + 1}` : ''}`);
+}
+
+function tokenize(formula: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < formula.length) {
+        const space = formula.slice(i).match(/^\s+/);
+        if (space) {
+            i += space[0].length;
+            continue;
+        }
+        const found = tokenPatterns
+            .map(([kind, pattern]) => ({ kind, match: formula.slice(i).match(pattern) }))
+            .find(t => t.match);
+        if (!found) fail(`unexpected '${formula[i]}'`, { kind: 'end', text: '', start: i, end: i });
+        const text = found.match![0];
+        tokens.push({ kind: found.kind, text, start: i, end: i + text.length });
+        i += text.length;
+    }
+    tokens.push({ kind: 'end', text: '', start: formula.length, end: formula.length });
+    return tokens;
+}
+
+function isBracketed(token: Token): boolean {
+    return token.text.startsWith('[');
+}
+
+// The column a name token refers to (normalized like column names)
+function columnName(token: Token): string {
+    return normalizeName(isBracketed(token) ? token.text.slice(1, -1) : token.text);
+}
+
+// Name tokens that refer to columns: not keywords, not function names
+function columnTokens(tokens: Token[]): Token[] {
+    return tokens.filter((token, i) => {
+        if (token.kind !== 'name') return false;
+        if (isBracketed(token)) return true;
+        const next = tokens[i + 1];
+        return !keywords.has(token.text.toLowerCase()) && !(next.kind === 'op' && next.text === '(');
+    });
+}
+
+function unquote(token: Token): string {
+    const quote = token.text[0];
+    return token.text.slice(1, -1).split(quote + quote).join(quote);
+}
+
+function sqlLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Compiles a formula to a SQL expression. `column` gives the SQL of a
+ * referenced column and throws when it cannot be used; throws
+ * `Invalid formula` for syntax errors, unknown functions and bad columns.
+ */
+export function compileFormula(formula: string, column: (name: string) => string): string {
+    const tokens = tokenize(formula);
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+    const isOp = (text: string) => peek().kind === 'op' && peek().text === text;
+    const isKeyword = (word: string) =>
+        peek().kind === 'name' && !isBracketed(peek()) && peek().text.toLowerCase() === word;
+    const expect = (text: string) => {
+        if (!isOp(text)) fail(peek().kind === 'end' ? `expected '${text}'` : `expected '${text}' instead of '${peek().text}'`, peek());
+        next();
+    };
+
+    function or(): string {
+        let sql = and();
+        while (isKeyword('or')) {
+            next();
+            sql = `(${sql} OR ${and()})`;
+        }
+        return sql;
+    }
+
+    function and(): string {
+        let sql = not();
+        while (isKeyword('and')) {
+            next();
+            sql = `(${sql} AND ${not()})`;
+        }
+        return sql;
+    }
+
+    function not(): string {
+        if (isKeyword('not')) {
+            next();
+            return `(NOT ${not()})`;
+        }
+        return comparison();
+    }
+
+    function comparison(): string {
+        const left = additive();
+        const op = peek().kind === 'op' ? comparisons[peek().text] : undefined;
+        if (!op) return left;
+        next();
+        return `(${left} ${op} ${additive()})`;
+    }
+
+    function additive(): string {
+        let sql = multiplicative();
+        while (isOp('+') || isOp('-')) {
+            const op = next().text;
+            sql = `(${sql} ${op} ${multiplicative()})`;
+        }
+        return sql;
+    }
+
+    function multiplicative(): string {
+        let sql = unary();
+        while (isOp('*') || isOp('/')) {
+            const op = next().text;
+            const right = unary();
+            sql = op === '/' ? `(CAST(${sql} AS REAL) / ${right})` : `(${sql} * ${right})`;
+        }
+        return sql;
+    }
+
+    function unary(): string {
+        if (isOp('-')) {
+            next();
+            return `(- ${unary()})`;
+        }
+        if (isOp('+')) next();
+        return primary();
+    }
+
+    function call(name: Token): string {
+        const fn = functions[name.text.toLowerCase()];
+        if (!fn) fail(`unknown function '${name.text}' (use ${Object.keys(functions).join(', ')})`, name);
+        next(); // (
+        const args: string[] = [];
+        if (!isOp(')')) {
+            args.push(or());
+            while (isOp(',')) {
+                next();
+                args.push(or());
+            }
+        }
+        expect(')');
+        const [min, max] = fn.args;
+        if (args.length < min || args.length > max) {
+            const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+            fail(`${name.text.toLowerCase()}() takes ${expected} argument${expected === '1' ? '' : 's'}`, name);
+        }
+        return fn.sql(args);
+    }
+
+    function primary(): string {
+        const token = next();
+        if (token.kind === 'number') return token.text;
+        if (token.kind === 'string') return sqlLiteral(unquote(token));
+        if (token.kind === 'end') fail('unexpected end of formula', token);
+        if (token.kind === 'op') {
+            if (token.text !== '(') fail(`unexpected '${token.text}'`, token);
+            const sql = or();
+            expect(')');
+            return sql;
+        }
+
+        if (!isBracketed(token) && isOp('(')) return call(token);
+        const word = token.text.toLowerCase();
+        if (!isBracketed(token) && keywords.has(word)) {
+            if (word === 'true') return '1';
+            if (word === 'false') return '0';
+            if (word === 'null') return 'NULL';
+            fail(`unexpected '${token.text}'`, token);
+        }
+        try {
+            return column(columnName(token));
+        } catch (err) {
+            fail((err as Error).message, token);
+        }
+    }
+
+    if (peek().kind === 'end') fail('the formula is empty');
+    const sql = or();
+    if (peek().kind !== 'end') fail(`unexpected '${peek().text}'`, peek());
+    return sql;
+}
+
+// How a column name is written in a formula
+function formulaName(name: string): string {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !keywords.has(name.toLowerCase()) ? name : `[${name}]`;
+}
+
+/**
+ * Rewrites the references to column `oldName` in a formula, leaving the rest
+ * of its text as written. A formula that no longer parses is returned as is.
+ */
+export function renameFormulaField(formula: string, oldName: string, newName: string): string {
+    let tokens: Token[];
+    try {
+        tokens = tokenize(formula);
+    } catch {
+        return formula;
+    }
+
+    let result = '';
+    let last = 0;
+    for (const token of columnTokens(tokens)) {
+        if (columnName(token) !== oldName) continue;
+        result += formula.slice(last, token.start) + formulaName(newName);
+        last = token.end;
+    }
+    return result + formula.slice(last);
+}
@@ -0,0 +1,21 @@
+// Block-level tags whose boundaries separate words
+const blockTags = /<\/?(p|div|br|li|ul|ol|h[1-6]|blockquote|pre|tr|td|th|table)\b[^>]*>/gi;
+
+/**
+ * Reduces a rich_text HTML string to its plain text, for indexing and
+ * snippets: tags are dropped (block tags become spaces), common entities are
+ * decoded and whitespace is collapsed.
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(blockTags, ' ')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
@@ -0,0 +1,29 @@
+/**
+ * Tables the API keeps for itself inside each database file (audit log,
+ * schema journal, row trash, full-text indexes).
+ * They share the "__" prefix, which user tables may not use, and are left out
+ * of every table listing.
+ */
+
+export const INTERNAL_PREFIX = '__';
+
+export const AUDIT_TABLE = '__audit_log';
+
+export const JOURNAL_TABLE = '__schema_journal';
+
+export const ROW_TRASH_TABLE = '__row_trash';
+
+export const FULLTEXT_STATE_TABLE = '__fulltext';
+
+// FTS5 index of a table ("__{table}__fts"; the suffix keeps its shadow tables
+// from colliding with another table's index)
+export function fullTextTableName(tableName: string): string {
+    return `${INTERNAL_PREFIX}${tableName}__fts`;
+}
+
+export function isInternalTable(name: string): boolean {
+    return name.startsWith(INTERNAL_PREFIX);
+}
+
+// sqlite_master condition that keeps user tables only
+export const userTablesSql = `name NOT LIKE 'sqlite_%' AND substr(name, 1, ${INTERNAL_PREFIX.length}) != '${INTERNAL_PREFIX}'`;
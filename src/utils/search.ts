@@ -1,5 +1,9 @@
 import lucene from 'lucene-query-parser';
 import { ColumnDef } from '../types/types';
+import { DEFAULT_TIME_ZONE, resolveDateTerm } from './date-range';
+import { emptyValueSql } from './empty-value';
+import { normalizeName } from './normalize-name';
+import { computedTypes } from './type-mapping';
 
 // Pre-built lookup for table_ref display-value resolution
 // colName → array of { id, display } from the linked table
@@ -30,6 +34,46 @@ function getColType(columns: ColumnDef[], colName: string): ColumnDef['type'] {
     return columns.find((c) => c.name === colName)?.type || 'string';
 }
 
+/**
+ * What a query was understood as (see the explain endpoint): the parsed tree,
+ * the column each field resolved to, and a warning for anything that was
+ * ignored or guessed. Strict searches reject queries with warnings.
+ */
+export interface QueryReport {
+    tree: any;
+    /** The query did not parse and was searched as title words instead */
+    fallback: boolean;
+    fields: Array<{ field: string; column: string; type: ColumnDef['type'] }>;
+    warnings: string[];
+}
+
+// Column a field of the query refers to; unknown fields search title
+function resolveQueryColumn(field: string, columns: ColumnDef[], report?: QueryReport): string {
+    const resolved = field === '<implicit>' ? 'title' : resolveFieldName(field, columns);
+    if (!resolved) report?.warnings.push(`Unknown field '${field}'; searching title instead`);
+    const column = resolved ?? 'title';
+    if (report && !report.fields.some(f => f.field === field)) {
+        report.fields.push({ field, column, type: getColType(columns, column) });
+    }
+    return column;
+}
+
+// Lucene modifiers the search builder does not implement
+function noteIgnoredModifiers(node: any, columns: ColumnDef[], report: QueryReport): void {
+    const term = String(node.term ?? `${node.term_min} TO ${node.term_max}`);
+    if (node.boost != null) report.warnings.push(`Boost (^) on '${term}' is ignored`);
+    if (node.similarity != null) report.warnings.push(`Fuzzy matching (~) on '${term}' is ignored`);
+    if (node.proximity != null) report.warnings.push(`Proximity (~) on '${term}' is ignored`);
+    if (node.prefix === '+') report.warnings.push(`'+' on '${term}' is ignored (every term is required unless OR is used)`);
+
+    // date:-7d legitimately parses as a '-' prefix
+    const colName = node.field && node.field !== '<implicit>' ? resolveFieldName(node.field, columns) : null;
+    const isRelativeDate = colName !== null && getColType(columns, colName) === 'date' && /^\d+[dwmy]$/i.test(term);
+    if (node.prefix === '-' && !isRelativeDate) {
+        report.warnings.push(`'-' on '${term}' is ignored; use !${term} to exclude it`);
+    }
+}
+
 function coerceBoolean(value: string): number | null {
     if (/^(true|1)$/i.test(value)) return 1;
     if (/^(false|0)$/i.test(value)) return 0;
@@ -53,56 +97,40 @@ function extractRegexPattern(node: any): string {
     return t;
 }
 
+// Date terms: absolute days (2024-03-15) and relative ones (today, -7d, this_week...)
+function isDateTerm(rawTerm: string, timeZone: string): boolean {
+    const bare = rawTerm.replace(/^\s*(>=|<=|>|<)\s*/, '');
+    return resolveDateTerm(bare, timeZone) !== null;
+}
+
 function buildComparisonForNumeric(
     colName: string,
     colType: ColumnDef['type'],
     rawTerm: string,
-    params: any[]
+    params: any[],
+    timeZone: string = DEFAULT_TIME_ZONE
 ): string | null {
-    const isDateLike =
-        /^\s*\d{4}[\/-]\d{1,2}[\/-]\d{1,2}\s*$/.test(rawTerm) ||
-        /^\s*(>=|<=|>|<)\s*\d{4}[\/-]\d{1,2}[\/-]\d{1,2}\s*$/.test(rawTerm);
+    if (colType === 'date' && isDateTerm(rawTerm, timeZone)) {
+        // Every date term covers whole days: [start, end)
+        const m = rawTerm.match(/^\s*(>=|<=|>|<)\s*(.+)$/);
+        const range = resolveDateTerm(m ? m[2] : rawTerm, timeZone);
+        if (!range) return null;
 
-    function parseDateToTimestamp(dateStr: string): number | null {
-        const clean = dateStr.trim().replace(/-/g, '/');
-        const d = new Date(clean);
-        return isNaN(d.getTime()) ? null : d.getTime();
-    }
-
-    if (colType === 'date' && isDateLike) {
-        const m = rawTerm.match(/^(>=|<=|>|<)\s*(.+)$/);
         if (m) {
             const op = m[1];
-            const date = parseDateToTimestamp(m[2]);
-            if (date == null) return null;
-
-            const dayStart = new Date(date); dayStart.setHours(0, 0, 0, 0);
-            const dayEnd = new Date(date); dayEnd.setHours(23, 59, 59, 999);
-
-            let value;
-            if (op === '>') value = dayEnd.getTime();
-            if (op === '>=') value = dayStart.getTime();
-            if (op === '<') value = dayStart.getTime();
-            if (op === '<=') value = dayEnd.getTime();
-
-            params.push(value);
-            return `${colName} ${op} ?`;
-        }
-
-        const exact = parseDateToTimestamp(rawTerm);
-        if (exact != null) {
-            const dayStart = new Date(exact); dayStart.setHours(0, 0, 0, 0);
-            const dayEnd = new Date(exact); dayEnd.setHours(23, 59, 59, 999);
-
-            params.push(dayStart.getTime(), dayEnd.getTime());
-            return `${colName} BETWEEN ? AND ?`;
+            if (op === '>') { params.push(range.end); return `${colName} >= ?`; }
+            if (op === '>=') { params.push(range.start); return `${colName} >= ?`; }
+            if (op === '<') { params.push(range.start); return `${colName} < ?`; }
+            params.push(range.end);
+            return `${colName} < ?`;
         }
 
-        return null;
+        params.push(range.start, range.end);
+        return `(${colName} >= ? AND ${colName} < ?)`;
     }
 
     const numericCol =
-        ['integer', 'float', 'rating', 'advanced_rating', 'date', 'boolean', 'custom'].includes(colType)
+        ['integer', 'float', 'rating', 'advanced_rating', 'date', 'boolean', 'custom'].includes(colType) || computedTypes.includes(colType)
             ? `CAST(${colName} AS REAL)`
             : colName;
 
@@ -122,11 +150,105 @@ function buildComparisonForNumeric(
     return null;
 }
 
-function buildWhereFromNode(node: any, params: any[], columns: ColumnDef[], refLookup: RefLookup = new Map()): string {
+/**
+ * Tag columns match whole tags, normalized like stored tags (normalizeName):
+ *
+ *   tags:foo     has the tag "foo" (not "food")
+ *   tags:fo*     has a tag starting with "fo"
+ *   tags:*       has any tag
+ *
+ * multi_tag values are stored as sorted, space-separated tags.
+ */
+function buildTagMatch(colName: string, colType: ColumnDef['type'], rawTerm: string, params: any[]): string {
+    if (rawTerm === '*') return `NOT ${emptyValueSql(colName, colType)}`;
+
+    const isPrefix = rawTerm.length > 1 && rawTerm.endsWith('*');
+    const tag = normalizeName(isPrefix ? rawTerm.slice(0, -1) : rawTerm);
+
+    if (colType === 'single_tag') {
+        params.push(tag);
+        return isPrefix ? `instr("${colName}", ?) = 1` : `"${colName}" = ?`;
+    }
+
+    params.push(isPrefix ? ` ${tag}` : ` ${tag} `);
+    return `instr(' ' || "${colName}" || ' ', ?) > 0`;
+}
+
+// _exists_:col / _missing_:col (col:"" is read as _missing_:col)
+const EXISTS_FIELD = '_exists_';
+const MISSING_FIELD = '_missing_';
+
+/**
+ * Whether a column holds a value, by its type's idea of empty (see
+ * emptyValueSql): '' for text and tags, '[]' for table_ref_many, '<p></p>'
+ * for rich_text, NULL for everything else. A column that does not exist
+ * holds nothing.
+ */
+function buildExistsMatch(field: string, rawColumn: string, columns: ColumnDef[], report?: QueryReport): string {
+    const colName = resolveFieldName(rawColumn, columns);
+    if (!colName) {
+        report?.warnings.push(`Unknown field '${rawColumn}' in ${field}`);
+        return field === EXISTS_FIELD ? '1=0' : '1=1';
+    }
+    if (report && !report.fields.some(f => f.field === rawColumn)) {
+        report.fields.push({ field: rawColumn, column: colName, type: getColType(columns, colName) });
+    }
+
+    const empty = emptyValueSql(colName, getColType(columns, colName));
+    return field === EXISTS_FIELD ? `NOT ${empty}` : empty;
+}
+
+/**
+ * Range terms: [a TO b] includes both bounds, {a TO b} excludes them, * leaves
+ * a side open. Date bounds are whole days (or relative terms); numeric columns
+ * compare as numbers, anything else as case-insensitive text.
+ */
+function buildRange(colName: string, colType: ColumnDef['type'], node: any, params: any[], timeZone: string): string | null {
+    const bounds: Array<{ term: string; inclusive: boolean; side: 'min' | 'max' }> = [
+        { term: String(node.term_min), inclusive: node.inclusive_min ?? node.inclusive, side: 'min' },
+        { term: String(node.term_max), inclusive: node.inclusive_max ?? node.inclusive, side: 'max' },
+    ];
+    const clauses: string[] = [];
+
+    for (const { term, inclusive, side } of bounds) {
+        if (term === '*') continue;
+
+        if (colType === 'date') {
+            const range = resolveDateTerm(term, timeZone);
+            if (!range) return null;
+            // [day… includes that day, {day… starts after it; …day] ends after it, …day} before it
+            if (side === 'min') params.push(inclusive ? range.start : range.end);
+            else params.push(inclusive ? range.end : range.start);
+            clauses.push(`${colName} ${side === 'min' ? '>=' : '<'} ?`);
+        } else if (numericTypes.has(colType) || (computedTypes.includes(colType) && !isNaN(Number(term)))) {
+            const value = Number(term);
+            if (isNaN(value)) return null;
+            params.push(value);
+            const op = side === 'min' ? (inclusive ? '>=' : '>') : (inclusive ? '<=' : '<');
+            clauses.push(`CAST(${colName} AS REAL) ${op} ?`);
+        } else {
+            params.push(term);
+            const op = side === 'min' ? (inclusive ? '>=' : '>') : (inclusive ? '<=' : '<');
+            clauses.push(`${colName} ${op} ? COLLATE NOCASE`);
+        }
+    }
+
+    return clauses.length ? `(${clauses.join(' AND ')})` : `${colName} IS NOT NULL`;
+}
+
+function buildWhereFromNode(
+    node: any,
+    params: any[],
+    columns: ColumnDef[],
+    refLookup: RefLookup = new Map(),
+    timeZone: string = DEFAULT_TIME_ZONE,
+    report?: QueryReport
+): string {
     if (!node) return '1';
 
     if (node.left && !node.right && !node.operator && node.field == null && node.term == null) {
-        return buildWhereFromNode(node.left, params, columns, refLookup);
+        const inner = buildWhereFromNode(node.left, params, columns, refLookup, timeZone, report);
+        return node.prefix === '!' ? `(NOT ${inner})` : inner;
     }
 
     let negate = false;
@@ -139,24 +261,50 @@ function buildWhereFromNode(node: any, params: any[], columns: ColumnDef[], refL
         node = { ...node, field: node.field.slice(1) };
     }
 
-    if (node.left && node.right && node.operator) {
-        const leftSQL = buildWhereFromNode(node.left, params, columns, refLookup);
-        const rightSQL = buildWhereFromNode(node.right, params, columns, refLookup);
+    if (report && (node.term != null || node.term_min !== undefined)) {
+        noteIgnoredModifiers(node, columns, report);
+    }
 
-        if (String(node.operator).toLowerCase() === '<implicit>') {
-            return `(${leftSQL} AND ${rightSQL})`;
-        }
+    if (node.left && node.right && node.operator) {
+        const leftSQL = buildWhereFromNode(node.left, params, columns, refLookup, timeZone, report);
+        const rightSQL = buildWhereFromNode(node.right, params, columns, refLookup, timeZone, report);
 
         const op = String(node.operator).toUpperCase();
-        return `(${leftSQL} ${op} ${rightSQL})`;
+        // a NOT b: a, but not b
+        const sql = op === 'NOT'
+            ? `(${leftSQL} AND NOT ${rightSQL})`
+            : `(${leftSQL} ${op === '<IMPLICIT>' ? 'AND' : op} ${rightSQL})`;
+        return negate ? `(NOT ${sql})` : sql;
+    }
+
+    if ((node.field === EXISTS_FIELD || node.field === MISSING_FIELD) && node.term != null) {
+        const existsSQL = buildExistsMatch(node.field, String(node.term), columns, report);
+        return negate ? `(NOT ${existsSQL})` : existsSQL;
+    }
+
+    if (node.field && node.term_min !== undefined) {
+        const colName = resolveQueryColumn(node.field, columns, report);
+
+        const rangeSQL = buildRange(colName, getColType(columns, colName), node, params, timeZone);
+        if (!rangeSQL) return negate ? '1=1' : '1=0';
+        return negate ? `(NOT ${rangeSQL})` : rangeSQL;
     }
 
     if (node.field && node.term != null) {
-        let colName = resolveFieldName(node.field, columns) || 'title';
-        if (node.field === '<implicit>') colName = 'title';
+        const colName = resolveQueryColumn(node.field, columns, report);
 
         const colType = getColType(columns, colName);
-        const termStr = String(node.term);
+        let termStr = String(node.term);
+
+        if ((colType === 'single_tag' || colType === 'multi_tag') && !isRegexNode(node)) {
+            const tagSQL = buildTagMatch(colName, colType, termStr, params);
+            return negate ? `(NOT ${tagSQL})` : tagSQL;
+        }
+
+        // date:-7d parses as a '-' prefix on "7d"
+        if (colType === 'date' && node.prefix === '-' && /^\d+[dwmy]$/i.test(termStr)) {
+            termStr = `-${termStr}`;
+        }
         const wantsNumeric = /^[><]=?|^=/.test(termStr);
 
         if (isRegexNode(node)) {
@@ -217,7 +365,8 @@ function buildWhereFromNode(node: any, params: any[], columns: ColumnDef[], refL
             }
         }
 
-        if (numericTypes.has(colType) || (colType === 'custom' && wantsNumeric)) {
+        // custom and computed values may be text or numbers: compare as numbers when asked to
+        if (numericTypes.has(colType) || ((colType === 'custom' || computedTypes.includes(colType)) && wantsNumeric)) {
             if (colType === 'boolean') {
                 const boolVal = coerceBoolean(String(node.term));
                 if (boolVal !== null) {
@@ -225,7 +374,7 @@ function buildWhereFromNode(node: any, params: any[], columns: ColumnDef[], refL
                     return negate ? `(NOT ${colName} = ?)` : `${colName} = ?`;
                 }
             }
-            const numericSQL = buildComparisonForNumeric(colName, colType, String(node.term), params);
+            const numericSQL = buildComparisonForNumeric(colName, colType, termStr, params, timeZone);
             if (numericSQL) {
                 return negate ? `(NOT ${numericSQL})` : numericSQL;
             }
@@ -256,7 +405,7 @@ function buildWhereFromNode(node: any, params: any[], columns: ColumnDef[], refL
 
     if (Array.isArray(node)) {
         const subClauses = node
-            .map((n) => buildWhereFromNode(n, params, columns, refLookup))
+            .map((n) => buildWhereFromNode(n, params, columns, refLookup, timeZone, report))
             .filter((clause) => clause && clause !== '1');
         if (subClauses.length === 0) return '1';
         return `(${subClauses.join(' AND ')})`;
@@ -265,42 +414,96 @@ function buildWhereFromNode(node: any, params: any[], columns: ColumnDef[], refL
     return '1';
 }
 
-export function parseSearchQuery(queryString: string, columns: ColumnDef[], refLookup: RefLookup = new Map()) {
-    if (!queryString || !queryString.trim()) {
-        return { where: '1', params: [] };
-    }
-
+// Parses a query into a lucene tree; null when the syntax is invalid
+function parseQueryTree(queryString: string, report?: QueryReport): any | null {
     queryString = queryString
         .replace(/\band\b/gi, 'AND')
-        .replace(/\bor\b/gi, 'OR');
+        .replace(/\bor\b/gi, 'OR')
+        // The parser rejects -field:term; it means the same as !field:term
+        .replace(/(^|[\s(])-(?=[^\s:()"]+:)/g, '$1!')
+        // ...and field:"" (empty field)
+        .replace(/([^\s:()"!]+):""/g, `${MISSING_FIELD}:$1`)
+        // Relative dates inside ranges ([-7d TO today]) would not parse unescaped
+        .replace(/([[{]\s*|\sTO\s+)-(?=\d)/g, '$1\\-');
+
+    // The parser drops a NOT that follows AND / OR or starts a group
+    if (/(^|\(|\bAND|\bOR|&&|\|\|)\s*NOT\b/.test(queryString)) {
+        report?.warnings.push(`NOT after AND/OR or at the start of a group is ignored; use !term to exclude`);
+    }
 
     let parsed: any;
     try {
         parsed = lucene.parse(queryString);
-
-        if (typeof parsed === 'string') {
-            parsed = { term: parsed };
+    } catch (err) {
+        if (report) {
+            report.fallback = true;
+            report.warnings.push(`Query could not be parsed (${(err as Error).message}); searching title for each word instead`);
         }
-        if (Array.isArray(parsed) && parsed.length === 1 && parsed[0]?.term != null) {
-            parsed = parsed[0];
+        return null;
+    }
+
+    if (typeof parsed === 'string') {
+        parsed = { term: parsed };
+    }
+    if (Array.isArray(parsed) && parsed.length === 1 && parsed[0]?.term != null) {
+        parsed = parsed[0];
+    }
+
+    function normalizeImplicit(node: any): any {
+        if (!node || typeof node !== 'object') return node;
+
+        if (node.field && String(node.field).toLowerCase() === 'implicit') {
+            node.field = '<implicit>';
         }
 
-        function normalizeImplicit(node: any): any {
-            if (!node || typeof node !== 'object') return node;
+        if (node.left) normalizeImplicit(node.left);
+        if (node.right) normalizeImplicit(node.right);
 
-            if (node.field && String(node.field).toLowerCase() === 'implicit') {
-                node.field = '<implicit>';
-            }
+        return node;
+    }
 
-            if (node.left) normalizeImplicit(node.left);
-            if (node.right) normalizeImplicit(node.right);
+    // field:(a OR b) — the group's terms search that field; !field:(…) negates the group
+    function applyGroupField(node: any, field: string | null): void {
+        if (!node || typeof node !== 'object') return;
 
-            return node;
+        if (node.left && node.term == null && node.field != null && node.field !== '<implicit>') {
+            let groupField = String(node.field);
+            if (groupField.startsWith('!')) {
+                node.prefix = '!';
+                groupField = groupField.slice(1);
+            }
+            delete node.field;
+            field = groupField;
+        } else if (field && node.field === '<implicit>') {
+            node.field = field;
         }
 
-        parsed = normalizeImplicit(parsed);
+        if (node.left) applyGroupField(node.left, field);
+        if (node.right) applyGroupField(node.right, field);
+    }
+
+    parsed = normalizeImplicit(parsed);
+    applyGroupField(parsed, null);
+    return parsed;
+}
+
+/**
+ * Builds the WHERE condition of a q= query. The report says how the query was
+ * read, with warnings for anything ignored, guessed or not parsed.
+ */
+export function parseSearchQuery(
+    queryString: string,
+    columns: ColumnDef[],
+    refLookup: RefLookup = new Map(),
+    timeZone: string = DEFAULT_TIME_ZONE
+): { where: string; params: any[]; report: QueryReport } {
+    const report: QueryReport = { tree: null, fallback: false, fields: [], warnings: [] };
+    if (!queryString || !queryString.trim()) {
+        return { where: '1', params: [], report };
+    }
 
-    } catch {
+    const parsed = parseQueryTree(queryString, report);
+    if (parsed === null) {
         const terms = queryString.split(/\s+/);
         const params: any[] = [];
         const where = terms
@@ -309,11 +512,147 @@ export function parseSearchQuery(queryString: string, columns: ColumnDef[], refL
                 return `title LIKE ? COLLATE NOCASE`;
             })
             .join(' AND ');
-        return { where, params };
+        return { where, params, report };
     }
 
+    report.tree = parsed;
     const params: any[] = [];
-    const where = buildWhereFromNode(parsed, params, columns, refLookup);
+    const where = buildWhereFromNode(parsed, params, columns, refLookup, timeZone, report);
+
+    return { where, params, report };
+}
 
-    return { where, params };
-}
\ No newline at end of file
+/**
+ * The positive terms of a query (those not negated or behind NOT), each with
+ * the column it searches and its own SQL condition. Used to tell which field
+ * of a row matched.
+ */
+export function parseSearchTerms(
+    queryString: string,
+    columns: ColumnDef[],
+    refLookup: RefLookup = new Map(),
+    timeZone: string = DEFAULT_TIME_ZONE
+): Array<{ field: string; where: string; params: any[] }> {
+    if (!queryString || !queryString.trim()) return [];
+
+    const parsed = parseQueryTree(queryString);
+    if (parsed === null) {
+        return queryString.split(/\s+/).map(term => ({
+            field: 'title',
+            where: `title LIKE ? COLLATE NOCASE`,
+            params: [`%${term}%`],
+        }));
+    }
+
+    const terms: Array<{ field: string; where: string; params: any[] }> = [];
+    function collect(node: any): void {
+        if (!node || typeof node !== 'object') return;
+        if (Array.isArray(node)) {
+            node.forEach(collect);
+            return;
+        }
+        if (node.prefix === '!') return;
+        if (node.left) {
+            collect(node.left);
+            if (node.right && !/NOT/i.test(String(node.operator ?? ''))) collect(node.right);
+            return;
+        }
+        if (node.term == null && node.term_min === undefined) return;
+        if (typeof node.field === 'string' && node.field.startsWith('!')) return;
+
+        const named = node.field === EXISTS_FIELD || node.field === MISSING_FIELD ? String(node.term) : node.field;
+        const field = named && named !== '<implicit>'
+            ? resolveFieldName(named, columns) || 'title'
+            : 'title';
+        const params: any[] = [];
+        const where = buildWhereFromNode(node, params, columns, refLookup, timeZone);
+        terms.push({ field, where, params });
+    }
+    collect(parsed);
+    return terms;
+}
+
+// Quotes one term as an FTS5 string; a trailing * (outside quotes) makes it a prefix query
+function toFullTextPhrase(term: string): string {
+    const isPrefix = !term.startsWith('"') && term.length > 1 && term.endsWith('*');
+    const text = term.replace(/^"|"$/g, '').replace(/\*$/, '');
+    return `"${text.replace(/"/g, '""')}"${isPrefix ? ' *' : ''}`;
+}
+
+/**
+ * Translates a full-text query (mode=fulltext) into an FTS5 MATCH expression.
+ *
+ *   dune messiah        both terms, anywhere in the indexed columns
+ *   "spice must flow"   phrase
+ *   arra*               prefix
+ *   a OR b, a AND b     operators (lowercase works too), with ( ) grouping
+ *   -term, NOT term     exclusion (needs something before it)
+ *   title:dune          restricts a term to one indexed column (name or iN)
+ *
+ * `indexed` lists the index's columns in order; they are addressed in FTS5 as
+ * f0, f1, ... Every term is quoted, so punctuation cannot break the syntax.
+ */
+export function parseFullTextQuery(queryString: string, indexed: string[], columns: ColumnDef[]): string {
+    const tokens = queryString.match(/"[^"]*"?|\(|\)|[^\s()]+/g) ?? [];
+    const parts: string[] = [];
+
+    for (let token of tokens) {
+        if (token === '(' || token === ')') {
+            parts.push(token);
+            continue;
+        }
+        if (/^(and|or|not)$/i.test(token)) {
+            parts.push(token.toUpperCase());
+            continue;
+        }
+
+        if (/^[-!]./.test(token)) {
+            parts.push('NOT');
+            token = token.slice(1);
+        }
+
+        const field = token.match(/^([^":]+):(.+)$/);
+        if (field) {
+            const colName = resolveFieldName(field[1], columns);
+            const position = colName ? indexed.indexOf(colName) : -1;
+            if (position < 0) throw new Error(`Column '${field[1]}' is not in the full-text index`);
+            parts.push(`f${position} : ${toFullTextPhrase(field[2])}`);
+        } else {
+            parts.push(toFullTextPhrase(token));
+        }
+    }
+
+    if (parts.length === 0) throw new Error('Full-text query is empty');
+    if (parts[0] === 'NOT') throw new Error('A full-text query cannot start with an excluded term');
+    return parts.join(' ');
+}
+
+// Splits a q= query around its quoted phrases: odd parts are the phrases
+const QUOTED_PHRASE = /("(?:[^"\\]|\\.)*")/;
+
+// Field references to column `name` (`name:term`, `!name:term`, `_exists_:name`...)
+function fieldRefPatterns(name: string): RegExp[] {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return [
+        new RegExp(`(^|[\\s(!+-])${escaped}(?=:)`, 'gi'),
+        new RegExp(`((?:${EXISTS_FIELD}|${MISSING_FIELD}):)${escaped}(?=$|[\\s)])`, 'gi'),
+    ];
+}
+
+/**
+ * Rewrites the field references to a renamed column in a q= query
+ * (`old:term`, `!old:term`, `_exists_:old`...), leaving quoted phrases alone.
+ */
+export function renameQueryField(queryString: string, oldName: string, newName: string): string {
+    return queryString
+        .split(QUOTED_PHRASE)
+        .map((part, i) => (i % 2 ? part : fieldRefPatterns(oldName).reduce((text, ref) => text.replace(ref, `$1${newName}`), part)))
+        .join('');
+}
+
+// Whether a q= query refers to column `name` as a field (quoted phrases aside)
+export function queryUsesField(queryString: string, name: string): boolean {
+    return queryString
+        .split(QUOTED_PHRASE)
+        .some((part, i) => i % 2 === 0 && fieldRefPatterns(name).some(ref => ref.test(part)));
+}
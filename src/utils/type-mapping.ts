@@ -1,3 +1,5 @@
+import type { ColumnType } from '../types';
+
 export const columnTypeMap: Record<string, string> = {
     string: 'TEXT',
     boolean: 'INTEGER',
@@ -12,5 +14,11 @@ export const columnTypeMap: Record<string, string> = {
     link: 'TEXT', //json object
     custom: 'TEXT',
     table_ref: 'INTEGER',   // stores a single row id
-    table_ref_many: 'TEXT'  // stores a JSON array of row ids
+    table_ref_many: 'TEXT', // stores a JSON array of row ids
+    formula: 'TEXT',        // stays empty: computed when rows are read
+    lookup: 'TEXT',         // likewise
+    rollup: 'TEXT'          // likewise
 };
+
+// Column types computed when rows are read; their SQLite columns stay empty
+export const computedTypes: ColumnType[] = ['formula', 'lookup', 'rollup'];